@@ -0,0 +1,45 @@
+import { type ArvoEvent, ArvoOrchestrationSubject, createArvoEvent } from 'arvo-core';
+import { z } from 'zod';
+import type { ArvoCancelEventData, CreateArvoCancelEventParam } from './types';
+
+/**
+ * Derives the cancel event type of an orchestrator from its event type, in the
+ * same way as the completion event type is derived from it.
+ *
+ * @example
+ * createArvoCancelEventType('arvo.orc.checkout') // 'arvo.orc.checkout.cancel'
+ */
+export const createArvoCancelEventType = <T extends string>(orchestratorType: T): `${T}.cancel` =>
+  `${orchestratorType}.cancel`;
+
+/**
+ * Schema of the data of the orchestration cancel events.
+ */
+export const ArvoCancelEventDataSchema = z.object({
+  reason: z.string().nullable().describe('The reason for the cancellation'),
+});
+
+/**
+ * Creates the event cancelling a running orchestrator or resumable. The event is
+ * addressed to the orchestrator handling the subject.
+ *
+ * @param param - The orchestration subject and the cancellation details
+ */
+export const createArvoCancelEvent = (
+  param: CreateArvoCancelEventParam,
+): ArvoEvent<ArvoCancelEventData, Record<string, any>, string> => {
+  const orchestratorType = ArvoOrchestrationSubject.parse(param.subject).orchestrator.name;
+  return createArvoEvent<ArvoCancelEventData, Record<string, any>, string>({
+    source: param.source,
+    subject: param.subject,
+    type: createArvoCancelEventType(orchestratorType),
+    to: orchestratorType,
+    data: {
+      reason: param.reason ?? null,
+    },
+    parentid: param.parentid,
+    accesscontrol: param.accesscontrol,
+    traceparent: param.traceparent,
+    tracestate: param.tracestate,
+  });
+};
@@ -0,0 +1,150 @@
+import type { Span } from '@opentelemetry/api';
+import {
+  type ArvoEvent,
+  type ArvoOrchestratorContract,
+  type ArvoSemanticVersion,
+  type OpenTelemetryHeaders,
+  type VersionedArvoContract,
+  logToSpan,
+} from 'arvo-core';
+import { processRawEventsIntoEmittables } from '../ArvoOrchestrationUtils/createEmitableEvent';
+import { createSystemErrorEvents } from '../ArvoOrchestrationUtils/handlerErrors';
+import type {
+  OrchestrationCancellationRecord,
+  OrchestrationExecutionMemoryRecord,
+} from '../ArvoOrchestrationUtils/orchestrationExecutionState';
+import type { ArvoOrchestrationHandlerType } from '../ArvoOrchestrationUtils/types';
+import { compensateSaga } from '../ArvoSaga/compensateSaga';
+import { ContractViolation } from '../errors';
+import type { NonEmptyArray } from '../types';
+import { ArvoCancelEventDataSchema, createArvoCancelEvent } from './event';
+import type { ArvoOrchestrationCancelHook } from './types';
+
+/**
+ * Executes the cancellation of an orchestration on its cancel event.
+ *
+ * Runs the compensation hook and creates, in order, the compensation events of
+ * the completed saga steps, the compensation events returned by the hook, the cancel events of the child orchestrations spawned
+ * via `parentSubject$$`, and the terminal system error event reporting the
+ * cancellation to the parent orchestration or the initiator.
+ *
+ * @returns The events to emit and the cancellation record to persist
+ *
+ * @throws {ContractViolation} When the cancel event data does not meet the cancel schema
+ */
+export const executeCancellation = async (
+  param: {
+    /** The cancel event */
+    event: ArvoEvent;
+    /** The state of the cancelled orchestration */
+    state: OrchestrationExecutionMemoryRecord<Record<string, any>>;
+    /** The machine context or resumable state passed to the hook */
+    context: Record<string, any> | null;
+    /** The compensation hook of the handler */
+    onCancel: ArvoOrchestrationCancelHook<any> | null;
+    otelHeaders: OpenTelemetryHeaders;
+    orchestrationParentSubject: string | null;
+    initEventId: string;
+    selfContract: VersionedArvoContract<ArvoOrchestratorContract, ArvoSemanticVersion>;
+    serviceContracts: Record<string, VersionedArvoContract<any, any>>;
+    /** Default domains of the compensation events */
+    servicesDomain: NonEmptyArray<string | null>;
+    /** Domains of the terminal system error event */
+    systemErrorDomain: NonEmptyArray<string | null>;
+    executionunits: number;
+    source: string;
+    handlerType: ArvoOrchestrationHandlerType;
+  },
+  span: Span,
+): Promise<{ emittables: ArvoEvent[]; cancellation: OrchestrationCancellationRecord }> => {
+  const validation = ArvoCancelEventDataSchema.safeParse(param.event.data);
+  if (!validation.success) {
+    throw new ContractViolation(
+      `Input validation failed - Cancel event data does not meet the cancel schema: ${validation.error.message}`,
+    );
+  }
+  const { reason } = validation.data;
+
+  logToSpan(
+    {
+      level: 'INFO',
+      message: `Cancelling orchestration ${param.event.subject}${reason ? ` - ${reason}` : ''}`,
+    },
+    span,
+  );
+
+  const compensations =
+    (await param.onCancel?.({
+      subject: param.event.subject,
+      reason,
+      event: param.event.toJSON(),
+      context: param.context,
+      span,
+    })) ?? [];
+
+  const saga = compensateSaga({ steps: param.state.saga ?? [], event: param.event, otelHeaders: param.otelHeaders });
+
+  const emittables = processRawEventsIntoEmittables(
+    {
+      rawEvents: compensations.map((item) => ({ ...item, domain: item.domain ?? param.servicesDomain })),
+      otelHeaders: param.otelHeaders,
+      orchestrationParentSubject: param.orchestrationParentSubject,
+      sourceEvent: param.event,
+      selfContract: param.selfContract,
+      serviceContracts: param.serviceContracts,
+      initEventId: param.initEventId,
+      executionunits: param.executionunits,
+      source: param.source,
+    },
+    span,
+  );
+
+  emittables.unshift(...saga.events);
+
+  for (const child of param.state.children ?? []) {
+    emittables.push(
+      createArvoCancelEvent({
+        subject: child,
+        source: param.source,
+        reason,
+        parentid: param.event.id,
+        accesscontrol: param.event.accesscontrol ?? undefined,
+        traceparent: param.otelHeaders.traceparent ?? undefined,
+        tracestate: param.otelHeaders.tracestate ?? undefined,
+      }),
+    );
+  }
+
+  emittables.push(
+    ...createSystemErrorEvents({
+      error: new Error(`Orchestration cancelled${reason ? ` - ${reason}` : ''}`),
+      event: param.event,
+      otelHeaders: param.otelHeaders,
+      orchestrationParentSubject: param.orchestrationParentSubject,
+      initEventId: param.initEventId,
+      selfContract: param.selfContract,
+      systemErrorDomain: param.systemErrorDomain,
+      executionunits: param.executionunits,
+      source: param.source,
+      handlerType: param.handlerType,
+    }),
+  );
+
+  span.setAttribute('arvo.orchestration.cancelled', true);
+  logToSpan(
+    {
+      level: 'INFO',
+      message: `Orchestration cancelled with ${saga.events.length + compensations.length} compensation events and ${param.state.children?.length ?? 0} child cancellations`,
+    },
+    span,
+  );
+
+  return {
+    emittables,
+    cancellation: {
+      reason,
+      eventId: param.event.id,
+      at: new Date().toISOString(),
+    },
+  };
+};
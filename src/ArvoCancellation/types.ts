@@ -0,0 +1,58 @@
+import type { Span } from '@opentelemetry/api';
+import type { ArvoEvent, InferArvoEvent } from 'arvo-core';
+import type { EnqueueArvoEventActionParam } from '../ArvoMachine/types';
+
+/**
+ * The data of an orchestration cancel event.
+ */
+export type ArvoCancelEventData = {
+  /** The reason for the cancellation, reported to the parent orchestration */
+  reason: string | null;
+};
+
+/**
+ * Parameters for creating an orchestration cancel event via {@link createArvoCancelEvent}.
+ */
+export type CreateArvoCancelEventParam = {
+  /** The subject of the orchestration to cancel */
+  subject: string;
+  /** The source of the cancel event */
+  source: string;
+  /** The reason for the cancellation */
+  reason?: string | null;
+  /** ID of the event which caused the cancellation */
+  parentid?: string;
+  /** Access control information of the cancel event */
+  accesscontrol?: string;
+  /** OpenTelemetry traceparent header */
+  traceparent?: string;
+  /** OpenTelemetry tracestate header */
+  tracestate?: string;
+};
+
+/**
+ * Parameters passed to the cancellation hook of an orchestrator or a resumable.
+ */
+export type ArvoOrchestrationCancelHookParam<TContext extends Record<string, any> = Record<string, any>> = {
+  /** The subject of the cancelled orchestration */
+  subject: string;
+  /** The reason for the cancellation */
+  reason: string | null;
+  /** The cancel event */
+  event: InferArvoEvent<ArvoEvent>;
+  /** The machine context of an orchestrator, or the state of a resumable */
+  context: TContext | null;
+  /** The OpenTelemetry span of the cancelling execution */
+  span: Span;
+};
+
+/**
+ * Compensation hook invoked when an orchestration is cancelled. The returned
+ * events are emitted before the cancellation of the child orchestrations and
+ * must be service events of the handler contracts, e.g. refunds or releases
+ * of reserved resources.
+ */
+export type ArvoOrchestrationCancelHook<TContext extends Record<string, any> = Record<string, any>> = (
+  param: ArvoOrchestrationCancelHookParam<TContext>,
+  // biome-ignore lint/suspicious/noConfusingVoidType: Make the function more ergonomic in coding
+) => Promise<EnqueueArvoEventActionParam[] | undefined | void>;
@@ -0,0 +1,87 @@
+import type { Span } from '@opentelemetry/api';
+import { type ArvoEvent, logToSpan } from 'arvo-core';
+import { reviveArvoEvent } from '../ArvoOrchestrationUtils/reviveArvoEvent';
+import type { ArvoEventHandlerIdempotencyOptions, ArvoEventHandlerIdempotencyRecord } from './types';
+
+/**
+ * Result of looking up an event in the idempotency store.
+ */
+export type IdempotencyLookup = {
+  /** The idempotency key of the event */
+  key: string;
+  /** The record found in the store, including expired records */
+  record: ArvoEventHandlerIdempotencyRecord | null;
+  /** The events to replay when the event has already been processed */
+  replay: ArvoEvent[] | null;
+};
+
+/**
+ * Looks up the incoming event in the idempotency store.
+ *
+ * Store read failures are logged and treated as a cache miss, so that an
+ * unavailable store degrades to at-least-once execution instead of blocking
+ * the handler.
+ */
+export const lookupIdempotentResult = async (
+  options: ArvoEventHandlerIdempotencyOptions,
+  event: ArvoEvent,
+  span: Span,
+): Promise<IdempotencyLookup> => {
+  const key = options.key?.(event) ?? event.id;
+  span.setAttribute('arvo.handler.idempotency.key', key);
+  let record: ArvoEventHandlerIdempotencyRecord | null = null;
+  try {
+    record = await options.store.read(key);
+  } catch (e) {
+    logToSpan(
+      {
+        level: 'WARNING',
+        message: `Unable to read the idempotency store for key '${key}'. Executing the handler: ${(e as Error)?.message}`,
+      },
+      span,
+    );
+  }
+  const isHit = Boolean(record && record.expiresAt > Date.now());
+  span.setAttribute('arvo.handler.idempotency.hit', isHit);
+  if (!isHit || !record) {
+    return { key, record, replay: null };
+  }
+  logToSpan(
+    {
+      level: 'INFO',
+      message: `Event with idempotency key '${key}' has already been processed. Replaying ${record.events.length} cached events`,
+    },
+    span,
+  );
+  return { key, record, replay: record.events.map(reviveArvoEvent) };
+};
+
+/**
+ * Caches the events emitted for an event in the idempotency store.
+ *
+ * The events have already been produced at this point, so store write
+ * failures are logged and do not fail the execution.
+ */
+export const cacheIdempotentResult = async (
+  options: ArvoEventHandlerIdempotencyOptions,
+  lookup: IdempotencyLookup,
+  events: ArvoEvent[],
+  span: Span,
+): Promise<void> => {
+  const record: ArvoEventHandlerIdempotencyRecord = {
+    key: lookup.key,
+    events: events.map((item) => item.toJSON()),
+    expiresAt: Date.now() + (options.ttlMs ?? 86400000),
+  };
+  try {
+    await options.store.write(lookup.key, record, lookup.record);
+  } catch (e) {
+    logToSpan(
+      {
+        level: 'WARNING',
+        message: `Unable to cache the emitted events for idempotency key '${lookup.key}': ${(e as Error)?.message}`,
+      },
+      span,
+    );
+  }
+};
@@ -1,4 +1,4 @@
-import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { type Span, SpanKind, SpanStatusCode } from '@opentelemetry/api';
 import {
   type ArvoContract,
   type ArvoEvent,
@@ -9,7 +9,9 @@ import {
   EventDataschemaUtil,
   OpenInference,
   OpenInferenceSpanKind,
+  type OpenTelemetryHeaders,
   type VersionedArvoContract,
+  type ViolationError,
   createArvoEventFactory,
   currentOpenTelemetryHeaders,
   exceptionToSpan,
@@ -17,13 +19,28 @@ import {
   logToSpan,
 } from 'arvo-core';
 import { ArvoDomain, resolveEventDomain } from '../ArvoDomain';
+import {
+  executeAfterMiddlewares,
+  executeBeforeMiddlewares,
+  executeErrorMiddlewares,
+} from '../ArvoMiddleware/executeMiddlewares';
+import type { IArvoMiddleware } from '../ArvoMiddleware/interface';
+import type { ArvoMiddlewareContext } from '../ArvoMiddleware/types';
 import { createSystemErrorEvents } from '../ArvoOrchestrationUtils/handlerErrors';
 import { returnEventsWithLogging } from '../ArvoOrchestrationUtils/orchestrationExecutionWrapper';
+import type { IDeadLetterSink } from '../DeadLetter/interface';
+import { sendToDeadLetter } from '../DeadLetter/sendToDeadLetter';
 import type IArvoEventHandler from '../IArvoEventHandler';
 import { ConfigViolation, ContractViolation } from '../errors';
 import type { ArvoEventHandlerOpenTelemetryOptions, ArvoEventHandlerOtelSpanOptions } from '../types';
 import { coalesce, coalesceOrDefault, createEventHandlerTelemetryConfig } from '../utils';
-import type { ArvoEventHandlerFunction, ArvoEventHandlerFunctionOutput, ArvoEventHandlerParam } from './types';
+import { type IdempotencyLookup, cacheIdempotentResult, lookupIdempotentResult } from './idempotency';
+import type {
+  ArvoEventHandlerFunction,
+  ArvoEventHandlerFunctionOutput,
+  ArvoEventHandlerIdempotencyOptions,
+  ArvoEventHandlerParam,
+} from './types';
 
 /**
  * The foundational component for building stateless,
@@ -42,6 +59,15 @@ export default class ArvoEventHandler<TContract extends ArvoContract> implements
   /** Version-specific event handler implementation map */
   readonly handler: ArvoEventHandlerFunction<TContract>;
 
+  /** Idempotency configuration for replaying the results of redelivered events */
+  readonly idempotency: ArvoEventHandlerIdempotencyOptions | null;
+
+  /** Sink receiving the events which failed with a violation error */
+  readonly deadLetter: IDeadLetterSink | null;
+
+  /** Middlewares applied around the execution of the handler */
+  readonly middlewares: IArvoMiddleware[];
+
   /** The source identifier for events produced by this handler */
   get source(): TContract['type'] {
     return this.contract.type;
@@ -61,6 +87,9 @@ export default class ArvoEventHandler<TContract extends ArvoContract> implements
     this.contract = param.contract;
     this.executionunits = param.executionunits;
     this.handler = param.handler;
+    this.idempotency = param.idempotency ?? null;
+    this.deadLetter = param.deadLetter ?? null;
+    this.middlewares = param.middlewares ?? [];
     this.defaultEventEmissionDomains = {
       systemError: [ArvoDomain.ORCHESTRATION_CONTEXT],
       emits: [ArvoDomain.ORCHESTRATION_CONTEXT],
@@ -93,6 +122,16 @@ export default class ArvoEventHandler<TContract extends ArvoContract> implements
    * handles the complete lifecycle of event processing including validation, execution, error
    * handling, and multi-domain event broadcasting, while maintaining detailed telemetry through OpenTelemetry.
    *
+   * When idempotency is configured, the events emitted for a redelivered event are replayed
+   * from the idempotency store without executing the handler again.
+   *
+   * When a dead-letter sink is configured, events failing with a violation error are
+   * sent to the sink before the violation is thrown.
+   *
+   * When middlewares are configured, their `before` hooks run once the event is validated
+   * and may short-circuit the handler, their `after` hooks receive the emitted events, and
+   * their `onError` hooks may recover the execution from the errors raised past validation.
+   *
    * @throws {ContractViolation} when input or output event data violates the contract schema,
    *                             or when event emission fails due to invalid data
    * @throws {ConfigViolation} when event type doesn't match contract type, when the
@@ -117,6 +156,8 @@ export default class ArvoEventHandler<TContract extends ArvoContract> implements
       ...otelConfig,
       fn: async (span) => {
         const otelSpanHeaders = currentOpenTelemetryHeaders();
+        let idempotencyLookup: IdempotencyLookup | null = null;
+        let middlewareContext: ArvoMiddlewareContext | null = null;
         try {
           span.setAttribute('arvo.handler.execution.status', 'normal');
           span.setAttribute('arvo.handler.execution.type', 'handler');
@@ -125,6 +166,13 @@ export default class ArvoEventHandler<TContract extends ArvoContract> implements
             span.setAttribute(`consumable.0.${key}`, value);
           }
 
+          if (this.idempotency) {
+            idempotencyLookup = await lookupIdempotentResult(this.idempotency, event, span);
+            if (idempotencyLookup.replay) {
+              return returnEventsWithLogging({ events: idempotencyLookup.replay }, span);
+            }
+          }
+
           if (this.contract.type !== event.type) {
             throw new ConfigViolation(
               `Event type mismatch: Received '${event.type}', expected '${this.contract.type}'`,
@@ -175,81 +223,42 @@ export default class ArvoEventHandler<TContract extends ArvoContract> implements
             message: `Event payload validated successfully against contract ${EventDataschemaUtil.create(handlerContract)}`,
           });
 
-          logToSpan({
-            level: 'INFO',
-            message: `Executing handler for event type '${event.type}'`,
-          });
-
-          const _handleOutput = await this.handler[handlerContract.version]({
-            event: event.toJSON(),
-            source: this.source,
+          middlewareContext = {
+            event,
             contract: handlerContract,
-            domain: {
-              self: this.domain,
-              event: event.domain,
-            },
-            span: span,
-            spanHeaders: otelSpanHeaders,
-          });
+            source: this.source,
+            handlerType: 'handler',
+            span,
+          };
+          const shortCircuitedEvents = await executeBeforeMiddlewares(this.middlewares, middlewareContext);
 
-          if (!_handleOutput)
-            return {
-              events: [],
-            };
-
-          let outputs: ArvoEventHandlerFunctionOutput<
-            VersionedArvoContract<TContract, typeof handlerContract.version>
-          >[] = [];
-          if (Array.isArray(_handleOutput)) {
-            outputs = _handleOutput;
-          } else {
-            outputs = [_handleOutput];
-          }
+          let result =
+            shortCircuitedEvents ?? (await this.executeHandler(event, handlerContract, span, otelSpanHeaders));
+          result = await executeAfterMiddlewares(this.middlewares, middlewareContext, result);
 
-          const result: ArvoEvent[] = [];
-          for (const item of outputs) {
-            try {
-              const { __extensions, ...handlerResult } = item;
-              const domains = (handlerResult.domain ?? this.defaultEventEmissionDomains.emits).map((item) =>
-                resolveEventDomain({
-                  parentSubject: null,
-                  currentSubject: event.subject,
-                  domainToResolve: item,
-                  handlerSelfContract: handlerContract,
-                  eventContract: handlerContract,
-                  triggeringEvent: event,
-                }),
-              );
-              for (const _dom of Array.from(new Set(domains))) {
-                result.push(
-                  createArvoEventFactory(handlerContract).emits(
-                    {
-                      ...handlerResult,
-                      traceparent: otelSpanHeaders.traceparent || undefined,
-                      tracestate: otelSpanHeaders.tracestate || undefined,
-                      source: this.source,
-                      subject: event.subject,
-                      // 'source'
-                      // prioritise returned 'to', 'redirectto' and then
-                      to: coalesceOrDefault([handlerResult.to, event.redirectto], event.source),
-                      executionunits: coalesce(handlerResult.executionunits, this.executionunits),
-                      accesscontrol: handlerResult.accesscontrol ?? event.accesscontrol ?? undefined,
-                      parentid: event.id,
-                      domain: _dom,
-                    },
-                    __extensions,
-                  ),
-                );
-                for (const [key, value] of Object.entries(result[result.length - 1].otelAttributes)) {
-                  span.setAttribute(`emittables.${result.length - 1}.${key}`, value);
-                }
-              }
-            } catch (e) {
-              throw new ContractViolation((e as Error)?.message ?? 'Invalid data');
+          for (const [index, item] of Object.entries(result)) {
+            for (const [key, value] of Object.entries(item.otelAttributes)) {
+              span.setAttribute(`emittables.${index}.${key}`, value);
             }
           }
+          if (this.idempotency && idempotencyLookup) {
+            await cacheIdempotentResult(this.idempotency, idempotencyLookup, result, span);
+          }
           return returnEventsWithLogging({ events: result }, span);
         } catch (error) {
+          const recoveredEvents = middlewareContext
+            ? await executeErrorMiddlewares(this.middlewares, middlewareContext, error)
+            : null;
+          if (recoveredEvents) {
+            span.setAttribute('arvo.handler.execution.status', 'recovered');
+            for (const [index, item] of Object.entries(recoveredEvents)) {
+              for (const [key, value] of Object.entries(item.otelAttributes)) {
+                span.setAttribute(`emittables.${index}.${key}`, value);
+              }
+            }
+            return returnEventsWithLogging({ events: recoveredEvents }, span);
+          }
+
           span.setAttribute('arvo.handler.execution.status', 'failure');
           exceptionToSpan(error as Error);
           span.setStatus({
@@ -258,6 +267,18 @@ export default class ArvoEventHandler<TContract extends ArvoContract> implements
           });
 
           if (isViolationError(error)) {
+            if (this.deadLetter) {
+              await sendToDeadLetter(
+                {
+                  sink: this.deadLetter,
+                  event,
+                  error: error as ViolationError,
+                  source: this.source,
+                  handlerType: 'handler',
+                },
+                span,
+              );
+            }
             throw error;
           }
 
@@ -293,6 +314,89 @@ export default class ArvoEventHandler<TContract extends ArvoContract> implements
     });
   }
 
+  /**
+   * Runs the versioned handler implementation for a validated event and creates
+   * the emitted events, one per resolved domain of each handler output.
+   *
+   * @throws {ContractViolation} when an output of the handler violates the contract
+   */
+  protected async executeHandler(
+    event: ArvoEvent,
+    handlerContract: VersionedArvoContract<any, any>,
+    span: Span,
+    otelSpanHeaders: OpenTelemetryHeaders,
+  ): Promise<ArvoEvent[]> {
+    logToSpan({
+      level: 'INFO',
+      message: `Executing handler for event type '${event.type}'`,
+    });
+
+    const _handleOutput = await this.handler[handlerContract.version]({
+      event: event.toJSON(),
+      source: this.source,
+      contract: handlerContract,
+      domain: {
+        self: this.domain,
+        event: event.domain,
+      },
+      span: span,
+      spanHeaders: otelSpanHeaders,
+    });
+
+    if (!_handleOutput) {
+      return [];
+    }
+
+    let outputs: ArvoEventHandlerFunctionOutput<VersionedArvoContract<TContract, typeof handlerContract.version>>[] =
+      [];
+    if (Array.isArray(_handleOutput)) {
+      outputs = _handleOutput;
+    } else {
+      outputs = [_handleOutput];
+    }
+
+    const result: ArvoEvent[] = [];
+    for (const item of outputs) {
+      try {
+        const { __extensions, ...handlerResult } = item;
+        const domains = (handlerResult.domain ?? this.defaultEventEmissionDomains.emits).map((item) =>
+          resolveEventDomain({
+            parentSubject: null,
+            currentSubject: event.subject,
+            domainToResolve: item,
+            handlerSelfContract: handlerContract,
+            eventContract: handlerContract,
+            triggeringEvent: event,
+          }),
+        );
+        for (const _dom of Array.from(new Set(domains))) {
+          result.push(
+            createArvoEventFactory(handlerContract).emits(
+              {
+                ...handlerResult,
+                traceparent: otelSpanHeaders.traceparent || undefined,
+                tracestate: otelSpanHeaders.tracestate || undefined,
+                source: this.source,
+                subject: event.subject,
+                // 'source'
+                // prioritise returned 'to', 'redirectto' and then
+                to: coalesceOrDefault([handlerResult.to, event.redirectto], event.source),
+                executionunits: coalesce(handlerResult.executionunits, this.executionunits),
+                accesscontrol: handlerResult.accesscontrol ?? event.accesscontrol ?? undefined,
+                parentid: event.id,
+                domain: _dom,
+              },
+              __extensions,
+            ),
+          );
+        }
+      } catch (e) {
+        throw new ContractViolation((e as Error)?.message ?? 'Invalid data');
+      }
+    }
+    return result;
+  }
+
   /**
    * Provides access to the system error event schema configuration.
    */
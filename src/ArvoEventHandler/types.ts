@@ -9,6 +9,9 @@ import type {
   VersionedArvoContract,
 } from 'arvo-core';
 import type { z } from 'zod';
+import type { IArvoMiddleware } from '../ArvoMiddleware/interface';
+import type { IDeadLetterSink } from '../DeadLetter/interface';
+import type { IMachineMemory } from '../MachineMemory/interface';
 import type { ArvoEventHandlerOtelSpanOptions, NonEmptyArray } from '../types';
 
 /**
@@ -88,6 +91,45 @@ export type ArvoEventHandlerFunction<TContract extends ArvoContract> = {
   >;
 };
 
+/**
+ * Record stored by the idempotency store of an event handler for each processed event.
+ */
+export type ArvoEventHandlerIdempotencyRecord = {
+  /** The idempotency key of the processed event */
+  key: string;
+  /** The events emitted when the event was first processed */
+  events: InferArvoEvent<ArvoEvent>[];
+  /** Epoch milliseconds after which the record is no longer replayed */
+  expiresAt: number;
+};
+
+/**
+ * Configuration for idempotent event handler execution.
+ */
+export type ArvoEventHandlerIdempotencyOptions = {
+  /**
+   * Store for the emitted events of processed events. Any {@link IMachineMemory}
+   * implementation can be used, such as `SimpleMachineMemory` for a single node.
+   * Expired records are not deleted by the handler, so the store has to expire
+   * them itself, e.g. `SimpleMachineMemory` with a `recordTTLMs` of at least `ttlMs`.
+   */
+  store: IMachineMemory<ArvoEventHandlerIdempotencyRecord>;
+
+  /**
+   * Derives the idempotency key from the incoming event.
+   *
+   * @default (event) => event.id
+   */
+  key?: (event: ArvoEvent) => string;
+
+  /**
+   * Time in milliseconds for which the emitted events of a processed event are replayed.
+   *
+   * @default 86400000 (24 hours)
+   */
+  ttlMs?: number;
+};
+
 /**
  * Interface for an ArvoEvent handler.
  */
@@ -115,6 +157,29 @@ export type ArvoEventHandlerParam<TContract extends ArvoContract> = {
    */
   spanOptions?: ArvoEventHandlerOtelSpanOptions;
 
+  /**
+   * Optional idempotency configuration. When provided, the events emitted for
+   * each successfully processed event are cached in the store, and a redelivered
+   * event with the same idempotency key replays them without running the handler.
+   * Events which fail with a system error are not cached so that they can be retried.
+   */
+  idempotency?: ArvoEventHandlerIdempotencyOptions;
+
+  /**
+   * Optional sink for the events which fail with a violation error. Violations are
+   * thrown to the caller instead of being converted into system error events, so the
+   * failed event is handed to the sink, together with the violation and the trace
+   * context, before the violation is thrown.
+   */
+  deadLetter?: IDeadLetterSink;
+
+  /**
+   * Optional middlewares applied around the execution of the handler, for
+   * cross-cutting concerns such as access control, rate limiting, payload
+   * redaction or metrics. See {@link IArvoMiddleware} for the order of the hooks.
+   */
+  middlewares?: IArvoMiddleware[];
+
   /**
    * Optional default domains for the events emitted
    * by the event handler.
@@ -0,0 +1,149 @@
+import type { ArvoContract, ArvoSemanticVersion, VersionedArvoContract } from 'arvo-core';
+import type { AnyStateMachine } from 'xstate';
+import type ArvoMachine from '.';
+import type { ArvoMachineAnalysisConfig, ArvoMachineAnalysisIssue, ArvoMachineAnalysisSeverity } from './types';
+import { type AnyStateNode, collectEnqueuedEventParams, collectStateNodes, collectTransitions } from './utils';
+
+/**
+ * Checks if an XState event descriptor matches an event type. Supports
+ * the `*` wildcard and partial wildcards such as `evt.payment.*`.
+ */
+const matchesEventDescriptor = (descriptor: string, eventType: string) => {
+  if (descriptor === '*' || descriptor === eventType) return true;
+  if (!descriptor.endsWith('.*')) return false;
+  const prefix = descriptor.slice(0, -2);
+  return eventType === prefix || eventType.startsWith(`${prefix}.`);
+};
+
+/**
+ * Resolves the states which the machine can enter. A state is reachable when it
+ * is the root, the initial state or a region of an entered state, or the target
+ * of a transition of an entered state. Entering a state enters its ancestors.
+ */
+const resolveReachableStates = (root: AnyStateNode): Set<AnyStateNode> => {
+  const reachable = new Set<AnyStateNode>();
+  const queue: AnyStateNode[] = [root];
+  const enter = (node: AnyStateNode | undefined) => {
+    if (!node || reachable.has(node)) return;
+    reachable.add(node);
+    queue.push(node);
+  };
+  reachable.add(root);
+  while (queue.length) {
+    const node = queue.shift() as AnyStateNode;
+    enter(node.parent);
+    if (node.type === 'compound') {
+      for (const target of node.initial?.target ?? []) enter(target);
+    }
+    if (node.type === 'parallel') {
+      for (const child of Object.values(node.states)) enter(child);
+    }
+    for (const transition of collectTransitions(node)) {
+      for (const target of transition.target ?? []) enter(target);
+    }
+  }
+  return reachable;
+};
+
+/**
+ * Statically analyzes the definition of an Arvo machine against its contracts.
+ *
+ * The analysis walks the state nodes of the machine and reports:
+ * - The response and system error event types of the service contracts which no state listens for
+ * - The `enqueueArvoEvent` actions, and their saga compensations, emitting event types
+ *   which no service contract accepts. Only actions with static parameters are
+ *   checked, since the parameters computed by functions are only known at runtime.
+ * - The states which no initial state or transition leads to. Only the outermost
+ *   unreachable state of a subtree is reported.
+ * - The top-level final states of a machine without an `output`
+ *
+ * {@link setupArvoMachine} runs the analysis on every created machine, failing
+ * the creation on errors and recording the warnings in {@link ArvoMachine.warnings}.
+ *
+ * @param machine - The machine to analyze
+ * @param config - The severities of the issue kinds. Omitted kinds are reported as warnings.
+ * @returns The issues found, excluding the ignored kinds
+ *
+ * @example
+ * ```typescript
+ * const issues = analyzeArvoMachine(machine, { unreachableState: 'error' });
+ * for (const issue of issues) {
+ *   console.log(issue.severity, issue.path.join('.'), issue.message);
+ * }
+ * ```
+ */
+export const analyzeArvoMachine = (
+  machine: ArvoMachine<any, any, any, any, any>,
+  config?: ArvoMachineAnalysisConfig,
+): ArvoMachineAnalysisIssue[] => {
+  const logic = machine.logic as AnyStateMachine;
+  const issues: ArvoMachineAnalysisIssue[] = [];
+  const report = (issue: Omit<ArvoMachineAnalysisIssue, 'severity'>) => {
+    const severity: ArvoMachineAnalysisSeverity = config?.[issue.kind] ?? 'warning';
+    if (severity === 'ignore') return;
+    issues.push({ ...issue, severity });
+  };
+  const services = Object.values(machine.contracts.services) as VersionedArvoContract<
+    ArvoContract,
+    ArvoSemanticVersion
+  >[];
+  const nodes = collectStateNodes(logic.root);
+
+  const listenedEvents: string[] = [];
+  for (const node of nodes) {
+    node.transitions.forEach((_, descriptor) => {
+      listenedEvents.push(descriptor);
+    });
+  }
+  for (const contract of services) {
+    for (const eventType of [...Object.keys(contract.emits), contract.systemError.type]) {
+      if (listenedEvents.some((descriptor) => matchesEventDescriptor(descriptor, eventType))) continue;
+      report({
+        kind: 'unhandledServiceEvent',
+        path: [],
+        eventType,
+        message: `The event '${eventType}' of the service contract '${contract.uri}' is not handled by any state`,
+      });
+    }
+  }
+
+  const acceptedEvents = new Set<string>(services.map((item) => item.accepts.type));
+  for (const node of nodes) {
+    for (const params of collectEnqueuedEventParams(node)) {
+      if (!params || typeof params !== 'object') continue;
+      const { type: eventType, compensation } = params as { type?: unknown; compensation?: { type?: unknown } };
+      for (const item of [eventType, compensation?.type]) {
+        if (typeof item !== 'string' || acceptedEvents.has(item)) continue;
+        report({
+          kind: 'undeclaredServiceEvent',
+          path: node.path,
+          eventType: item,
+          message: `The state '${node.path.join('.') || node.id}' enqueues the event '${item}' which no service contract accepts`,
+        });
+      }
+    }
+  }
+
+  const reachable = resolveReachableStates(logic.root);
+  for (const node of nodes) {
+    if (reachable.has(node) || (node.parent && !reachable.has(node.parent))) continue;
+    report({
+      kind: 'unreachableState',
+      path: node.path,
+      message: `The state '${node.path.join('.')}' is not reachable from the initial state`,
+    });
+  }
+
+  if (logic.config.output === undefined) {
+    for (const node of Object.values(logic.root.states)) {
+      if (node.type !== 'final') continue;
+      report({
+        kind: 'finalStateWithoutOutput',
+        path: node.path,
+        message: `The final state '${node.path.join('.')}' completes the orchestration without an output, since the machine does not define one`,
+      });
+    }
+  }
+
+  return issues;
+};
@@ -20,11 +20,16 @@ import ArvoMachine from '.';
 import { servicesValidation } from '../ArvoOrchestrationUtils/servicesValidation';
 import { ConfigViolation } from '../errors';
 import { getAllPaths } from '../utils/object';
+import { analyzeArvoMachine } from './analyzeArvoMachine';
 import type {
+  ArvoMachineAnalysisConfig,
+  ArvoMachineAnalysisIssue,
   ArvoMachineContext,
+  CancelArvoTimerActionParam,
   EnqueueArvoEventActionParam,
   ExtractOrchestratorType,
   InferServiceContract,
+  ScheduleArvoTimerActionParam,
   ToParameterizedObject,
   ToProvidedActor,
 } from './types';
@@ -39,11 +44,12 @@ import { NonEmptyArray } from '../types';
  *
  * @throws {ConfigViolation} When configuration violates Arvo constraints:
  * - Using `actors` or `delays` (async behavior not supported)
- * - Overriding reserved `enqueueArvoEvent` action name
+ * - Overriding reserved `enqueueArvoEvent`, `scheduleArvoTimer`, `cancelArvoTimer` or `compensateArvoSaga` action names
  * - Machine version mismatch with contract version
  * - Using `invoke` or `after` in state configurations
  * - Service contracts with duplicate URIs (multiple versions of same contract)
  * - Circular dependency (self contract URI matches a service contract URI)
+ * - Static analysis issues configured as errors (see {@link analyzeArvoMachine})
  */
 export function setupArvoMachine<
   TContext extends MachineContext,
@@ -194,6 +200,20 @@ export function setupArvoMachine<
     );
   }
 
+  for (const reservedAction of ['scheduleArvoTimer', 'cancelArvoTimer', 'compensateArvoSaga'] as const) {
+    if (param.actions?.[reservedAction]) {
+      throw new ConfigViolation(
+        cleanString(`
+          Configuration Error: Reserved action name '${reservedAction}'
+          
+          '${reservedAction}' is an internal Arvo ${reservedAction === 'compensateArvoSaga' ? 'saga' : 'timer'} action and cannot be overridden.
+          
+          To fix: Use a different name for your action
+        `),
+      );
+    }
+  }
+
   servicesValidation(param.contracts, 'machine');
 
   const combinedActions = {
@@ -214,6 +234,57 @@ export function setupArvoMachine<
         },
       },
     })),
+    scheduleArvoTimer: assign<
+      TContext & ArvoMachineContext,
+      InferServiceContract<TServiceContracts>['events'],
+      ScheduleArvoTimerActionParam,
+      InferServiceContract<TServiceContracts>['events'],
+      never
+    >(({ context }, param) => ({
+      ...(context ?? {}),
+      arvo$$: {
+        ...(context?.arvo$$ ?? {}),
+        volatile$$: {
+          ...(context?.arvo$$?.volatile$$ ?? {}),
+          timerQueue$$: [
+            ...(context?.arvo$$?.volatile$$?.timerQueue$$ || []),
+            { action: 'schedule', name: param.name, delayMs: param.delayMs },
+          ],
+        },
+      },
+    })),
+    cancelArvoTimer: assign<
+      TContext & ArvoMachineContext,
+      InferServiceContract<TServiceContracts>['events'],
+      CancelArvoTimerActionParam,
+      InferServiceContract<TServiceContracts>['events'],
+      never
+    >(({ context }, param) => ({
+      ...(context ?? {}),
+      arvo$$: {
+        ...(context?.arvo$$ ?? {}),
+        volatile$$: {
+          ...(context?.arvo$$?.volatile$$ ?? {}),
+          timerQueue$$: [...(context?.arvo$$?.volatile$$?.timerQueue$$ || []), { action: 'cancel', name: param.name }],
+        },
+      },
+    })),
+    compensateArvoSaga: assign<
+      TContext & ArvoMachineContext,
+      InferServiceContract<TServiceContracts>['events'],
+      undefined,
+      InferServiceContract<TServiceContracts>['events'],
+      never
+    >(({ context }) => ({
+      ...(context ?? {}),
+      arvo$$: {
+        ...(context?.arvo$$ ?? {}),
+        volatile$$: {
+          ...(context?.arvo$$?.volatile$$ ?? {}),
+          compensate$$: true,
+        },
+      },
+    })),
   };
 
   // Call the original setup function with modified parameters
@@ -226,6 +297,9 @@ export function setupArvoMachine<
     {}, // No children map
     TActions & {
       enqueueArvoEvent: EnqueueArvoEventActionParam;
+      scheduleArvoTimer: ScheduleArvoTimerActionParam;
+      cancelArvoTimer: CancelArvoTimerActionParam;
+      compensateArvoSaga: undefined;
     },
     TGuards,
     never, // No delays
@@ -255,6 +329,9 @@ export function setupArvoMachine<
       ToParameterizedObject<
         TActions & {
           enqueueArvoEvent: EnqueueArvoEventActionParam;
+          scheduleArvoTimer: ScheduleArvoTimerActionParam;
+          cancelArvoTimer: CancelArvoTimerActionParam;
+          compensateArvoSaga: undefined;
         }
       >,
       ToParameterizedObject<TGuards>,
@@ -277,8 +354,14 @@ export function setupArvoMachine<
     config: TConfig & {
       id: string;
       version?: TSelfContract['version'];
+      /**
+       * The severities of the static analysis issues of the machine, see
+       * {@link analyzeArvoMachine}. Omitted kinds are reported as warnings.
+       */
+      analysis?: ArvoMachineAnalysisConfig;
     },
   ) => {
+    const { analysis, ...machineConfig } = config;
     const machineVersion: TSelfContract['version'] = config.version ?? param.contracts.self.version;
 
     if (machineVersion !== param.contracts.self.version) {
@@ -342,7 +425,7 @@ export function setupArvoMachine<
     }
 
     const machine = systemSetup.createMachine({
-      ...(config as any),
+      ...(machineConfig as any),
     });
 
     const hasParallelStates = detectParallelStates(machine.config);
@@ -350,13 +433,30 @@ export function setupArvoMachine<
       (item) => Object.keys(item.emits).length > 1,
     );
     const requiresLocking = hasParallelStates || hasMultipleNonSystemErrorEvents;
-    return new ArvoMachine<string, typeof machineVersion, TSelfContract, TServiceContracts, typeof machine>(
-      config.id,
-      machineVersion,
-      param.contracts,
-      machine,
-      requiresLocking,
-    );
+    const warnings: ArvoMachineAnalysisIssue[] = [];
+    const arvoMachine = new ArvoMachine<
+      string,
+      typeof machineVersion,
+      TSelfContract,
+      TServiceContracts,
+      typeof machine
+    >(config.id, machineVersion, param.contracts, machine, requiresLocking, warnings);
+
+    const issues = analyzeArvoMachine(arvoMachine, analysis);
+    const errors = issues.filter((item) => item.severity === 'error');
+    if (errors.length) {
+      throw new ConfigViolation(
+        cleanString(`
+          Configuration Error: Static analysis of the machine '${config.id}' (version ${machineVersion}) failed
+
+          ${errors.map((item) => `- ${item.message}`).join('\n')}
+
+          To fix: Resolve the issues or configure their severity via the 'analysis' option of the machine
+        `),
+      );
+    }
+    warnings.push(...issues);
+    return arvoMachine;
   };
   return {
     /**
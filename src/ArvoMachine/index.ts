@@ -8,6 +8,10 @@ import type {
 } from 'arvo-core';
 import type { AnyActorLogic } from 'xstate';
 import { type EventValidationResult, validateInputEvent } from '../ArvoOrchestrationUtils/inputValidation';
+import type { ArvoDiagramFormat } from '../types';
+import { stableHash } from '../utils/object';
+import type { ArvoMachineAnalysisIssue } from './types';
+import { visualizeArvoMachine } from './visualize';
 
 /**
  * Represents an ArvoMachine object that can be consumed by an Arvo orchestrator.
@@ -35,6 +39,11 @@ export default class ArvoMachine<
     },
     public readonly logic: TLogic,
     public readonly requiresResourceLocking: boolean = true,
+    /**
+     * The warnings reported by the static analysis of the machine definition,
+     * see {@link analyzeArvoMachine}.
+     */
+    public readonly warnings: ArvoMachineAnalysisIssue[] = [],
   ) {}
 
   /**
@@ -60,4 +69,51 @@ export default class ArvoMachine<
       span,
     });
   }
+
+  /**
+   * Computes a stable fingerprint of the machine definition.
+   *
+   * The fingerprint is the SHA-256 hash of the serializable machine configuration
+   * (states, transitions, action, guard and actor references and their static
+   * parameters) together with the names of the provided implementations. It does
+   * not depend on the key order of the configuration, so it only changes when the
+   * definition changes. The bodies of inline functions are not covered.
+   *
+   * @returns The hex encoded fingerprint
+   */
+  fingerprint(): string {
+    const logic = this.logic as AnyActorLogic & {
+      config?: unknown;
+      implementations?: Record<string, Record<string, unknown> | undefined>;
+    };
+    const implementations: Record<string, string[]> = {};
+    for (const [kind, items] of Object.entries(logic.implementations ?? {})) {
+      implementations[kind] = Object.keys(items ?? {}).sort();
+    }
+    return stableHash({ config: logic.config ?? null, implementations });
+  }
+
+  /**
+   * Renders the state graph of the machine as a diagram, showing the states, the
+   * transitions labelled with the event types triggering them, and the service
+   * events enqueued by each state. The events enqueued with parameters computed
+   * by functions are labelled as dynamic.
+   *
+   * @param format - The diagram format, Mermaid by default
+   * @returns The diagram source
+   *
+   * @example
+   * ```typescript
+   * const diagram = machine.visualize('mermaid');
+   * // stateDiagram-v2
+   * //   [*] --> checkout_paying
+   * //   state "paying" as checkout_paying
+   * //   checkout_paying : emits com.payment.charge
+   * //   checkout_paying --> checkout_done : evt.payment.charge.success
+   * //   ...
+   * ```
+   */
+  visualize(format: ArvoDiagramFormat = 'mermaid'): string {
+    return visualizeArvoMachine(this, format);
+  }
 }
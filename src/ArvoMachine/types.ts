@@ -1,15 +1,20 @@
 import type {
   ArvoContract,
+  ArvoEvent,
   ArvoEventData,
   ArvoOrchestratorEventTypeGen,
   ArvoSemanticVersion,
   CloudEventExtension,
   CreateArvoEvent,
+  InferArvoEvent,
   InferVersionedArvoContract,
   VersionedArvoContract,
 } from 'arvo-core';
 import type { Invert, IsNever, ParameterizedObject, UnknownActorLogic, Values } from 'xstate';
 import type { z } from 'zod';
+import type { ArvoCompensableEventParam } from '../ArvoSaga/types';
+import type { ArvoTimerEventType } from '../ArvoTimer/event';
+import type { ArvoTimerEventData } from '../ArvoTimer/types';
 import { NonEmptyArray } from '../types';
 
 /**
@@ -29,6 +34,8 @@ export type ArvoMachineContext = {
     volatile$$?: {
       [key: string]: any;
       eventQueue$$?: EnqueueArvoEventActionParam[];
+      timerQueue$$?: ArvoTimerCommand[];
+      compensate$$?: boolean;
     };
   };
 };
@@ -98,6 +105,53 @@ export type EnqueueArvoEventActionParam<
   executionunits?: number;
 };
 
+/**
+ * Represents the parameters for the scheduleArvoTimer action in ArvoXState.
+ *
+ * Schedules a named timer which is delivered back to the machine as an
+ * `arvo.timer.due` event once it is due. Scheduling a timer with the name of an
+ * active timer replaces it.
+ */
+export type ScheduleArvoTimerActionParam = {
+  /**
+   * The name of the timer, unique within the orchestration. The machine
+   * distinguishes the timer events by this name.
+   */
+  name: string;
+
+  /**
+   * The delay in milliseconds after which the timer is due. The delay is
+   * measured from the `time` of the event being processed, so that the due
+   * time is deterministic for a given event.
+   */
+  delayMs: number;
+};
+
+/**
+ * Represents the parameters for the cancelArvoTimer action in ArvoXState.
+ * Cancelling a timer which is not active is a no-op.
+ */
+export type CancelArvoTimerActionParam = {
+  /** The name of the timer to cancel */
+  name: string;
+};
+
+/**
+ * A timer operation requested by the machine during an execution. The
+ * operations are collected in the volatile context and applied by the
+ * orchestrator in order.
+ */
+export type ArvoTimerCommand =
+  | ({ action: 'schedule' } & ScheduleArvoTimerActionParam)
+  | ({ action: 'cancel' } & CancelArvoTimerActionParam);
+
+/**
+ * The timer event received by the machine when a scheduled timer is due.
+ */
+export type ArvoTimerMachineEvent = InferArvoEvent<
+  ArvoEvent<ArvoTimerEventData, Record<string, any>, typeof ArvoTimerEventType>
+>;
+
 /**
  * This is an internal type. Copied as it is from the
  * xstate core [here](https://github.com/statelyai/xstate/blob/main/packages/core/src/setup.ts#L26)
@@ -158,15 +212,62 @@ export type ExtractOrchestratorType<T extends string> =
  * Generates a comprehensive type definition including both emitted and received events
  * for all services in the contract.
  *
- * @property emitted - Events that can be emitted by the orchestrator
- * @property events - Events that can be received by the orchestrator
+ * @property emitted - Events that can be emitted by the orchestrator, optionally with their saga compensation
+ * @property events - Events that can be received by the orchestrator, including timer events
  */
 export type InferServiceContract<T extends Record<string, VersionedArvoContract<ArvoContract, ArvoSemanticVersion>>> = {
-  emitted: {
-    [K in keyof T]: EnqueueArvoEventActionParam<z.input<T[K]['accepts']['schema']>, T[K]['accepts']['type']>;
-  }[keyof T];
+  emitted: ArvoCompensableEventParam<
+    {
+      [K in keyof T]: EnqueueArvoEventActionParam<z.input<T[K]['accepts']['schema']>, T[K]['accepts']['type']>;
+    }[keyof T]
+  >;
+
+  events:
+    | {
+        [K in keyof T]: InferEmittableEventsFromVersionedArvoContract<T[K]>;
+      }[keyof T]
+    | ArvoTimerMachineEvent;
+};
+
+/**
+ * The kinds of issues reported by the static analysis of an Arvo machine.
+ *
+ * - `unhandledServiceEvent`: A response or system error event of a service contract which no state listens for
+ * - `undeclaredServiceEvent`: An `enqueueArvoEvent` action emitting an event type which no service contract accepts
+ * - `unreachableState`: A state which no transition or initial state leads to
+ * - `finalStateWithoutOutput`: A top-level final state of a machine without an `output`, completing the orchestration with empty data
+ */
+export type ArvoMachineAnalysisIssueKind =
+  | 'unhandledServiceEvent'
+  | 'undeclaredServiceEvent'
+  | 'unreachableState'
+  | 'finalStateWithoutOutput';
 
-  events: {
-    [K in keyof T]: InferEmittableEventsFromVersionedArvoContract<T[K]>;
-  }[keyof T];
+/**
+ * The severity of an analysis issue kind. Errors fail the machine creation with
+ * a `ConfigViolation`, warnings are recorded on the machine and ignored issues
+ * are not reported.
+ */
+export type ArvoMachineAnalysisSeverity = 'error' | 'warning' | 'ignore';
+
+/**
+ * The severities of the analysis issue kinds of a machine. Omitted kinds are
+ * reported as warnings.
+ */
+export type ArvoMachineAnalysisConfig = Partial<Record<ArvoMachineAnalysisIssueKind, ArvoMachineAnalysisSeverity>>;
+
+/**
+ * An issue found by the static analysis of an Arvo machine.
+ */
+export type ArvoMachineAnalysisIssue = {
+  /** The kind of the issue */
+  kind: ArvoMachineAnalysisIssueKind;
+  /** The severity of the issue kind in the machine */
+  severity: Exclude<ArvoMachineAnalysisSeverity, 'ignore'>;
+  /** The path of the state the issue relates to, empty for the machine itself */
+  path: string[];
+  /** The event type the issue relates to, if any */
+  eventType?: string;
+  /** A human readable description of the issue */
+  message: string;
 };
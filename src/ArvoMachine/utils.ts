@@ -1,4 +1,6 @@
-import type { MachineConfig } from 'xstate';
+import type { MachineConfig, StateNode, TransitionDefinition } from 'xstate';
+
+export type AnyStateNode = StateNode<any, any>;
 
 /**
  * Detects if an XState machine configuration contains any parallel states.
@@ -21,3 +23,53 @@ export const detectParallelStates = (config?: MachineConfig<any, any, any, any,
   }
   return false;
 };
+
+/**
+ * Collects all the state nodes of a machine in document order.
+ */
+export const collectStateNodes = (root: AnyStateNode): AnyStateNode[] => {
+  const nodes: AnyStateNode[] = [];
+  const stack: AnyStateNode[] = [root];
+  while (stack.length) {
+    const node = stack.pop() as AnyStateNode;
+    nodes.push(node);
+    stack.push(...Object.values(node.states ?? {}).reverse());
+  }
+  return nodes;
+};
+
+/**
+ * Collects the transitions defined on a state node, including the eventless ones.
+ */
+export const collectTransitions = (node: AnyStateNode): TransitionDefinition<any, any>[] => {
+  const transitions: TransitionDefinition<any, any>[] = [];
+  // biome-ignore lint/complexity/noForEach: The ES5 target does not iterate maps with for...of
+  node.transitions.forEach((item) => {
+    transitions.push(...item);
+  });
+  transitions.push(...(node.always ?? []));
+  return transitions;
+};
+
+/**
+ * Collects the actions referenced by a state node, its transitions and its initial transition.
+ */
+export const collectActions = (node: AnyStateNode): unknown[] => {
+  const actions: unknown[] = [...node.entry, ...node.exit];
+  if (node.type === 'compound') {
+    actions.push(...(node.initial?.actions ?? []));
+  }
+  for (const transition of collectTransitions(node)) {
+    actions.push(...transition.actions);
+  }
+  return actions;
+};
+
+/**
+ * Collects the parameters of the `enqueueArvoEvent` actions of a state node. The
+ * parameters are either the static event objects or the functions computing them.
+ */
+export const collectEnqueuedEventParams = (node: AnyStateNode): unknown[] =>
+  collectActions(node)
+    .filter((action) => (action as { type?: unknown } | null)?.type === 'enqueueArvoEvent')
+    .map((action) => (action as { params?: unknown }).params);
@@ -0,0 +1,141 @@
+import type { AnyStateMachine, TransitionDefinition } from 'xstate';
+import type ArvoMachine from '.';
+import type { ArvoDiagramFormat } from '../types';
+import { escapeDotLabel, escapeMermaidLabel, toDiagramId } from '../utils/diagram';
+import { type AnyStateNode, collectEnqueuedEventParams, collectTransitions } from './utils';
+
+/**
+ * Resolves the labels of the events enqueued by a state node. The events
+ * enqueued with parameters computed by functions are only known at runtime
+ * and are labelled as dynamic.
+ */
+const resolveEmissionLabels = (node: AnyStateNode): string[] =>
+  collectEnqueuedEventParams(node).map((params) => {
+    const type = (params as { type?: unknown } | null)?.type;
+    return `emits ${typeof params !== 'function' && typeof type === 'string' ? type : '(dynamic)'}`;
+  });
+
+/**
+ * Resolves the label of a transition from its event type and guard.
+ */
+const resolveTransitionLabel = (transition: TransitionDefinition<any, any>): string => {
+  const guard = transition.guard as unknown;
+  const guardName = typeof guard === 'string' ? guard : (guard as { type?: unknown } | null)?.type;
+  const eventType = transition.eventType || 'always';
+  return typeof guardName === 'string' ? `${eventType} [${guardName}]` : eventType;
+};
+
+const hasChildStates = (node: AnyStateNode) => Object.keys(node.states ?? {}).length > 0;
+
+/**
+ * Renders the state graph of a machine as a Mermaid state diagram.
+ */
+const renderMermaid = (root: AnyStateNode): string => {
+  const lines: string[] = ['stateDiagram-v2'];
+  const renderScope = (parent: AnyStateNode, indent: string) => {
+    if (parent.type === 'compound') {
+      for (const target of parent.initial?.target ?? []) {
+        lines.push(`${indent}[*] --> ${toDiagramId(target.id)}`);
+      }
+    }
+    Object.values(parent.states).forEach((node, index) => {
+      const id = toDiagramId(node.id);
+      if (parent.type === 'parallel' && index > 0) {
+        lines.push(`${indent}--`);
+      }
+      if (hasChildStates(node)) {
+        lines.push(`${indent}state "${escapeMermaidLabel(node.key)}" as ${id} {`);
+        renderScope(node, `${indent}  `);
+        lines.push(`${indent}}`);
+      } else {
+        lines.push(`${indent}state "${escapeMermaidLabel(node.key)}" as ${id}`);
+      }
+      for (const label of resolveEmissionLabels(node)) {
+        lines.push(`${indent}${id} : ${label}`);
+      }
+      if (node.type === 'final') {
+        lines.push(`${indent}${id} --> [*]`);
+      }
+      for (const transition of collectTransitions(node)) {
+        for (const target of transition.target ?? []) {
+          lines.push(`${indent}${id} --> ${toDiagramId(target.id)} : ${resolveTransitionLabel(transition)}`);
+        }
+      }
+    });
+  };
+  renderScope(root, '  ');
+  return lines.join('\n');
+};
+
+/**
+ * Renders the state graph of a machine as a Graphviz DOT digraph. The states
+ * with child states are rendered as clusters, whose transitions are attached
+ * to the initial descendant state of the cluster.
+ */
+const renderDot = (root: AnyStateNode): string => {
+  const quote = (value: string) => `"${escapeDotLabel(value)}"`;
+  const anchor = (node: AnyStateNode): AnyStateNode => {
+    if (node.type === 'compound' && node.initial?.target?.length) return anchor(node.initial.target[0]);
+    if (node.type === 'parallel') return anchor(Object.values(node.states)[0]);
+    return node;
+  };
+  const lines: string[] = [
+    `digraph ${quote(root.id)} {`,
+    '  compound=true;',
+    '  rankdir=LR;',
+    '  node [shape=box, style=rounded];',
+  ];
+  const edges: string[] = [];
+  const renderScope = (parent: AnyStateNode, indent: string) => {
+    if (parent.type === 'compound') {
+      const start = quote(`${parent.id}.[*]`);
+      lines.push(`${indent}${start} [shape=point, label=""];`);
+      for (const target of parent.initial?.target ?? []) {
+        const attributes = hasChildStates(target) ? ` [lhead=${quote(`cluster_${target.id}`)}]` : '';
+        lines.push(`${indent}${start} -> ${quote(anchor(target).id)}${attributes};`);
+      }
+    }
+    for (const node of Object.values(parent.states)) {
+      const label = [node.key, ...resolveEmissionLabels(node)].join('\n');
+      if (hasChildStates(node)) {
+        lines.push(`${indent}subgraph ${quote(`cluster_${node.id}`)} {`);
+        lines.push(`${indent}  label=${quote(label)};`);
+        if (node.type === 'parallel') {
+          lines.push(`${indent}  style=dashed;`);
+        }
+        renderScope(node, `${indent}  `);
+        lines.push(`${indent}}`);
+      } else {
+        const shape = node.type === 'final' ? ', peripheries=2' : '';
+        lines.push(`${indent}${quote(node.id)} [label=${quote(label)}${shape}];`);
+      }
+      for (const transition of collectTransitions(node)) {
+        for (const target of transition.target ?? []) {
+          const attributes = [`label=${quote(resolveTransitionLabel(transition))}`];
+          if (hasChildStates(node)) attributes.push(`ltail=${quote(`cluster_${node.id}`)}`);
+          if (hasChildStates(target)) attributes.push(`lhead=${quote(`cluster_${target.id}`)}`);
+          edges.push(`  ${quote(anchor(node).id)} -> ${quote(anchor(target).id)} [${attributes.join(', ')}];`);
+        }
+      }
+    }
+  };
+  renderScope(root, '  ');
+  return [...lines, ...edges, '}'].join('\n');
+};
+
+/**
+ * Renders the state graph of an Arvo machine as a diagram, showing the states,
+ * the transitions labelled with the event types triggering them and their guards,
+ * and the service events enqueued by each state.
+ *
+ * @param machine - The machine to render
+ * @param format - The diagram format
+ * @returns The diagram source
+ */
+export const visualizeArvoMachine = (
+  machine: ArvoMachine<any, any, any, any, any>,
+  format: ArvoDiagramFormat = 'mermaid',
+): string => {
+  const root = (machine.logic as AnyStateMachine).root;
+  return format === 'dot' ? renderDot(root) : renderMermaid(root);
+};
@@ -0,0 +1,87 @@
+import { type ArvoEvent, logToSpan } from 'arvo-core';
+import type { IArvoMiddleware } from './interface';
+import type { ArvoMiddlewareContext } from './types';
+
+const middlewareName = (middleware: IArvoMiddleware, index: number) => middleware.name ?? `#${index}`;
+
+/**
+ * Runs the `before` hooks of the middlewares in order.
+ *
+ * @returns The events of the first hook short-circuiting the execution, or null
+ *          when the handler should run
+ */
+export const executeBeforeMiddlewares = async (
+  middlewares: IArvoMiddleware[],
+  context: ArvoMiddlewareContext,
+): Promise<ArvoEvent[] | null> => {
+  for (let i = 0; i < middlewares.length; i++) {
+    const result = await middlewares[i].before?.(context);
+    if (result) {
+      logToSpan(
+        {
+          level: 'INFO',
+          message: `Middleware ${middlewareName(middlewares[i], i)} short-circuited the execution with ${result.events.length} events`,
+        },
+        context.span,
+      );
+      return result.events;
+    }
+  }
+  return null;
+};
+
+/**
+ * Runs the `after` hooks of the middlewares in reverse order, each one
+ * receiving the events returned by the previous one.
+ *
+ * @returns The events to emit
+ */
+export const executeAfterMiddlewares = async (
+  middlewares: IArvoMiddleware[],
+  context: ArvoMiddlewareContext,
+  events: ArvoEvent[],
+): Promise<ArvoEvent[]> => {
+  let result = events;
+  for (let i = middlewares.length - 1; i >= 0; i--) {
+    result = (await middlewares[i].after?.({ ...context, events: result }))?.events ?? result;
+  }
+  return result;
+};
+
+/**
+ * Runs the `onError` hooks of the middlewares in reverse order. A failing
+ * hook is logged on the span and the remaining hooks still run.
+ *
+ * @returns The events of the first hook recovering the execution, or null
+ *          when the error should be handled as usual
+ */
+export const executeErrorMiddlewares = async (
+  middlewares: IArvoMiddleware[],
+  context: ArvoMiddlewareContext,
+  error: unknown,
+): Promise<ArvoEvent[] | null> => {
+  for (let i = middlewares.length - 1; i >= 0; i--) {
+    try {
+      const result = await middlewares[i].onError?.({ ...context, error });
+      if (result) {
+        logToSpan(
+          {
+            level: 'WARNING',
+            message: `Middleware ${middlewareName(middlewares[i], i)} recovered the execution from '${(error as Error)?.message}' with ${result.events.length} events`,
+          },
+          context.span,
+        );
+        return result.events;
+      }
+    } catch (e) {
+      logToSpan(
+        {
+          level: 'CRITICAL',
+          message: `Middleware ${middlewareName(middlewares[i], i)} failed to handle the error - ${(e as Error)?.message}`,
+        },
+        context.span,
+      );
+    }
+  }
+  return null;
+};
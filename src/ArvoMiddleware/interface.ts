@@ -0,0 +1,47 @@
+import type { ArvoEvent } from 'arvo-core';
+import type { ArvoMiddlewareContext, ArvoMiddlewareResult } from './types';
+
+/**
+ * Cross-cutting logic, such as access control, rate limiting, payload redaction
+ * or metrics, applied around the execution of a handler.
+ *
+ * The middlewares of a handler run in an onion: the `before` hooks in the
+ * configured order, and the `after` and `onError` hooks in the reverse order.
+ */
+export interface IArvoMiddleware {
+  /** Name of the middleware, recorded in the span logs */
+  name?: string;
+
+  /**
+   * Invoked before the handler runs, once event handlers have validated the
+   * consumed event, or orchestrators and resumables have parsed its subject.
+   *
+   * Returning events short-circuits the execution: the handler and the remaining
+   * `before` hooks are skipped, and the returned events go through the `after`
+   * hooks. Throwing a violation error, such as an `ExecutionViolation`, rejects the
+   * event like a violation thrown by the handler.
+   *
+   * @param context - The consumed event, the resolved contract and the span
+   */
+  before?(context: ArvoMiddlewareContext): Promise<ArvoMiddlewareResult>;
+
+  /**
+   * Invoked with the events emitted by the execution. Returning events replaces them.
+   * Orchestrators and resumables invoke it before the new state is persisted, so
+   * the replaced events are the ones staged in the outbox and recorded in the history.
+   *
+   * @param context - The execution context along with the emitted events
+   */
+  after?(context: ArvoMiddlewareContext & { events: ArvoEvent[] }): Promise<ArvoMiddlewareResult>;
+
+  /**
+   * Invoked when the `before` hooks, the handler or the `after` hooks fail, before
+   * the error is converted into system error events or thrown as a violation.
+   * Returning events recovers the execution with them, and the remaining `onError`
+   * hooks are skipped. A recovered orchestration keeps its persisted state unchanged.
+   * A failing hook is logged on the span and never masks the error.
+   *
+   * @param context - The execution context along with the error
+   */
+  onError?(context: ArvoMiddlewareContext & { error: unknown }): Promise<ArvoMiddlewareResult>;
+}
@@ -0,0 +1,33 @@
+import type { Span } from '@opentelemetry/api';
+import type { ArvoContract, ArvoEvent, ArvoSemanticVersion, VersionedArvoContract } from 'arvo-core';
+import type { ArvoOrchestrationHandlerType } from '../ArvoOrchestrationUtils/types';
+
+/**
+ * The execution of a handler as seen by its middlewares.
+ */
+export type ArvoMiddlewareContext = {
+  /**
+   * The consumed event. Event handlers validate it against their contract before the
+   * middlewares run. Orchestrators and resumables run the middlewares once the event
+   * subject is parsed, and validate the event afterwards against the contracts of the workflow.
+   */
+  event: ArvoEvent;
+  /**
+   * The versioned contract of the handler resolved for the event. Orchestrators
+   * and resumables resolve their self contract from the version in the event subject.
+   */
+  contract: VersionedArvoContract<ArvoContract, ArvoSemanticVersion>;
+  /** The source identifier of the handler */
+  source: string;
+  /** The type of the handler */
+  handlerType: ArvoOrchestrationHandlerType;
+  /** The OpenTelemetry span of the execution */
+  span: Span;
+};
+
+/**
+ * The events a middleware hook returns to replace the result of the execution.
+ * Returning nothing keeps the execution going unchanged.
+ */
+// biome-ignore lint/suspicious/noConfusingVoidType: Make the hooks more ergonomic in coding
+export type ArvoMiddlewareResult = { events: ArvoEvent[] } | undefined | void;
@@ -15,10 +15,16 @@ import {
   logToSpan,
 } from 'arvo-core';
 import { resolveEventDomain } from '../ArvoDomain';
+import { compensateSaga } from '../ArvoSaga/compensateSaga';
+import type { IOrchestrationHistoryStore } from '../OrchestrationHistory/interface';
+import { recordOrchestrationHistory } from '../OrchestrationHistory/recordOrchestrationHistory';
 import type { SyncEventResource } from '../SyncEventResource';
 import { ExecutionViolation } from '../errors';
 import { isError } from '../utils';
-import type { OrchestrationExecutionMemoryRecord } from './orchestrationExecutionState';
+import {
+  type OrchestrationExecutionMemoryRecord,
+  serializeOrchestrationExecutionError,
+} from './orchestrationExecutionState';
 import { ArvoOrchestrationHandlerMap, type ArvoOrchestrationHandlerType } from './types';
 import type { NonEmptyArray } from '../types';
 
@@ -137,9 +143,12 @@ export const createSystemErrorEvents = ({
  * Handles errors during orchestration execution with proper state management.
  *
  * Processes errors by determining if they are violations (retriable) or execution
- * errors (terminal). For execution errors, persists failure state and generates
- * system error events. For violations, returns the error to be thrown without
- * state persistence.
+ * errors (terminal). For execution errors, persists failure state, which keeps the
+ * last good state and the failed event for operator recovery, and generates
+ * the compensation events of the completed saga steps followed by the system
+ * error events. For violations, returns the error to be thrown without
+ * state persistence. In outbox mode, the system error events are persisted in the
+ * outbox of the failure state and only returned when that write fails.
  *
  * @returns Either the violation error to throw or system error events to emit
  */
@@ -147,6 +156,12 @@ export const handleOrchestrationErrors = async (
   _handlerType: ArvoOrchestrationHandlerType,
   param: CreateSystemErrorEventsParams & {
     syncEventResource: SyncEventResource<OrchestrationExecutionMemoryRecord<Record<string, any>>>;
+    /** The state read at the start of the execution, passed on as the previous snapshot of the failure write */
+    prevState: OrchestrationExecutionMemoryRecord<Record<string, any>> | null;
+    /** Whether the emitted events are persisted in the state outbox instead of being returned */
+    outbox?: boolean;
+    /** Store recording the failure step in the history of the orchestration */
+    history?: IOrchestrationHistoryStore | null;
   },
   span: Span,
 ): Promise<
@@ -196,22 +211,36 @@ export const handleOrchestrationErrors = async (
     };
   }
 
-  await param.syncEventResource
-    .persistState(
-      param.event,
-      {
-        executionStatus: 'failure',
-        subject: param.event.subject,
-        error: param.error as Error,
-      },
-      null,
-      span,
-    )
+  // Undo the completed saga steps before reporting the failure
+  const saga = compensateSaga({
+    steps: param.prevState?.saga ?? [],
+    event: param.event,
+    otelHeaders: param.otelHeaders,
+  });
+  const errorEvents = [...saga.events, ...createSystemErrorEvents({ ...param, error: error })];
+
+  const failureRecord: OrchestrationExecutionMemoryRecord<Record<string, any>> = {
+    // Keep the last good state so that an operator can recover the orchestration
+    ...(param.prevState ?? {}),
+    executionStatus: 'failure',
+    subject: param.event.subject,
+    error: serializeOrchestrationExecutionError(error),
+    failedEvent: param.event.toJSON(),
+    ...(param.prevState?.saga ? { saga: saga.steps } : {}),
+    ...(param.outbox
+      ? { outbox: [...(param.prevState?.outbox ?? []), ...errorEvents.map((item) => item.toJSON())] }
+      : {}),
+  };
+
+  const persisted = await param.syncEventResource
+    .persistState(param.event, failureRecord, param.prevState, span)
+    .then(() => true)
     .catch((e) => {
       logToSpan({
         level: 'CRITICAL',
         message: `Error in orchestrator persisting the failure state: ${e.message}`,
       });
+      return false;
     });
 
   logToSpan({
@@ -219,14 +248,37 @@ export const handleOrchestrationErrors = async (
     message: `${handlerType || 'Arvo orchestration handler'} execution failed: ${error.message}`,
   });
 
-  const errorEvents = createSystemErrorEvents({ ...param, error: error });
-
   for (const [errEvtIdx, errEvt] of Object.entries(errorEvents)) {
     for (const [key, value] of Object.entries(errEvt.otelAttributes)) {
       span.setAttribute(`emittables.${errEvtIdx}.${key}`, value);
     }
   }
 
+  if (param.history && persisted) {
+    await recordOrchestrationHistory(
+      {
+        history: param.history,
+        event: param.event,
+        record: failureRecord,
+        produced: errorEvents,
+        source: param.source,
+        handlerType: _handlerType,
+      },
+      span,
+    );
+  }
+
+  if (param.outbox && persisted) {
+    logToSpan({
+      level: 'INFO',
+      message: `Persisted ${errorEvents.length} system error events in the outbox`,
+    });
+    return {
+      errorToThrow: null,
+      events: [],
+    };
+  }
+
   return {
     errorToThrow: null,
     events: errorEvents,
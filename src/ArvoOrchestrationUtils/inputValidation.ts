@@ -8,6 +8,7 @@ import {
   logToSpan,
 } from 'arvo-core';
 import type { z } from 'zod';
+import { ArvoTimerEventDataSchema } from '../ArvoTimer/event';
 
 /**
  * Result type for event validation operations.
@@ -17,11 +18,13 @@ import type { z } from 'zod';
  * - CONTRACT_UNRESOLVED: No matching contract found for the event
  * - INVALID: Event dataschema conflicts with contract (URI or version mismatch)
  * - INVALID_DATA: Event data doesn't match contract schema (Zod validation failure)
+ *
+ * Timeout events resolve to the 'timeout' contract type.
  */
 export type EventValidationResult =
   | {
       type: 'VALID';
-      contractType: 'self' | 'service';
+      contractType: 'self' | 'service' | 'timeout';
     }
   | {
       type: 'CONTRACT_UNRESOLVED';
@@ -45,6 +48,11 @@ export type EventValidationConfig = {
   selfContract: VersionedArvoContract<any, any> | ArvoContract;
   /** Service contracts for response event validation */
   serviceContracts: Record<string, VersionedArvoContract<any, any>>;
+  /**
+   * Event type of the timeout events, which are validated against the self
+   * contract version of their dataschema and the timer event data schema
+   */
+  timeoutEventType?: string;
   /** Optional OpenTelemetry span for logging */
   span?: Span;
 };
@@ -62,10 +70,11 @@ export function validateInputEvent({
   event,
   selfContract,
   serviceContracts,
+  timeoutEventType,
   span,
 }: EventValidationConfig): EventValidationResult {
   let resolvedContract: VersionedArvoContract<any, any> | null = null;
-  let contractType: 'self' | 'service';
+  let contractType: 'self' | 'service' | 'timeout';
 
   const parsedEventDataSchema = EventDataschemaUtil.parse(event);
   if (!parsedEventDataSchema) {
@@ -84,8 +93,8 @@ export function validateInputEvent({
   }
 
   const selfType = selfContract instanceof VersionedArvoContract ? selfContract.accepts.type : selfContract.type;
-  if (event.type === selfType) {
-    contractType = 'self';
+  if (event.type === selfType || (timeoutEventType && event.type === timeoutEventType)) {
+    contractType = event.type === selfType ? 'self' : 'timeout';
     resolvedContract =
       selfContract instanceof VersionedArvoContract
         ? selfContract
@@ -151,7 +160,9 @@ export function validateInputEvent({
   const validationSchema: z.AnyZodObject =
     contractType === 'self'
       ? resolvedContract.accepts.schema
-      : (resolvedContract.emits[event.type] ?? resolvedContract.systemError.schema);
+      : contractType === 'timeout'
+        ? ArvoTimerEventDataSchema
+        : (resolvedContract.emits[event.type] ?? resolvedContract.systemError.schema);
 
   const validationResult = validationSchema.safeParse(event.data);
   if (!validationResult.success) {
@@ -1,3 +1,6 @@
+import type { ArvoEvent, InferArvoEvent } from 'arvo-core';
+import type { ArvoSagaStep } from '../ArvoSaga/types';
+
 /**
  * Enumeration of possible orchestration execution statuses.
  *
@@ -11,6 +14,93 @@ export const OrchestrationExecutionStatus = {
   FAILURE: 'failure',
 } as const;
 
+/**
+ * The error which failed an orchestration, as persisted in its failure state.
+ * The error is stored as plain fields, since an `Error` object does not survive
+ * the JSON serialization of the memory.
+ */
+export type OrchestrationExecutionError = {
+  /** Name of the error, e.g. `'TypeError'` */
+  name: string;
+  /** Message of the error */
+  message: string;
+  /** Stack trace of the error, null when not available */
+  stack: string | null;
+};
+
+/**
+ * Converts an error into the form persisted in the failure state of an orchestration.
+ */
+export const serializeOrchestrationExecutionError = (error: Error): OrchestrationExecutionError => ({
+  name: error.name ?? 'Error',
+  message: error.message ?? String(error),
+  stack: error.stack ?? null,
+});
+
+/**
+ * Audit entry recorded in the orchestration state for every operator
+ * recovery applied through the `OrchestrationRecovery`.
+ */
+export type OrchestrationRecoveryAuditEntry = {
+  /** The recovery operation */
+  action: 'retry' | 'forceTransition' | 'cancel';
+  /** ISO timestamp of the recovery */
+  at: string;
+  /** Identifier of the operator who applied the recovery */
+  operator: string | null;
+  /** The reason given for the recovery */
+  reason: string | null;
+  /** The execution status of the orchestration before the recovery */
+  executionStatus: 'normal' | 'failure';
+  /** Message of the error which failed the orchestration, null when it had not failed */
+  error: string | null;
+  /** ID of the retried event, or of the event the cancellation events were derived from */
+  eventId: string | null;
+  /** The state value forced by a `forceTransition` */
+  value?: string | Record<string, any>;
+};
+
+/**
+ * Record of the cancellation of an orchestration by its cancel event.
+ */
+export type OrchestrationCancellationRecord = {
+  /** The reason given in the cancel event */
+  reason: string | null;
+  /** ID of the cancel event */
+  eventId: string;
+  /** ISO timestamp of the cancellation */
+  at: string;
+};
+
+/**
+ * Fields maintained by the orchestration execution infrastructure which
+ * are persisted alongside the state regardless of the execution status.
+ */
+export type OrchestrationExecutionInfrastructureRecord = {
+  /**
+   * Emitted events pending delivery, oldest first. Only maintained when the
+   * handler runs in outbox mode. The events are persisted in the same write
+   * as the state they were produced with, and removed by an `OutboxRelay`
+   * once published.
+   */
+  outbox?: InferArvoEvent<ArvoEvent>[];
+  /** Audit trail of the operator recoveries applied to the orchestration, oldest first */
+  recoveries?: OrchestrationRecoveryAuditEntry[];
+  /**
+   * Subjects of the child orchestrations spawned via `parentSubject$$`, to which
+   * the cancellation of the orchestration is propagated.
+   */
+  children?: string[];
+  /** Set once the orchestration is cancelled. A cancelled orchestration ignores all subsequent events */
+  cancellation?: OrchestrationCancellationRecord;
+  /**
+   * The saga steps of the orchestration, in emission order. A step is recorded for
+   * each emitted service event carrying a compensation, and is compensated in
+   * reverse order when the orchestration fails, is cancelled or requests it.
+   */
+  saga?: ArvoSagaStep[];
+};
+
 /**
  * Discriminated union representing persisted orchestration state.
  *
@@ -20,18 +110,29 @@ export const OrchestrationExecutionStatus = {
  * **Normal state**: Contains complete orchestration data including machine state,
  * event history, and all custom fields from type parameter T.
  *
- * **Failure state**: Contains only essential error information (error object, subject)
- * with partial custom fields. Once in failure state, the orchestration ignores
- * subsequent events and does not execute further.
+ * **Failure state**: Contains the error information (serialized error, subject, failed event)
+ * along with the fields of the last good state, if any. Once in failure state, the
+ * orchestration ignores subsequent events and does not execute further, unless it is
+ * recovered by an operator through the `OrchestrationRecovery`.
  *
  * @template T - Custom state fields specific to the orchestration type
  */
 export type OrchestrationExecutionMemoryRecord<T extends Record<string, unknown>> =
-  | (T & {
-      executionStatus: typeof OrchestrationExecutionStatus.NORMAL;
-    })
-  | (Partial<T> & {
-      executionStatus: typeof OrchestrationExecutionStatus.FAILURE;
-      error: Error;
-      subject: string;
-    });
+  | (T &
+      OrchestrationExecutionInfrastructureRecord & {
+        executionStatus: typeof OrchestrationExecutionStatus.NORMAL;
+        /**
+         * IDs of the most recently consumed events, oldest first. Only maintained
+         * when inbox deduplication is enabled on the handler, and bounded by its
+         * deduplication window.
+         */
+        consumedEventIds?: string[];
+      })
+  | (Partial<T> &
+      OrchestrationExecutionInfrastructureRecord & {
+        executionStatus: typeof OrchestrationExecutionStatus.FAILURE;
+        error: OrchestrationExecutionError;
+        subject: string;
+        /** The event whose execution failed the orchestration */
+        failedEvent?: InferArvoEvent<ArvoEvent>;
+      });
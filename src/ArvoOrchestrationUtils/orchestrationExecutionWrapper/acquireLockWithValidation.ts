@@ -3,22 +3,65 @@ import { type ArvoEvent, logToSpan } from 'arvo-core';
 import type { SyncEventResource } from '../../SyncEventResource';
 import type { AcquiredLockStatusType } from '../../SyncEventResource/types';
 import { TransactionViolation, TransactionViolationCause } from '../error';
+import type { LockAcquisitionPolicy } from '../types';
+
+/**
+ * Computes the delay before the next lock acquisition attempt.
+ * Grows exponentially with the attempt number and adds a random jitter.
+ */
+const lockRetryDelay = (attempt: number, backoffMs: number, jitter: number) => {
+  const delay = backoffMs * 2 ** (attempt - 1);
+  return Math.round(delay + delay * jitter * Math.random());
+};
 
 /**
  * Acquires an exclusive lock for event processing with validation.
  *
  * Attempts to obtain a lock on the event's subject to ensure exclusive access during
- * processing. Throws if lock cannot be acquired, preventing concurrent modifications.
+ * processing. When the lock is held by a parallel execution, the attempt is retried
+ * according to the provided {@link LockAcquisitionPolicy}, and every attempt is logged
+ * to the span. Throws if the lock cannot be acquired, preventing concurrent modifications.
+ * The optional lock token is recorded as the owner of the lock.
  * @throws {TransactionViolation} When lock cannot be acquired
  */
 export const acquireLockWithValidation = async (
   syncEventResource: SyncEventResource<Record<string, any>>,
   event: ArvoEvent,
   span: Span,
+  lockToken?: string,
+  policy?: LockAcquisitionPolicy,
 ): Promise<AcquiredLockStatusType> => {
-  const acquiredLock = await syncEventResource.acquireLock(event, span);
+  const attempts = Math.max(1, Math.floor(policy?.attempts ?? 1));
+  const backoffMs = Math.max(0, policy?.backoffMs ?? 100);
+  const jitter = Math.min(1, Math.max(0, policy?.jitter ?? 0.2));
+  const maxWaitMs = Math.max(0, policy?.maxWaitMs ?? Number.POSITIVE_INFINITY);
+
+  let acquiredLock: AcquiredLockStatusType = await syncEventResource.acquireLock(event, span, lockToken);
+  let attempt = 1;
+  let waitedMs = 0;
+  while (acquiredLock === 'NOT_ACQUIRED' && attempt < attempts && waitedMs < maxWaitMs) {
+    const delay = Math.min(lockRetryDelay(attempt, backoffMs, jitter), maxWaitMs - waitedMs);
+    logToSpan(
+      {
+        level: 'WARNING',
+        message: `Lock acquisition attempt ${attempt}/${attempts} denied for resource '${event.subject}'. Retrying in ${delay}ms`,
+      },
+      span,
+    );
+    await new Promise<void>((resolve) => setTimeout(resolve, delay));
+    waitedMs += delay;
+    attempt++;
+    acquiredLock = await syncEventResource.acquireLock(event, span, lockToken);
+  }
 
   if (acquiredLock === 'NOT_ACQUIRED') {
+    logToSpan(
+      {
+        level: 'WARNING',
+        message: `Lock acquisition attempt ${attempt}/${attempts} denied for resource '${event.subject}'. Giving up after waiting ${waitedMs}ms`,
+      },
+      span,
+    );
     throw new TransactionViolation({
       cause: TransactionViolationCause.LOCK_UNACQUIRED,
       message: 'Lock acquisition denied - Unable to obtain exclusive access to event processing',
@@ -30,7 +73,7 @@ export const acquireLockWithValidation = async (
     logToSpan(
       {
         level: 'INFO',
-        message: `This execution acquired lock at resource '${event.subject}'`,
+        message: `This execution acquired lock at resource '${event.subject}' on attempt ${attempt}/${attempts}`,
       },
       span,
     );
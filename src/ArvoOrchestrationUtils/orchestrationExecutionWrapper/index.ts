@@ -10,15 +10,32 @@ import {
   currentOpenTelemetryHeaders,
   logToSpan,
 } from 'arvo-core';
+import { v4 as uuid4 } from 'uuid';
+import {
+  executeAfterMiddlewares,
+  executeBeforeMiddlewares,
+  executeErrorMiddlewares,
+} from '../../ArvoMiddleware/executeMiddlewares';
+import type { IArvoMiddleware } from '../../ArvoMiddleware/interface';
+import type { ArvoMiddlewareContext } from '../../ArvoMiddleware/types';
+import { applyTimerUpdates, validateTimerUpdates } from '../../ArvoTimer/applyTimerUpdates';
+import type { ITimerScheduler } from '../../ArvoTimer/interface';
+import type { ArvoTimerUpdates } from '../../ArvoTimer/types';
+import type { IDeadLetterSink } from '../../DeadLetter/interface';
+import { sendToDeadLetter } from '../../DeadLetter/sendToDeadLetter';
 import type IArvoEventHandler from '../../IArvoEventHandler';
+import type { IOrchestrationHistoryStore } from '../../OrchestrationHistory/interface';
+import { recordOrchestrationHistory } from '../../OrchestrationHistory/recordOrchestrationHistory';
 import type { SyncEventResource } from '../../SyncEventResource';
 import type { AcquiredLockStatusType } from '../../SyncEventResource/types';
 import type { ArvoEventHandlerOpenTelemetryOptions, ArvoEventHandlerOtelSpanOptions, NonEmptyArray } from '../../types';
 import { createEventHandlerTelemetryConfig } from '../../utils';
 import { handleOrchestrationErrors } from '../handlerErrors';
 import type { OrchestrationExecutionMemoryRecord } from '../orchestrationExecutionState';
-import type { ArvoOrchestrationHandlerType } from '../types';
+import { reviveArvoEvent } from '../reviveArvoEvent';
+import type { ArvoOrchestrationHandlerType, LockAcquisitionPolicy } from '../types';
 import { acquireLockWithValidation } from './acquireLockWithValidation';
+import { startLockRenewal } from './lockRenewal';
 import { validateAndParseSubject } from './validateAndParseSubject';
 
 /**
@@ -42,6 +59,38 @@ export type OrchestrationExecutionContext<TState extends OrchestrationExecutionM
   selfContract: VersionedArvoContract<ArvoOrchestratorContract, ArvoSemanticVersion>;
   /** Type of orchestration handler */
   _handlerType: ArvoOrchestrationHandlerType;
+  /**
+   * Interval in milliseconds at which the acquired lock is renewed while
+   * the execution is running. Disabled when zero or not provided.
+   */
+  lockRenewalIntervalMs?: number;
+  /** Retry policy applied when the subject lock is held by a parallel execution */
+  lockAcquisition?: LockAcquisitionPolicy;
+  /**
+   * Number of most recently consumed event IDs kept in the state to detect
+   * redelivered events. Disabled when zero or not provided.
+   */
+  deduplicationWindow?: number;
+  /**
+   * Whether the emitted events are persisted in the state outbox, in the same
+   * write as the new state, instead of being returned from the execution.
+   */
+  outbox?: boolean;
+  /** Sink receiving the event when the execution fails with a violation error */
+  deadLetter?: IDeadLetterSink | null;
+  /** Store recording every persisted execution in the history of the orchestration */
+  history?: IOrchestrationHistoryStore | null;
+  /** Scheduler receiving the timer changes of the execution once its state is persisted */
+  timerScheduler?: ITimerScheduler | null;
+  /** Middlewares applied around the execution */
+  middlewares?: IArvoMiddleware[];
+  /**
+   * Resolves the self contract of the version in the event subject, which is handed
+   * to the middlewares. Falls back to `selfContract` when not provided or unresolved.
+   */
+  resolveSelfContract?: (
+    version: ArvoSemanticVersion,
+  ) => VersionedArvoContract<ArvoOrchestratorContract, ArvoSemanticVersion> | null;
   /** OpenTelemetry span configuration */
   spanOptions: ArvoEventHandlerOtelSpanOptions & {
     spanName: NonNullable<ArvoEventHandlerOtelSpanOptions['spanName']>;
@@ -72,6 +121,8 @@ export type CoreExecutionFn<TState extends OrchestrationExecutionMemoryRecord<Re
   emittables: ArvoEvent[];
   /** New state to persist */
   newState: TState;
+  /** Timer changes applied to the timer scheduler after the new state is persisted */
+  timers?: ArvoTimerUpdates;
 }>;
 
 /**
@@ -98,9 +149,16 @@ export const returnEventsWithLogging = (
  * Provides a complete execution wrapper that handles:
  * - OpenTelemetry span creation and management
  * - Event subject validation and parsing
- * - Lock acquisition for concurrent safety
+ * - Lock acquisition for concurrent safety, with retries, an owner token and periodic renewal
  * - State retrieval and persistence
+ * - Deduplication of redelivered events
+ * - Ignoring events of cancelled orchestrations and tracking child orchestrations
+ * - Persisting emitted events in the state outbox (outbox mode)
+ * - Applying the timer changes once the state is persisted
  * - Error handling with system error event generation
+ * - Dead-lettering of events failing with a violation error
+ * - Recording the persisted executions in the orchestration history
+ * - Running the middlewares around the execution
  * - Lock release in all scenarios
  *
  * This wrapper ensures consistent behavior across all orchestration handlers
@@ -120,6 +178,15 @@ export const executeWithOrchestrationWrapper = async <
     systemErrorDomain,
     selfContract,
     _handlerType,
+    lockRenewalIntervalMs,
+    lockAcquisition,
+    deduplicationWindow,
+    outbox,
+    deadLetter,
+    history,
+    timerScheduler,
+    middlewares = [],
+    resolveSelfContract,
   }: OrchestrationExecutionContext<TState>,
   coreExecutionFn: CoreExecutionFn<TState>,
 ): Promise<Awaited<ReturnType<IArvoEventHandler['execute']>>> => {
@@ -150,6 +217,10 @@ export const executeWithOrchestrationWrapper = async <
       let orchestrationParentSubject: string | null = null;
       let initEventId: string | null = null;
       let acquiredLock: AcquiredLockStatusType | null = null;
+      let state: TState | null = null;
+      let stopLockRenewal: () => void = () => {};
+      let middlewareContext: ArvoMiddlewareContext | null = null;
+      const lockToken = uuid4();
 
       try {
         // Subject validation and parsing
@@ -159,11 +230,37 @@ export const executeWithOrchestrationWrapper = async <
           return returnEventsWithLogging({ events: [] }, span);
         }
 
+        // Middlewares may answer or reject the event before the lock and state are acquired
+        if (middlewares.length) {
+          middlewareContext = {
+            event,
+            contract: resolveSelfContract?.(parsedEventSubject.orchestrator.version) ?? selfContract,
+            source,
+            handlerType: _handlerType,
+            span,
+          };
+          const shortCircuitedEvents = await executeBeforeMiddlewares(middlewares, middlewareContext);
+          if (shortCircuitedEvents) {
+            return returnEventsWithLogging(
+              { events: await executeAfterMiddlewares(middlewares, middlewareContext, shortCircuitedEvents) },
+              span,
+            );
+          }
+        }
+
         // Lock acquisition
-        acquiredLock = await acquireLockWithValidation(syncEventResource, event, span);
+        acquiredLock = await acquireLockWithValidation(syncEventResource, event, span, lockToken, lockAcquisition);
+        stopLockRenewal = startLockRenewal(
+          syncEventResource,
+          event,
+          acquiredLock,
+          lockToken,
+          lockRenewalIntervalMs ?? 0,
+          span,
+        );
 
         // State acquisition
-        const state = await syncEventResource.acquireState(event, span);
+        state = await syncEventResource.acquireState(event, span);
 
         if (state?.executionStatus === 'failure') {
           span.setAttribute('arvo.handler.execution.status', state.executionStatus);
@@ -181,6 +278,38 @@ export const executeWithOrchestrationWrapper = async <
           return returnEventsWithLogging({ events: [] }, span);
         }
 
+        if (state?.cancellation) {
+          span.setAttribute('arvo.handler.execution.status', 'cancelled');
+          logToSpan(
+            {
+              level: 'WARNING',
+              message: `The orchestration has been cancelled. Ignoring event id: ${event.id} with event subject: ${event.subject}`,
+            },
+            span,
+          );
+          return returnEventsWithLogging({ events: [] }, span);
+        }
+
+        // Inbox deduplication of redelivered events
+        if (deduplicationWindow && state?.consumedEventIds?.includes(event.id)) {
+          span.setAttribute('arvo.handler.execution.deduplicated', true);
+          // Only the events produced by the last consumed event are retained in
+          // the state. Older duplicates have already been fully processed. In outbox
+          // mode the produced events are already pending delivery in the outbox.
+          const replayedEvents: ArvoEvent[] =
+            !outbox && state.events?.consumed?.id === event.id
+              ? (state.events?.produced ?? []).map(reviveArvoEvent)
+              : [];
+          logToSpan(
+            {
+              level: 'WARNING',
+              message: `Duplicate event detected. The event id: ${event.id} has already been consumed on subject: ${event.subject}. Replaying ${replayedEvents.length} previously produced events`,
+            },
+            span,
+          );
+          return returnEventsWithLogging({ events: replayedEvents }, span);
+        }
+
         orchestrationParentSubject = state?.parentSubject ?? null;
         initEventId = state?.initEventId ?? null;
 
@@ -210,7 +339,11 @@ export const executeWithOrchestrationWrapper = async <
         }
 
         // Execute core orchestration logic
-        const { emittables, newState } = await coreExecutionFn({
+        const {
+          emittables: coreEmittables,
+          newState,
+          timers,
+        } = await coreExecutionFn({
           span,
           otelHeaders,
           orchestrationParentSubject,
@@ -219,6 +352,9 @@ export const executeWithOrchestrationWrapper = async <
           state,
           _handlerType,
         });
+        const emittables = middlewareContext
+          ? await executeAfterMiddlewares(middlewares, middlewareContext, coreEmittables)
+          : coreEmittables;
 
         // Add OpenTelemetry attributes for emitted events
         for (let i = 0; i < emittables.length; i++) {
@@ -227,14 +363,79 @@ export const executeWithOrchestrationWrapper = async <
           }
         }
 
+        // Record the consumed event for deduplication of redeliveries
+        let stateToPersist: TState =
+          deduplicationWindow && newState.executionStatus === 'normal'
+            ? {
+                ...newState,
+                consumedEventIds: [
+                  ...(state?.executionStatus === 'normal' ? (state.consumedEventIds ?? []) : []),
+                  event.id,
+                ].slice(-deduplicationWindow),
+              }
+            : newState;
+
+        // Stage the emitted events in the outbox so that they are persisted atomically with the state
+        if (outbox) {
+          stateToPersist = {
+            ...stateToPersist,
+            outbox: [...(state?.outbox ?? []), ...emittables.map((item) => item.toJSON())],
+          };
+        }
+
+        // Track the child orchestrations spawned by this orchestration for cancellation propagation
+        const children = Array.from(
+          new Set([
+            ...(state?.children ?? []),
+            ...emittables
+              .filter((item) => item.data?.parentSubject$$ === event.subject && item.subject !== event.subject)
+              .map((item) => item.subject),
+          ]),
+        );
+        if (children.length) {
+          stateToPersist = { ...stateToPersist, children };
+        }
+
+        // Carry the recovery audit trail over to the new state
+        if (state?.recoveries?.length) {
+          stateToPersist = { ...stateToPersist, recoveries: state.recoveries };
+        }
+
+        // The timers are applied only once the state referencing them is persisted,
+        // so that a failed write leaves the scheduler untouched
+        const timerUpdates = {
+          scheduler: timerScheduler ?? null,
+          scheduled: timers?.scheduled ?? [],
+          cancelled: timers?.cancelled ?? [],
+          handler: source,
+        };
+        validateTimerUpdates(timerUpdates);
+
         // Persist state
-        await syncEventResource.persistState(event, newState, state, span);
+        await syncEventResource.persistState(event, stateToPersist, state, span);
 
         logToSpan({
           level: 'INFO',
           message: `State update persisted in memory for subject ${event.subject}`,
         });
 
+        await applyTimerUpdates(timerUpdates, span);
+
+        if (history) {
+          await recordOrchestrationHistory(
+            { history, event, record: stateToPersist, produced: emittables, source, handlerType: _handlerType },
+            span,
+          );
+        }
+
+        if (outbox) {
+          logToSpan({
+            level: 'INFO',
+            message: `Execution successfully completed and staged ${emittables.length} events in the outbox`,
+          });
+          return returnEventsWithLogging({ events: [] }, span);
+        }
+
         logToSpan({
           level: 'INFO',
           message: `Execution successfully completed and emitted ${emittables.length} events`,
@@ -242,6 +443,13 @@ export const executeWithOrchestrationWrapper = async <
 
         return returnEventsWithLogging({ events: emittables }, span);
       } catch (error: unknown) {
+        const recoveredEvents = middlewareContext
+          ? await executeErrorMiddlewares(middlewares, middlewareContext, error)
+          : null;
+        if (recoveredEvents) {
+          span.setAttribute('arvo.handler.execution.status', 'recovered');
+          return returnEventsWithLogging({ events: recoveredEvents }, span);
+        }
         span.setAttribute('arvo.handler.execution.status', 'failure');
         const { errorToThrow, events: errorEvents } = await handleOrchestrationErrors(
           _handlerType,
@@ -256,16 +464,28 @@ export const executeWithOrchestrationWrapper = async <
             executionunits: executionunits,
             source: source,
             syncEventResource: syncEventResource as any,
+            prevState: state,
+            outbox,
+            history,
             handlerType: _handlerType,
           },
           span,
         );
-        if (errorToThrow) throw errorToThrow;
+        if (errorToThrow) {
+          if (deadLetter) {
+            await sendToDeadLetter(
+              { sink: deadLetter, event, error: errorToThrow, source, handlerType: _handlerType },
+              span,
+            );
+          }
+          throw errorToThrow;
+        }
         return {
           events: errorEvents,
         };
       } finally {
-        await syncEventResource.releaseLock(event, acquiredLock, span);
+        stopLockRenewal();
+        await syncEventResource.releaseLock(event, acquiredLock, span, lockToken);
         span.end();
       }
     },
@@ -0,0 +1,38 @@
+import type { Span } from '@opentelemetry/api';
+import type { ArvoEvent } from 'arvo-core';
+import type { SyncEventResource } from '../../SyncEventResource';
+import type { AcquiredLockStatusType } from '../../SyncEventResource/types';
+
+/**
+ * Periodically renews the lock held by the execution while it is running.
+ *
+ * Renewal only starts when this execution acquired the lock, a positive interval is
+ * configured and the memory supports lock renewal. Renewal failures are logged by the
+ * {@link SyncEventResource} and do not interrupt the execution.
+ *
+ * @returns A function which stops the renewal. Must be called once the execution completes.
+ */
+export const startLockRenewal = (
+  syncEventResource: SyncEventResource<Record<string, any>>,
+  event: ArvoEvent,
+  acquiredLock: AcquiredLockStatusType | null,
+  lockToken: string,
+  intervalMs: number,
+  span: Span,
+): (() => void) => {
+  if (acquiredLock !== 'ACQUIRED' || intervalMs <= 0 || !syncEventResource.memory.renewLock) {
+    return () => {};
+  }
+  let inFlight = false;
+  const timer = setInterval(async () => {
+    if (inFlight) return;
+    inFlight = true;
+    try {
+      await syncEventResource.renewLock(event, lockToken, span);
+    } finally {
+      inFlight = false;
+    }
+  }, intervalMs);
+  timer.unref?.();
+  return () => clearInterval(timer);
+};
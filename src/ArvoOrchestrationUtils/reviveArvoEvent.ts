@@ -0,0 +1,52 @@
+import { type ArvoEvent, type InferArvoEvent, createArvoEvent } from 'arvo-core';
+
+/**
+ * Recreates an {@link ArvoEvent} from its persisted JSON representation.
+ *
+ * The original event id is preserved, so the revived event is identical to the
+ * event which was emitted when the JSON was recorded. Any field which is not a
+ * standard Arvo event field is carried over as an extension.
+ */
+export const reviveArvoEvent = (json: InferArvoEvent<ArvoEvent>): ArvoEvent => {
+  const {
+    id,
+    source,
+    specversion: _specversion,
+    type,
+    subject,
+    datacontenttype,
+    dataschema,
+    data,
+    time,
+    to,
+    accesscontrol,
+    redirectto,
+    executionunits,
+    traceparent,
+    tracestate,
+    parentid,
+    domain,
+    ...extensions
+  } = json as Record<string, any>;
+  return createArvoEvent(
+    {
+      id: { deduplication: 'DEVELOPER_MANAGED', value: id },
+      source,
+      type,
+      subject,
+      datacontenttype,
+      dataschema: dataschema ?? undefined,
+      data,
+      time,
+      to: to ?? undefined,
+      accesscontrol: accesscontrol ?? undefined,
+      redirectto: redirectto ?? undefined,
+      executionunits: executionunits ?? undefined,
+      traceparent: traceparent ?? undefined,
+      tracestate: tracestate ?? undefined,
+      parentid: parentid ?? undefined,
+      domain: domain ?? undefined,
+    },
+    extensions,
+  );
+};
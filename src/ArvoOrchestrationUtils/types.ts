@@ -6,3 +6,42 @@ export const ArvoOrchestrationHandlerMap = {
 } as const;
 
 export type ArvoOrchestrationHandlerType = keyof typeof ArvoOrchestrationHandlerMap;
+
+/**
+ * Policy for retrying the subject lock acquisition when the lock is held
+ * by a parallel execution.
+ *
+ * The delay before each retry grows exponentially from `backoffMs`, with a random
+ * jitter added to spread out competing executions. Once the attempts or the maximum
+ * wait time are exhausted, the execution fails with a `TransactionViolation` of cause
+ * `LOCK_UNACQUIRED`.
+ */
+export type LockAcquisitionPolicy = {
+  /**
+   * Total number of lock acquisition attempts, including the first one.
+   *
+   * @default 1
+   */
+  attempts?: number;
+
+  /**
+   * Delay in milliseconds before the first retry. Doubled for every subsequent retry.
+   *
+   * @default 100
+   */
+  backoffMs?: number;
+
+  /**
+   * Fraction (between 0 and 1) of each delay which is randomly added to it.
+   *
+   * @default 0.2
+   */
+  jitter?: number;
+
+  /**
+   * Upper bound in milliseconds for the total time spent waiting between attempts.
+   *
+   * @default Infinity
+   */
+  maxWaitMs?: number;
+};
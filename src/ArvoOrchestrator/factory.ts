@@ -18,6 +18,7 @@ import type { CreateArvoOrchestratorParam } from './types';
  * @throws {Error} When no machines are provided
  * @throws {ConfigViolation} When machines have different source identifiers
  * @throws {ConfigViolation} When machines have duplicate versions
+ * @throws {ConfigViolation} When a snapshot migration is invalid
  *
  * @example
  * ```typescript
@@ -41,6 +42,19 @@ export const createArvoOrchestrator = ({
   defaultEventEmissionDomains,
   spanOptions,
   requiresResourceLocking: _locking,
+  lockRenewalIntervalMs,
+  lockAcquisition,
+  deduplicationWindow,
+  outbox,
+  timerScheduler,
+  deadLetter,
+  history,
+  middlewares,
+  onCancel,
+  autoMigrate,
+  onDefinitionDrift,
+  migrations,
+  routing,
 }: CreateArvoOrchestratorParam): ArvoOrchestrator => {
   if (!machines?.length) {
     throw new Error('At least one machine must be provided');
@@ -64,6 +78,10 @@ export const createArvoOrchestrator = ({
     }
     lastSeenVersions.push(machine.version);
   }
+  registry.addMigrations(...(migrations ?? []));
+  if (routing) {
+    registry.useRouting(routing);
+  }
 
   return new ArvoOrchestrator({
     executionunits,
@@ -73,5 +91,16 @@ export const createArvoOrchestrator = ({
     requiresResourceLocking,
     defaultEventEmissionDomains,
     spanOptions,
+    lockRenewalIntervalMs,
+    lockAcquisition,
+    deduplicationWindow,
+    outbox,
+    timerScheduler,
+    deadLetter,
+    history,
+    middlewares,
+    onCancel,
+    autoMigrate,
+    onDefinitionDrift,
   });
 };
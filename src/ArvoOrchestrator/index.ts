@@ -9,16 +9,26 @@ import {
   logToSpan,
 } from 'arvo-core';
 import type { ActorLogic } from 'xstate';
+import { createArvoCancelEventType } from '../ArvoCancellation/event';
+import { executeCancellation } from '../ArvoCancellation/executeCancellation';
+import type { ArvoOrchestrationCancelHook } from '../ArvoCancellation/types';
+import type { IArvoMiddleware } from '../ArvoMiddleware/interface';
 import { processRawEventsIntoEmittables } from '../ArvoOrchestrationUtils/createEmitableEvent';
 import { executeWithOrchestrationWrapper } from '../ArvoOrchestrationUtils/orchestrationExecutionWrapper';
+import { resolveSagaSteps } from '../ArvoSaga/resolveSagaSteps';
+import { ArvoTimerEventDataSchema, ArvoTimerEventType } from '../ArvoTimer/event';
+import type { ITimerScheduler } from '../ArvoTimer/interface';
+import { resolveTimerCommands } from '../ArvoTimer/resolveTimerCommands';
+import type { IDeadLetterSink } from '../DeadLetter/interface';
 import type IArvoEventHandler from '../IArvoEventHandler';
 import type { IMachineExectionEngine } from '../MachineExecutionEngine/interface';
 import type { IMachineMemory } from '../MachineMemory/interface';
 import type { IMachineRegistry } from '../MachineRegistry/interface';
+import type { IOrchestrationHistoryStore } from '../OrchestrationHistory/interface';
 import { SyncEventResource } from '../SyncEventResource';
 import { ConfigViolation, ContractViolation } from '../errors';
 import type { ArvoEventHandlerOpenTelemetryOptions, ArvoEventHandlerOtelSpanOptions } from '../types';
-import type { ArvoOrchestratorParam, MachineMemoryRecord } from './types';
+import type { ArvoOrchestratorParam, MachineDefinitionDriftPolicy, MachineMemoryRecord } from './types';
 import { ArvoDomain } from '../ArvoDomain';
 
 /**
@@ -41,6 +51,28 @@ export class ArvoOrchestrator implements IArvoEventHandler {
   readonly defaultEventEmissionDomains: Required<NonNullable<ArvoOrchestratorParam['defaultEventEmissionDomains']>>;
   /** OpenTelemetry span configuration for observability */
   readonly spanOptions: ArvoEventHandlerOtelSpanOptions;
+  /** Interval in milliseconds at which the subject lock is renewed during execution */
+  readonly lockRenewalIntervalMs: number;
+  /** Retry policy applied when the subject lock is held by a parallel execution */
+  readonly lockAcquisition: ArvoOrchestratorParam['lockAcquisition'];
+  /** Number of consumed event IDs kept to deduplicate redelivered events */
+  readonly deduplicationWindow: number;
+  /** Whether the emitted events are persisted in the state outbox instead of being returned */
+  readonly outbox: boolean;
+  /** Scheduler storing the timers requested by the machines */
+  readonly timerScheduler: ITimerScheduler | null;
+  /** Sink receiving the events which failed with a violation error */
+  readonly deadLetter: IDeadLetterSink | null;
+  /** Store recording the execution history of the orchestrations */
+  readonly history: IOrchestrationHistoryStore | null;
+  /** Middlewares applied around the execution of the orchestrations */
+  readonly middlewares: IArvoMiddleware[];
+  /** Compensation hook invoked when the orchestration is cancelled */
+  readonly onCancel: ArvoOrchestrationCancelHook<Record<string, any>> | null;
+  /** Whether the persisted snapshots are migrated to newer machine versions on read */
+  readonly autoMigrate: boolean;
+  /** Policy applied when a persisted snapshot was produced by a different machine definition */
+  readonly onDefinitionDrift: MachineDefinitionDriftPolicy;
 
   /** Source identifier from the first registered machine */
   get source() {
@@ -70,8 +102,30 @@ export class ArvoOrchestrator implements IArvoEventHandler {
     requiresResourceLocking,
     defaultEventEmissionDomains,
     spanOptions,
+    lockRenewalIntervalMs,
+    lockAcquisition,
+    deduplicationWindow,
+    outbox,
+    timerScheduler,
+    deadLetter,
+    history,
+    middlewares,
+    onCancel,
+    autoMigrate,
+    onDefinitionDrift,
   }: ArvoOrchestratorParam) {
     this.executionunits = executionunits;
+    this.lockRenewalIntervalMs = lockRenewalIntervalMs ?? 10000;
+    this.lockAcquisition = lockAcquisition;
+    this.deduplicationWindow = Math.max(0, deduplicationWindow ?? 0);
+    this.outbox = outbox ?? false;
+    this.timerScheduler = timerScheduler ?? null;
+    this.deadLetter = deadLetter ?? null;
+    this.history = history ?? null;
+    this.middlewares = middlewares ?? [];
+    this.onCancel = onCancel ?? null;
+    this.autoMigrate = autoMigrate ?? false;
+    this.onDefinitionDrift = onDefinitionDrift ?? 'warn';
     this.registry = registry;
     this.executionEngine = executionEngine;
     this.syncEventResource = new SyncEventResource(memory, requiresResourceLocking);
@@ -135,6 +189,16 @@ export class ArvoOrchestrator implements IArvoEventHandler {
         executionunits: this.executionunits,
         systemErrorDomain: this.defaultEventEmissionDomains.systemError,
         selfContract: this.registry.machines[0].contracts.self,
+        lockRenewalIntervalMs: this.lockRenewalIntervalMs,
+        lockAcquisition: this.lockAcquisition,
+        deduplicationWindow: this.deduplicationWindow,
+        outbox: this.outbox,
+        deadLetter: this.deadLetter,
+        history: this.history,
+        timerScheduler: this.timerScheduler,
+        middlewares: this.middlewares,
+        resolveSelfContract: (version) =>
+          this.registry.machines.find((item) => item.version === version)?.contracts.self ?? null,
       },
       async ({ span, otelHeaders, orchestrationParentSubject, initEventId, parsedEventSubject, state }) => {
         logToSpan(
@@ -145,39 +209,196 @@ export class ArvoOrchestrator implements IArvoEventHandler {
           span,
         );
 
-        const machine = this.registry.resolve(event, { inheritFrom: 'CONTEXT' });
+        // The snapshot may belong to another machine version than the subject after a routing or a migration
+        let snapshot = state?.state ?? null;
+        let machineVersion = state?.machineVersion ?? parsedEventSubject.orchestrator.version;
+        const migrations = [...(state?.migrations ?? [])];
+        if (this.autoMigrate && snapshot) {
+          for (const migration of this.registry.resolveMigrations?.(machineVersion) ?? []) {
+            snapshot = migration.migrate({ snapshot, subject: event.subject });
+            migrations.push({
+              from: migration.from,
+              to: migration.to,
+              eventId: event.id,
+              at: new Date().toISOString(),
+            });
+            machineVersion = migration.to;
+            logToSpan(
+              {
+                level: 'INFO',
+                message: `Migrated the snapshot of ${event.subject} from machine version ${migration.from} to ${migration.to}`,
+              },
+              span,
+            );
+          }
+        }
+
+        // The registry resolves the machine of new orchestrations, and routes the init events to
+        // another version. A persisted orchestration continues on the version recorded in its state.
+        const isNewOrchestration = machineVersion === parsedEventSubject.orchestrator.version && !state?.machineVersion;
+        const resolvedMachine = isNewOrchestration
+          ? this.registry.resolve(event, { inheritFrom: 'CONTEXT' })
+          : (this.registry.machines.find((item) => item.version === machineVersion) ?? null);
+        const machine =
+          isNewOrchestration && resolvedMachine && event.type === resolvedMachine.source
+            ? (this.registry.route?.(event, resolvedMachine) ?? resolvedMachine)
+            : resolvedMachine;
 
         if (!machine) {
           throw new ConfigViolation(
-            `Machine resolution failed: No machine found matching orchestrator name='${parsedEventSubject.orchestrator.name}' and version='${parsedEventSubject.orchestrator.version}'.`,
+            `Machine resolution failed: No machine found matching orchestrator name='${parsedEventSubject.orchestrator.name}' and version='${machineVersion}'.`,
           );
         }
 
-        logToSpan(
-          {
-            level: 'INFO',
-            message: `Input validation started for event ${event.type} on machine ${machine.source}`,
-          },
-          span,
-        );
+        // A routed or migrated orchestration runs on another version than the one requested in
+        // its subject, but it keeps answering its initiator with the contract of the requested version
+        const contractMachine =
+          machine.version === parsedEventSubject.orchestrator.version
+            ? machine
+            : (this.registry.machines.find((item) => item.version === parsedEventSubject.orchestrator.version) ??
+              machine);
 
-        const inputValidation = machine.validateInput(event, span);
+        const fingerprint = machine.fingerprint();
+        const persistedFingerprint = state?.machineFingerprint;
+        // A snapshot migrated in this execution already matches the definition of its new version
+        const migrated = migrations.length > (state?.migrations?.length ?? 0);
+        if (snapshot && persistedFingerprint && !migrated && persistedFingerprint !== fingerprint) {
+          const message = `Machine definition drift detected for ${event.subject} - The snapshot was produced by definition ${persistedFingerprint} but machine version ${machine.version} has definition ${fingerprint}`;
+          if (this.onDefinitionDrift === 'reject') {
+            throw new ConfigViolation(message);
+          }
+          logToSpan({ level: 'WARNING', message }, span);
+          if (typeof this.onDefinitionDrift === 'function') {
+            snapshot = this.onDefinitionDrift({
+              subject: event.subject,
+              machine,
+              snapshot,
+              persistedFingerprint,
+              fingerprint,
+            });
+          }
+        }
 
-        if (inputValidation.type === 'CONTRACT_UNRESOLVED') {
-          throw new ConfigViolation(
-            'Contract validation failed - Event does not match any registered contract schemas in the machine',
+        const activeTimers = { ...(state?.executionStatus === 'normal' ? (state.timers ?? {}) : {}) };
+
+        if (event.type === createArvoCancelEventType(this.source) && state?.executionStatus === 'normal') {
+          // Cancel events are not part of any contract. A completed orchestration
+          // has nothing left to cancel, so the event is consumed without effect.
+          if (state.status === 'done') {
+            logToSpan(
+              {
+                level: 'WARNING',
+                message: `Ignoring cancel event for the completed orchestration ${event.subject}`,
+              },
+              span,
+            );
+            return { emittables: [], newState: state };
+          }
+
+          const { emittables, cancellation } = await executeCancellation(
+            {
+              event,
+              state,
+              context: (state.state as { context?: Record<string, any> } | null)?.context ?? null,
+              onCancel: this.onCancel,
+              otelHeaders,
+              orchestrationParentSubject,
+              initEventId,
+              selfContract: contractMachine.contracts.self,
+              serviceContracts: machine.contracts.services,
+              servicesDomain: this.defaultEventEmissionDomains.services,
+              systemErrorDomain: this.defaultEventEmissionDomains.systemError,
+              executionunits: this.executionunits,
+              source: this.source,
+              handlerType: 'orchestrator',
+            },
+            span,
           );
+
+          const timers = resolveTimerCommands({
+            timers: activeTimers,
+            commands: [],
+            event,
+            handler: this.source,
+            done: true,
+          });
+
+          return {
+            emittables,
+            timers,
+            newState: {
+              ...state,
+              events: {
+                consumed: event.toJSON(),
+                produced: emittables.map((item) => item.toJSON()),
+              },
+              timers: timers.timers,
+              saga: [],
+              cancellation,
+            },
+          };
         }
 
-        if (inputValidation.type === 'INVALID_DATA' || inputValidation.type === 'INVALID') {
-          throw new ContractViolation(
-            `Input validation failed - Event data does not meet contract requirements: ${inputValidation.error.message}`,
+        if (event.type === ArvoTimerEventType) {
+          // Timer events are not part of any contract, their data is validated against
+          // the timer event schema. Only the currently active timer is delivered to the
+          // machine, cancelled or replaced timers are stale. A timer event never
+          // initializes an orchestration, so the state exists here.
+          const timerValidation = ArvoTimerEventDataSchema.safeParse(event.data);
+          if (!timerValidation.success) {
+            throw new ContractViolation(
+              `Input validation failed - Timer event data does not meet the timer event schema: ${timerValidation.error.message}`,
+            );
+          }
+          const { name, timerId } = timerValidation.data;
+          if (state && activeTimers[name]?.timerId !== timerId) {
+            logToSpan(
+              {
+                level: 'WARNING',
+                message: `Ignoring stale timer event for timer '${name}' (timerId=${timerId}) on subject ${event.subject}`,
+              },
+              span,
+            );
+            return { emittables: [], newState: state };
+          }
+          delete activeTimers[name];
+        } else {
+          logToSpan(
+            {
+              level: 'INFO',
+              message: `Input validation started for event ${event.type} on machine ${machine.source}`,
+            },
+            span,
           );
+
+          const isInitEvent = event.type === machine.source;
+          const inputValidation = (isInitEvent ? contractMachine : machine).validateInput(event, span);
+
+          if (inputValidation.type === 'CONTRACT_UNRESOLVED') {
+            throw new ConfigViolation(
+              'Contract validation failed - Event does not match any registered contract schemas in the machine',
+            );
+          }
+
+          if (inputValidation.type === 'INVALID_DATA' || inputValidation.type === 'INVALID') {
+            throw new ContractViolation(
+              `Input validation failed - Event data does not meet contract requirements: ${inputValidation.error.message}`,
+            );
+          }
+
+          if (isInitEvent && contractMachine !== machine) {
+            const routedValidation = machine.contracts.self.accepts.schema.safeParse(event.data);
+            if (!routedValidation.success) {
+              throw new ContractViolation(
+                `Input validation failed - Event data does not meet the init schema of the routed machine version ${machine.version}: ${routedValidation.error.message}`,
+              );
+            }
+          }
         }
 
         // Execute machine
         const executionResult = this.executionEngine.execute(
-          { state: state?.state ?? null, event, machine },
+          { state: snapshot, event, machine },
           { inheritFrom: 'CONTEXT' },
         );
 
@@ -213,7 +434,7 @@ export class ArvoOrchestrator implements IArvoEventHandler {
             otelHeaders,
             orchestrationParentSubject,
             sourceEvent: event,
-            selfContract: machine.contracts.self,
+            selfContract: contractMachine.contracts.self,
             serviceContracts: machine.contracts.services,
             initEventId,
             executionunits: this.executionunits,
@@ -222,6 +443,35 @@ export class ArvoOrchestrator implements IArvoEventHandler {
           span,
         );
 
+        const saga = resolveSagaSteps({
+          steps: state?.saga ?? [],
+          event,
+          serviceContracts: machine.contracts.services,
+          rawEvents: rawMachineEmittedEvents,
+          emittables,
+          createCompensation: (compensation) =>
+            processRawEventsIntoEmittables(
+              {
+                rawEvents: [
+                  { ...compensation, domain: compensation.domain ?? this.defaultEventEmissionDomains.services },
+                ],
+                otelHeaders,
+                orchestrationParentSubject,
+                sourceEvent: event,
+                selfContract: contractMachine.contracts.self,
+                serviceContracts: machine.contracts.services,
+                initEventId,
+                executionunits: this.executionunits,
+                source: this.source,
+              },
+              span,
+            ),
+          compensate: executionResult.compensate ?? false,
+          done: executionResult.state.status === 'done',
+          otelHeaders,
+        });
+        emittables.unshift(...saga.compensations);
+
         logToSpan(
           {
             level: 'INFO',
@@ -230,6 +480,14 @@ export class ArvoOrchestrator implements IArvoEventHandler {
           span,
         );
 
+        const timers = resolveTimerCommands({
+          timers: activeTimers,
+          commands: executionResult.timers ?? [],
+          event,
+          handler: this.source,
+          done: executionResult.state.status === 'done',
+        });
+
         // Build new state
         const newState: MachineMemoryRecord = {
           executionStatus: 'normal',
@@ -244,9 +502,14 @@ export class ArvoOrchestrator implements IArvoEventHandler {
             produced: emittables.map((item) => item.toJSON()),
           },
           machineDefinition: JSON.stringify((machine.logic as ActorLogic<any, any, any, any, any>).config),
+          timers: timers.timers,
+          saga: saga.steps,
+          machineVersion: machine.version,
+          machineFingerprint: fingerprint,
+          ...(migrations.length ? { migrations } : {}),
         };
 
-        return { emittables, newState };
+        return { emittables, newState, timers };
       },
     );
   }
@@ -1,10 +1,22 @@
-import type { ArvoEvent, InferArvoEvent } from 'arvo-core';
+import type { ArvoEvent, ArvoSemanticVersion, InferArvoEvent } from 'arvo-core';
 import type { Snapshot } from 'xstate';
+import type { ArvoOrchestrationCancelHook } from '../ArvoCancellation/types';
 import type ArvoMachine from '../ArvoMachine';
+import type { IArvoMiddleware } from '../ArvoMiddleware/interface';
 import type { OrchestrationExecutionMemoryRecord } from '../ArvoOrchestrationUtils/orchestrationExecutionState';
+import type { LockAcquisitionPolicy } from '../ArvoOrchestrationUtils/types';
+import type { ITimerScheduler } from '../ArvoTimer/interface';
+import type { ArvoTimerRecord } from '../ArvoTimer/types';
+import type { IDeadLetterSink } from '../DeadLetter/interface';
 import type { IMachineExectionEngine } from '../MachineExecutionEngine/interface';
 import type { IMachineMemory } from '../MachineMemory/interface';
 import type { IMachineRegistry } from '../MachineRegistry/interface';
+import type {
+  ArvoMachineMigration,
+  ArvoMachineMigrationRecord,
+  MachineRoutingStrategy,
+} from '../MachineRegistry/types';
+import type { IOrchestrationHistoryStore } from '../OrchestrationHistory/interface';
 import type { ArvoEventHandlerOtelSpanOptions, NonEmptyArray } from '../types';
 
 /**
@@ -86,8 +98,61 @@ export type MachineMemoryRecord = OrchestrationExecutionMemoryRecord<{
 
   /** Serialized machine definition for debugging and inspection */
   machineDefinition: string | null;
+
+  /**
+   * Fingerprint of the machine definition which produced the snapshot, see
+   * {@link ArvoMachine.fingerprint}. Compared with the resolved machine on resume
+   * to detect definition drift. Absent in states persisted before it was recorded.
+   */
+  machineFingerprint?: string;
+
+  /**
+   * Active timers scheduled by the machine, by timer name. A timer event is
+   * only delivered to the machine while its timer is active here.
+   */
+  timers?: Record<string, ArvoTimerRecord>;
+
+  /**
+   * Version of the machine which produced the snapshot. Differs from the version
+   * in the subject once the snapshot has been migrated to a newer machine.
+   * Absent in states persisted before the version was recorded.
+   */
+  machineVersion?: ArvoSemanticVersion;
+
+  /** Snapshot migrations applied to the orchestration, oldest first */
+  migrations?: ArvoMachineMigrationRecord[];
 }>;
 
+/**
+ * Parameters of the hook handling a drifted machine definition.
+ */
+export type MachineDefinitionDriftHookParam = {
+  /** The orchestration subject */
+  subject: string;
+  /** The resolved machine whose definition differs from the persisted fingerprint */
+  machine: ArvoMachine<any, any, any, any, any>;
+  /** The persisted snapshot produced by the previous definition */
+  snapshot: Snapshot<any>;
+  /** The fingerprint of the definition which produced the snapshot */
+  persistedFingerprint: string;
+  /** The fingerprint of the resolved machine */
+  fingerprint: string;
+};
+
+/**
+ * Policy applied when a persisted snapshot was produced by a different definition
+ * of the resolved machine, e.g. after a changed machine was deployed under the
+ * same version.
+ *
+ * - `'warn'`: logs a warning on the execution span and continues
+ * - `'reject'`: fails the execution with a {@link ConfigViolation}
+ * - A function: migrates the persisted snapshot to the current definition
+ */
+export type MachineDefinitionDriftPolicy =
+  | 'warn'
+  | 'reject'
+  | ((param: MachineDefinitionDriftHookParam) => Snapshot<any>);
+
 /**
  * Configuration parameters for ArvoOrchestrator constructor.
  *
@@ -113,6 +178,100 @@ export type ArvoOrchestratorParam = {
   /** OpenTelemetry span configuration for distributed tracing */
   spanOptions?: ArvoEventHandlerOtelSpanOptions;
 
+  /**
+   * Interval in milliseconds at which the subject lock is renewed while an
+   * execution is running, so that long executions do not outlive the lock TTL.
+   * Only applies when the memory implements `renewLock`. Set to `0` to disable.
+   *
+   * @default 10000
+   */
+  lockRenewalIntervalMs?: number;
+
+  /**
+   * Retry policy applied when the subject lock is held by a parallel execution.
+   * Without a policy, the lock acquisition is attempted once and a busy lock
+   * fails the execution with a `TransactionViolation` of cause `LOCK_UNACQUIRED`.
+   */
+  lockAcquisition?: LockAcquisitionPolicy;
+
+  /**
+   * Enables inbox deduplication of redelivered events. The IDs of the last
+   * `deduplicationWindow` consumed events are recorded in the persisted state.
+   * When an event with a recorded ID arrives again, the handler does not execute
+   * and instead re-emits the events it previously produced for it, if they are
+   * still retained in the state, or nothing otherwise.
+   *
+   * @default undefined - deduplication is disabled
+   */
+  deduplicationWindow?: number;
+
+  /**
+   * Enables the transactional outbox. Emitted events, including system error
+   * events, are persisted in the `outbox` of the state in the same write as the
+   * state itself, and the execution returns no events. The events are then
+   * published from the memory by an `OutboxRelay`, so that a crash between the
+   * state write and the event publication cannot lose or orphan events.
+   *
+   * @default false
+   */
+  outbox?: boolean;
+
+  /**
+   * Scheduler storing the timers requested by the machines via the
+   * `scheduleArvoTimer` action. Required when a machine uses timers. The
+   * due timers are delivered back to the orchestrator by a `TimerDispatcher`.
+   */
+  timerScheduler?: ITimerScheduler;
+
+  /**
+   * Optional sink for the events which fail with a violation error, such as an
+   * unacquirable lock or a contract violation. The failed event is handed to the
+   * sink, together with the violation and the trace context, before the violation
+   * is thrown to the caller.
+   */
+  deadLetter?: IDeadLetterSink;
+
+  /**
+   * Optional append-only store recording every execution of the orchestration,
+   * with its consumed and produced events, state value and snapshot hash, after
+   * the new state has been persisted.
+   */
+  history?: IOrchestrationHistoryStore;
+
+  /**
+   * Optional middlewares applied around the execution, for cross-cutting concerns
+   * such as access control, rate limiting, payload redaction or metrics. See
+   * {@link IArvoMiddleware} for the order of the hooks.
+   */
+  middlewares?: IArvoMiddleware[];
+
+  /**
+   * Optional compensation hook invoked when the orchestration receives its
+   * cancel event (see {@link createArvoCancelEvent}). It receives the machine
+   * context and returns the compensation events to emit before the orchestration
+   * reports its cancellation to the parent.
+   */
+  onCancel?: ArvoOrchestrationCancelHook<Record<string, any>>;
+
+  /**
+   * Migrates the persisted snapshots on read. Before the execution, a snapshot
+   * is moved through the migrations resolved by the registry for its machine
+   * version, and the execution continues on the machine of the migrated version.
+   * The applied migrations are recorded in the `migrations` of the state.
+   *
+   * @default false
+   */
+  autoMigrate?: boolean;
+
+  /**
+   * Policy applied on resume when the fingerprint of the resolved machine differs
+   * from the fingerprint persisted with the snapshot. Snapshots migrated to
+   * another machine version in the same execution are not checked.
+   *
+   * @default 'warn'
+   */
+  onDefinitionDrift?: MachineDefinitionDriftPolicy;
+
   /**
    * Optional default domains for the events emitted
    * by the orchestrator.
@@ -158,7 +317,21 @@ export type ArvoOrchestratorParam = {
  */
 export type CreateArvoOrchestratorParam = Pick<
   ArvoOrchestratorParam,
-  'memory' | 'executionunits' | 'spanOptions' | 'defaultEventEmissionDomains'
+  | 'memory'
+  | 'executionunits'
+  | 'spanOptions'
+  | 'defaultEventEmissionDomains'
+  | 'lockRenewalIntervalMs'
+  | 'lockAcquisition'
+  | 'deduplicationWindow'
+  | 'outbox'
+  | 'timerScheduler'
+  | 'deadLetter'
+  | 'history'
+  | 'middlewares'
+  | 'onCancel'
+  | 'autoMigrate'
+  | 'onDefinitionDrift'
 > & {
   /**
    * Optional override for resource locking requirement.
@@ -182,4 +355,16 @@ export type CreateArvoOrchestratorParam = Pick<
    * At least one machine is required.
    */
   machines: ArvoMachine<any, any, any, any, any>[];
+
+  /**
+   * Snapshot migrations between the versions of the machines, registered on
+   * the machine registry. See {@link MachineRegistry.addMigrations}.
+   */
+  migrations?: ArvoMachineMigration[];
+
+  /**
+   * Strategy routing the new orchestrations between the versions of the machines,
+   * set on the machine registry. See {@link MachineRegistry.useRouting}.
+   */
+  routing?: MachineRoutingStrategy;
 };
@@ -0,0 +1,48 @@
+import { ArvoOrchestratorGroup } from '.';
+import type ArvoMachine from '../ArvoMachine';
+import { createArvoOrchestrator } from '../ArvoOrchestrator/factory';
+import type { CreateArvoOrchestratorGroupParam } from './types';
+
+/**
+ * Creates an orchestrator group hosting the workflows of the given machines.
+ *
+ * The machines are grouped by source, and an orchestrator is created for each
+ * workflow via {@link createArvoOrchestrator} with the shared memory, telemetry,
+ * default domains and other options.
+ *
+ * @param params - The machines of all the workflows and the shared options
+ * @returns The orchestrator group
+ *
+ * @throws {Error} When no machines are provided
+ * @throws {ConfigViolation} When the machines of a workflow have duplicate versions
+ *
+ * @example
+ * ```typescript
+ * const group = createArvoOrchestratorGroup({
+ *   memory: new SimpleMachineMemory(),
+ *   executionunits: 0.1,
+ *   machines: [checkoutMachine, refundMachine],
+ * });
+ *
+ * const { events } = await group.execute(event);
+ * ```
+ */
+export const createArvoOrchestratorGroup = ({
+  machines,
+  ...options
+}: CreateArvoOrchestratorGroupParam): ArvoOrchestratorGroup => {
+  if (!machines?.length) {
+    throw new Error('At least one machine must be provided');
+  }
+
+  const workflows: Record<string, ArvoMachine<any, any, any, any, any>[]> = {};
+  for (const machine of machines) {
+    workflows[machine.source] = [...(workflows[machine.source] ?? []), machine];
+  }
+
+  return new ArvoOrchestratorGroup({
+    orchestrators: Object.values(workflows).map((workflowMachines) =>
+      createArvoOrchestrator({ ...options, machines: workflowMachines }),
+    ),
+  });
+};
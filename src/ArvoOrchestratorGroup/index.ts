@@ -0,0 +1,119 @@
+import { type ArvoEvent, ArvoOrchestrationSubject } from 'arvo-core';
+import type { ArvoOrchestrator } from '../ArvoOrchestrator';
+import type IArvoEventHandler from '../IArvoEventHandler';
+import { ConfigViolation } from '../errors';
+import type { ArvoEventHandlerOpenTelemetryOptions } from '../types';
+import type { ArvoOrchestratorGroupParam } from './types';
+
+/**
+ * Hosts the orchestrators of several workflows behind a single handler.
+ *
+ * An {@link ArvoOrchestrator} only handles the workflow of a single source. The
+ * group dispatches each event to the orchestrator of its workflow, so that one
+ * subscription, memory wiring and telemetry configuration serves all the
+ * workflows of a service. The workflow of an event is resolved from:
+ *
+ * 1. The event type, for init events
+ * 2. The orchestrator name in the event subject, for the events of running orchestrations
+ * 3. The `to` field of the event
+ *
+ * Each orchestrator keeps its own contracts, machine versions and error handling,
+ * and the orchestrations of all workflows may share the same memory.
+ *
+ * The group is an {@link IArvoEventHandler}, so it can be passed wherever a handler
+ * is executed, e.g. to replay dead letters. Its `source` and `systemErrorSchema`
+ * are the ones of the first hosted orchestrator. Plumbing which subscribes a handler
+ * to its `source` only, such as `createSimpleEventBroker`, would not deliver the
+ * events of the other workflows, so subscribe the group to each of its `sources` instead.
+ *
+ * @example
+ * ```typescript
+ * const group = createArvoOrchestratorGroup({
+ *   memory: new SimpleMachineMemory(),
+ *   executionunits: 0.1,
+ *   machines: [checkoutMachine, refundMachineV1, refundMachineV2],
+ * });
+ *
+ * for (const source of group.sources) {
+ *   broker.subscribe(source, async (event) => await group.execute(event));
+ * }
+ * ```
+ */
+export class ArvoOrchestratorGroup implements IArvoEventHandler {
+  /** The orchestrators hosted by the group */
+  readonly orchestrators: ArvoOrchestrator[];
+
+  constructor(param: ArvoOrchestratorGroupParam) {
+    if (!param.orchestrators.length) {
+      throw new ConfigViolation('An orchestrator group requires at least one orchestrator');
+    }
+    const sources = new Set<string>();
+    for (const orchestrator of param.orchestrators) {
+      if (sources.has(orchestrator.source)) {
+        throw new ConfigViolation(
+          `An orchestrator group must have unique orchestrator sources. The source '${orchestrator.source}' is hosted more than once.`,
+        );
+      }
+      sources.add(orchestrator.source);
+    }
+    this.orchestrators = param.orchestrators;
+  }
+
+  /** The source of the first hosted orchestrator, identifying the group as an event handler */
+  get source(): string {
+    return this.orchestrators[0].source;
+  }
+
+  /** The sources of the hosted workflows, i.e. the event types the group subscribes to */
+  get sources(): string[] {
+    return this.orchestrators.map((item) => item.source);
+  }
+
+  /**
+   * Resolves the orchestrator handling an event.
+   *
+   * @param event - The event to dispatch
+   * @returns The orchestrator of the workflow of the event, or null when no hosted workflow handles it
+   */
+  resolve(event: ArvoEvent): ArvoOrchestrator | null {
+    const find = (source: string | null | undefined) =>
+      source ? (this.orchestrators.find((item) => item.source === source) ?? null) : null;
+    const subjectSource = ArvoOrchestrationSubject.isValid(event.subject)
+      ? ArvoOrchestrationSubject.parse(event.subject).orchestrator.name
+      : null;
+    return find(event.type) ?? find(subjectSource) ?? find(event.to);
+  }
+
+  /**
+   * Dispatches an event to the orchestrator of its workflow and executes it.
+   *
+   * @param event - The event to execute
+   * @param opentelemetry - Optional OpenTelemetry configuration for tracing
+   * @returns The events emitted by the orchestrator
+   *
+   * @throws {ConfigViolation} When no hosted workflow handles the event
+   * @throws The violations thrown by the orchestrator, see {@link ArvoOrchestrator.execute}
+   */
+  async execute(
+    event: ArvoEvent,
+    opentelemetry?: ArvoEventHandlerOpenTelemetryOptions,
+  ): Promise<{
+    events: ArvoEvent[];
+  }> {
+    const orchestrator = this.resolve(event);
+    if (!orchestrator) {
+      throw new ConfigViolation(
+        `Orchestrator resolution failed: No workflow in the group handles the event (id='${event.id}', type='${event.type}', subject='${event.subject}'). Hosted workflows: ${this.sources.join(', ')}`,
+      );
+    }
+    return await orchestrator.execute(event, opentelemetry);
+  }
+
+  /**
+   * Provides access to the system error event schema of the first hosted
+   * orchestrator. Each hosted orchestrator emits the system errors of its own workflow.
+   */
+  get systemErrorSchema() {
+    return this.orchestrators[0].systemErrorSchema;
+  }
+}
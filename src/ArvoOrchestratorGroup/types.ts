@@ -0,0 +1,25 @@
+import type { ArvoOrchestrator } from '../ArvoOrchestrator';
+import type { CreateArvoOrchestratorParam } from '../ArvoOrchestrator/types';
+
+/**
+ * Configuration parameters for the {@link ArvoOrchestratorGroup} constructor.
+ */
+export type ArvoOrchestratorGroupParam = {
+  /** The orchestrators hosted by the group, one per workflow source */
+  orchestrators: ArvoOrchestrator[];
+};
+
+/**
+ * Configuration parameters for {@link createArvoOrchestratorGroup}.
+ *
+ * All the options except `machines` are shared by the orchestrators of the
+ * group. To configure migrations, routing or other options per workflow, create
+ * the orchestrators individually and pass them to the {@link ArvoOrchestratorGroup}.
+ */
+export type CreateArvoOrchestratorGroupParam = Omit<CreateArvoOrchestratorParam, 'migrations' | 'routing'> & {
+  /**
+   * The machines of all the hosted workflows. The machines are grouped by
+   * source into one orchestrator per workflow, whose versions must be unique.
+   */
+  machines: CreateArvoOrchestratorParam['machines'];
+};
@@ -58,5 +58,14 @@ export const createArvoResumable = <
     requiresResourceLocking: param.requiresResourceLocking ?? Object.keys(param.contracts.services).length > 1,
     defaultEventEmissionDomains: param.defaultEventEmissionDomains,
     spanOptions: param.spanOptions,
+    lockRenewalIntervalMs: param.lockRenewalIntervalMs,
+    lockAcquisition: param.lockAcquisition,
+    deduplicationWindow: param.deduplicationWindow,
+    outbox: param.outbox,
+    timerScheduler: param.timerScheduler,
+    deadLetter: param.deadLetter,
+    history: param.history,
+    middlewares: param.middlewares,
+    onCancel: param.onCancel,
   });
 };
@@ -4,21 +4,33 @@ import {
   ArvoExecution,
   ArvoExecutionSpanKind,
   type ArvoOrchestratorContract,
+  EventDataschemaUtil,
   type InferArvoEvent,
   OpenInference,
   OpenInferenceSpanKind,
   type VersionedArvoContract,
   logToSpan,
 } from 'arvo-core';
+import { createArvoCancelEventType } from '../ArvoCancellation/event';
+import { executeCancellation } from '../ArvoCancellation/executeCancellation';
+import type { ArvoOrchestrationCancelHook } from '../ArvoCancellation/types';
+import type { IArvoMiddleware } from '../ArvoMiddleware/interface';
 import { processRawEventsIntoEmittables } from '../ArvoOrchestrationUtils/createEmitableEvent';
 import { type EventValidationResult, validateInputEvent } from '../ArvoOrchestrationUtils/inputValidation';
 import { executeWithOrchestrationWrapper } from '../ArvoOrchestrationUtils/orchestrationExecutionWrapper';
+import { resolveSagaSteps } from '../ArvoSaga/resolveSagaSteps';
+import { ArvoTimeoutEventType } from '../ArvoTimer/event';
+import type { ITimerScheduler } from '../ArvoTimer/interface';
+import { resolveTimerCommands } from '../ArvoTimer/resolveTimerCommands';
+import type { ArvoTimerEventData } from '../ArvoTimer/types';
+import type { IDeadLetterSink } from '../DeadLetter/interface';
 import type IArvoEventHandler from '../IArvoEventHandler';
 import type { IMachineMemory } from '../MachineMemory/interface';
+import type { IOrchestrationHistoryStore } from '../OrchestrationHistory/interface';
 import { SyncEventResource } from '../SyncEventResource/index';
 import { ConfigViolation, ContractViolation } from '../errors';
 import type { ArvoEventHandlerOpenTelemetryOptions, ArvoEventHandlerOtelSpanOptions } from '../types';
-import type { ArvoResumableHandler, ArvoResumableParam, ArvoResumableState } from './types';
+import type { ArvoResumableHandler, ArvoResumableParam, ArvoResumableState, ArvoResumableTimeoutRecord } from './types';
 import { ArvoDomain } from '../ArvoDomain';
 
 /**
@@ -52,6 +64,24 @@ export class ArvoResumable<
   >;
   /** OpenTelemetry span configuration for observability */
   readonly spanOptions: ArvoEventHandlerOtelSpanOptions;
+  /** Interval in milliseconds at which the subject lock is renewed during execution */
+  readonly lockRenewalIntervalMs: number;
+  /** Retry policy applied when the subject lock is held by a parallel execution */
+  readonly lockAcquisition: ArvoResumableParam<TMemory, TSelfContract, TServiceContract>['lockAcquisition'];
+  /** Number of consumed event IDs kept to deduplicate redelivered events */
+  readonly deduplicationWindow: number;
+  /** Whether the emitted events are persisted in the state outbox instead of being returned */
+  readonly outbox: boolean;
+  /** Scheduler storing the timeouts registered by the handlers */
+  readonly timerScheduler: ITimerScheduler | null;
+  /** Sink receiving the events which failed with a violation error */
+  readonly deadLetter: IDeadLetterSink | null;
+  /** Store recording the execution history of the workflows */
+  readonly history: IOrchestrationHistoryStore | null;
+  /** Middlewares applied around the execution of the workflows */
+  readonly middlewares: IArvoMiddleware[];
+  /** Compensation hook invoked when the workflow is cancelled */
+  readonly onCancel: ArvoOrchestrationCancelHook<TMemory> | null;
   /** Source identifier from the first registered machine */
   readonly source: string;
 
@@ -91,6 +121,15 @@ export class ArvoResumable<
     this.syncEventResource = new SyncEventResource(param.memory, param.requiresResourceLocking ?? true);
     this.contracts = param.contracts;
     this.handler = param.handler;
+    this.lockRenewalIntervalMs = param.lockRenewalIntervalMs ?? 10000;
+    this.lockAcquisition = param.lockAcquisition;
+    this.deduplicationWindow = Math.max(0, param.deduplicationWindow ?? 0);
+    this.outbox = param.outbox ?? false;
+    this.timerScheduler = param.timerScheduler ?? null;
+    this.deadLetter = param.deadLetter ?? null;
+    this.history = param.history ?? null;
+    this.middlewares = param.middlewares ?? [];
+    this.onCancel = param.onCancel ?? null;
     this.defaultEventEmissionDomains = {
       systemError: [ArvoDomain.ORCHESTRATION_CONTEXT],
       services: [ArvoDomain.LOCAL],
@@ -124,6 +163,7 @@ export class ArvoResumable<
       event,
       selfContract: this.contracts.self,
       serviceContracts: this.contracts.services,
+      timeoutEventType: ArvoTimeoutEventType,
       span,
     });
   }
@@ -168,6 +208,16 @@ export class ArvoResumable<
         executionunits: this.executionunits,
         systemErrorDomain: this.defaultEventEmissionDomains.systemError,
         selfContract: this.contracts.self.version('latest'),
+        lockRenewalIntervalMs: this.lockRenewalIntervalMs,
+        lockAcquisition: this.lockAcquisition,
+        deduplicationWindow: this.deduplicationWindow,
+        outbox: this.outbox,
+        deadLetter: this.deadLetter,
+        history: this.history,
+        timerScheduler: this.timerScheduler,
+        middlewares: this.middlewares,
+        resolveSelfContract: (version): VersionedArvoContract<any, any> | null =>
+          this.contracts.self.versions[version] ? this.contracts.self.version(version) : null,
       },
       async ({ span, otelHeaders, orchestrationParentSubject, initEventId, parsedEventSubject, state }) => {
         logToSpan(
@@ -184,6 +234,67 @@ export class ArvoResumable<
           );
         }
 
+        const versionedSelfContract: VersionedArvoContract<any, any> = this.contracts.self.version(
+          parsedEventSubject.orchestrator.version,
+        );
+
+        if (event.type === createArvoCancelEventType(this.source) && state) {
+          // Cancel events are not part of any contract. A completed workflow
+          // has nothing left to cancel, so the event is consumed without effect.
+          if (state.status === 'done') {
+            logToSpan({
+              level: 'WARNING',
+              message: `Ignoring cancel event for the completed workflow ${event.subject}`,
+            });
+            return { emittables: [], newState: state };
+          }
+
+          const { emittables, cancellation } = await executeCancellation(
+            {
+              event,
+              state,
+              context: state.state$$ ?? null,
+              onCancel: this.onCancel,
+              otelHeaders,
+              orchestrationParentSubject,
+              initEventId,
+              selfContract: versionedSelfContract,
+              serviceContracts: this.contracts.services,
+              servicesDomain: this.defaultEventEmissionDomains.services,
+              systemErrorDomain: this.defaultEventEmissionDomains.systemError,
+              executionunits: this.executionunits,
+              source: this.source,
+              handlerType: 'resumable',
+            },
+            span,
+          );
+
+          const timeouts = resolveTimerCommands({
+            timers: state.timeouts ?? {},
+            commands: [],
+            event,
+            handler: this.source,
+            done: true,
+            type: ArvoTimeoutEventType,
+          });
+
+          return {
+            emittables,
+            timers: { scheduled: [], cancelled: timeouts.cancelled },
+            newState: {
+              ...state,
+              events: {
+                consumed: event.toJSON(),
+                expected: null,
+                produced: emittables.map((item) => item.toJSON()),
+              },
+              timeouts: {},
+              saga: [],
+              cancellation,
+            },
+          };
+        }
+
         logToSpan({
           level: 'INFO',
           message: `Input validation started for event ${event.type}`,
@@ -203,7 +314,7 @@ export class ArvoResumable<
           );
         }
 
-        const { contractType } = inputValidation;
+        const contractType = inputValidation.contractType;
 
         if (state?.status === 'done') {
           logToSpan({
@@ -217,6 +328,33 @@ export class ArvoResumable<
           };
         }
 
+        const activeTimeouts: Record<string, ArvoResumableTimeoutRecord> = { ...(state?.timeouts ?? {}) };
+
+        if (contractType === 'timeout' && state) {
+          const timeout = activeTimeouts[event.data.name];
+          if (timeout?.timerId !== event.data.timerId) {
+            logToSpan({
+              level: 'WARNING',
+              message: `Ignoring stale timeout event for timeout '${event.data.name}' (timerId=${event.data.timerId})`,
+            });
+            return { emittables: [], newState: state };
+          }
+
+          delete activeTimeouts[event.data.name];
+
+          // The service calls which have since been superseded are no longer awaited
+          const expected = state.events?.expected ?? {};
+          const hasAwaitedEventsArrived =
+            timeout.awaiting.length > 0 && timeout.awaiting.every((id) => !expected[id] || expected[id].length > 0);
+          if (hasAwaitedEventsArrived) {
+            logToSpan({
+              level: 'INFO',
+              message: `Skipping timeout '${event.data.name}' as the awaited events have already arrived`,
+            });
+            return { emittables: [], newState: { ...state, timeouts: activeTimeouts } };
+          }
+        }
+
         // Track expected events
         if (
           event.parentid &&
@@ -239,7 +377,6 @@ export class ArvoResumable<
 
         // Execute handler
         const handler = this.handler[parsedEventSubject.orchestrator.version];
-        const versionedSelfContract = this.contracts.self.version(parsedEventSubject.orchestrator.version);
 
         const executionResult = await handler({
           span: span,
@@ -252,6 +389,10 @@ export class ArvoResumable<
           },
           input: contractType === 'self' ? (event.toJSON() as any) : null,
           service: contractType === 'service' ? event.toJSON() : null,
+          timeout:
+            contractType === 'timeout'
+              ? (event as ArvoEvent<ArvoTimerEventData, Record<string, any>, typeof ArvoTimeoutEventType>).toJSON()
+              : null,
           contracts: {
             self: versionedSelfContract,
             services: this.contracts.services,
@@ -281,7 +422,7 @@ export class ArvoResumable<
             otelHeaders,
             orchestrationParentSubject,
             sourceEvent: event,
-            selfContract: versionedSelfContract as any,
+            selfContract: versionedSelfContract,
             serviceContracts: this.contracts.services,
             initEventId,
             executionunits: this.executionunits,
@@ -290,11 +431,56 @@ export class ArvoResumable<
           span,
         );
 
+        const saga = resolveSagaSteps({
+          steps: state?.saga ?? [],
+          event,
+          serviceContracts: this.contracts.services,
+          rawEvents,
+          emittables,
+          createCompensation: (compensation) =>
+            processRawEventsIntoEmittables(
+              {
+                rawEvents: [
+                  { ...compensation, domain: compensation.domain ?? this.defaultEventEmissionDomains.services },
+                ],
+                otelHeaders,
+                orchestrationParentSubject,
+                sourceEvent: event,
+                selfContract: versionedSelfContract,
+                serviceContracts: this.contracts.services,
+                initEventId,
+                executionunits: this.executionunits,
+                source: this.source,
+              },
+              span,
+            ),
+          compensate: executionResult?.compensate ?? false,
+          done: Boolean(executionResult?.output),
+          otelHeaders,
+        });
+        // The compensations are emitted before the events of this execution
+        emittables.unshift(...saga.compensations);
+
         logToSpan({
           level: 'INFO',
           message: `Resumable execution completed. Generated events: ${emittables.length}`,
         });
 
+        const timeouts = resolveTimerCommands({
+          timers: activeTimeouts,
+          commands: (executionResult?.timeouts ?? []).map((item) => ({ action: 'schedule', ...item })),
+          event,
+          handler: this.source,
+          done: Boolean(executionResult?.output),
+          type: ArvoTimeoutEventType,
+          dataschema: EventDataschemaUtil.create(versionedSelfContract),
+        });
+        // A timeout awaits the service events emitted alongside it
+        const scheduledTimeouts: ArvoResumableTimeoutRecord[] = timeouts.scheduled.map((item) => ({
+          ...item,
+          awaiting: emittables.map((emittable) => emittable.id),
+        }));
+
         // Build event tracking state
         const eventTrackingState: ArvoResumableState<any>['events'] = {
           consumed: event.toJSON(),
@@ -313,9 +499,14 @@ export class ArvoResumable<
           subject: event.subject,
           events: eventTrackingState,
           state$$: executionResult?.context ?? state?.state$$ ?? null,
+          timeouts: {
+            ...(timeouts.timers as Record<string, ArvoResumableTimeoutRecord>),
+            ...Object.fromEntries(scheduledTimeouts.map((item) => [item.name, item])),
+          },
+          saga: saga.steps,
         };
 
-        return { emittables, newState };
+        return { emittables, newState, timers: { scheduled: scheduledTimeouts, cancelled: timeouts.cancelled } };
       },
     );
   }
@@ -9,9 +9,18 @@ import type {
   InferVersionedArvoContract,
   VersionedArvoContract,
 } from 'arvo-core';
+import type { ArvoOrchestrationCancelHook } from '../ArvoCancellation/types';
 import type { EnqueueArvoEventActionParam } from '../ArvoMachine/types';
+import type { IArvoMiddleware } from '../ArvoMiddleware/interface';
 import type { OrchestrationExecutionMemoryRecord } from '../ArvoOrchestrationUtils/orchestrationExecutionState';
+import type { LockAcquisitionPolicy } from '../ArvoOrchestrationUtils/types';
+import type { ArvoCompensableEventParam } from '../ArvoSaga/types';
+import type { ArvoTimeoutEventType } from '../ArvoTimer/event';
+import type { ITimerScheduler } from '../ArvoTimer/interface';
+import type { ArvoTimerEventData, ArvoTimerRecord } from '../ArvoTimer/types';
+import type { IDeadLetterSink } from '../DeadLetter/interface';
 import type { IMachineMemory } from '../MachineMemory/interface';
+import type { IOrchestrationHistoryStore } from '../OrchestrationHistory/interface';
 import type { ArvoEventHandlerOtelSpanOptions, NonEmptyArray } from '../types';
 
 /**
@@ -111,6 +120,13 @@ type Handler<
       }[keyof TServiceContract]
     | null;
 
+  /**
+   * Timeout event data.
+   * Only present when a deadline registered via the `timeouts` output is due and
+   * the events awaited by it have not all arrived. Null otherwise.
+   */
+  timeout: InferArvoEvent<ArvoEvent<ArvoTimerEventData, Record<string, any>, typeof ArvoTimeoutEventType>> | null;
+
   /** Contract definitions available to the handler */
   contracts: {
     /** The resumable's self contract for validation */
@@ -142,18 +158,62 @@ type Handler<
    * Service call events to emit.
    * Each event triggers an external service and awaits its response in future invocations.
    * Responses are collected in `collectedEvents` based on parent ID matching.
+   * An event may carry a `compensation` event, which is recorded as a saga step
+   * and emitted when the saga is compensated after the service has responded.
    */
   services?: Array<
-    {
-      [K in keyof TServiceContract]: EnqueueArvoEventActionParam<
-        InferVersionedArvoContract<TServiceContract[K]>['accepts']['data'],
-        InferVersionedArvoContract<TServiceContract[K]>['accepts']['type']
-      >;
-    }[keyof TServiceContract]
+    ArvoCompensableEventParam<
+      {
+        [K in keyof TServiceContract]: EnqueueArvoEventActionParam<
+          InferVersionedArvoContract<TServiceContract[K]>['accepts']['data'],
+          InferVersionedArvoContract<TServiceContract[K]>['accepts']['type']
+        >;
+      }[keyof TServiceContract]
+    >
   >;
+
+  /**
+   * Compensates the saga. The compensation events of the completed saga steps
+   * are emitted in reverse order, before the events of this invocation. The saga
+   * is also compensated when the workflow fails or is cancelled.
+   */
+  compensate?: boolean;
+
+  /**
+   * Deadlines to register for this workflow.
+   * Each timeout resumes the handler with the `timeout` parameter once due, unless
+   * all the service events emitted in this invocation have received a response by
+   * then. Registering a timeout with the name of an active timeout replaces it. All
+   * the active timeouts are cancelled when the workflow completes.
+   */
+  timeouts?: ArvoResumableTimeout[];
   // biome-ignore lint/suspicious/noConfusingVoidType: Make the function more ergonomic in coding
 } | void>;
 
+/**
+ * A deadline registered by an ArvoResumable handler.
+ */
+export type ArvoResumableTimeout = {
+  /** The name of the timeout, unique within the workflow */
+  name: string;
+  /**
+   * The delay in milliseconds after which the timeout is due, measured
+   * from the `time` of the event being processed.
+   */
+  delayMs: number;
+};
+
+/**
+ * An active timeout, as persisted in the workflow state.
+ */
+export type ArvoResumableTimeoutRecord = ArvoTimerRecord & {
+  /**
+   * IDs of the service events emitted alongside the timeout. The timeout is
+   * skipped when all of them have received a response before it is due.
+   */
+  awaiting: string[];
+};
+
 /**
  * Versioned handler map for ArvoResumable workflows.
  *
@@ -247,6 +307,12 @@ export type ArvoResumableState<T extends Record<string, any>> = OrchestrationExe
    * Accessible via the `context` parameter in handlers and persisted between invocations.
    */
   state$$: T | null;
+
+  /**
+   * Active timeouts registered by the handler, by timeout name. A timeout event
+   * is only delivered to the handler while its timeout is active here.
+   */
+  timeouts?: Record<string, ArvoResumableTimeoutRecord>;
 }>;
 
 /**
@@ -302,6 +368,81 @@ export type ArvoResumableParam<
   /** OpenTelemetry span configuration for distributed tracing */
   spanOptions?: ArvoEventHandlerOtelSpanOptions;
 
+  /**
+   * Interval in milliseconds at which the subject lock is renewed while an
+   * execution is running, so that long executions do not outlive the lock TTL.
+   * Only applies when the memory implements `renewLock`. Set to `0` to disable.
+   *
+   * @default 10000
+   */
+  lockRenewalIntervalMs?: number;
+
+  /**
+   * Retry policy applied when the subject lock is held by a parallel execution.
+   * Without a policy, the lock acquisition is attempted once and a busy lock
+   * fails the execution with a `TransactionViolation` of cause `LOCK_UNACQUIRED`.
+   */
+  lockAcquisition?: LockAcquisitionPolicy;
+
+  /**
+   * Enables inbox deduplication of redelivered events. The IDs of the last
+   * `deduplicationWindow` consumed events are recorded in the persisted state.
+   * When an event with a recorded ID arrives again, the handler does not execute
+   * and instead re-emits the events it previously produced for it, if they are
+   * still retained in the state, or nothing otherwise.
+   *
+   * @default undefined - deduplication is disabled
+   */
+  deduplicationWindow?: number;
+
+  /**
+   * Enables the transactional outbox. Emitted events, including system error
+   * events, are persisted in the `outbox` of the state in the same write as the
+   * state itself, and the execution returns no events. The events are then
+   * published from the memory by an `OutboxRelay`, so that a crash between the
+   * state write and the event publication cannot lose or orphan events.
+   *
+   * @default false
+   */
+  outbox?: boolean;
+
+  /**
+   * Scheduler storing the timeouts registered by the handlers via the `timeouts`
+   * output. Required when a handler registers timeouts. The due timeouts are
+   * delivered back to the resumable by a `TimerDispatcher`.
+   */
+  timerScheduler?: ITimerScheduler;
+
+  /**
+   * Optional sink for the events which fail with a violation error, such as an
+   * unacquirable lock or a contract violation. The failed event is handed to the
+   * sink, together with the violation and the trace context, before the violation
+   * is thrown to the caller.
+   */
+  deadLetter?: IDeadLetterSink;
+
+  /**
+   * Optional append-only store recording every execution of the orchestration,
+   * with its consumed and produced events, state value and snapshot hash, after
+   * the new state has been persisted.
+   */
+  history?: IOrchestrationHistoryStore;
+
+  /**
+   * Optional middlewares applied around the execution, for cross-cutting concerns
+   * such as access control, rate limiting, payload redaction or metrics. See
+   * {@link IArvoMiddleware} for the order of the hooks.
+   */
+  middlewares?: IArvoMiddleware[];
+
+  /**
+   * Optional compensation hook invoked when the workflow receives its cancel
+   * event (see {@link createArvoCancelEvent}). It receives the workflow state and
+   * returns the compensation events to emit before the workflow reports its
+   * cancellation to the parent.
+   */
+  onCancel?: ArvoOrchestrationCancelHook<TMemory>;
+
   /**
    * Optional default domains for the events emitted
    * by the orchestrator.
@@ -383,6 +524,36 @@ export type CreateArvoResumableParam<
   /** OpenTelemetry span configuration for distributed tracing */
   spanOptions?: ArvoEventHandlerOtelSpanOptions;
 
+  /**
+   * Interval in milliseconds at which the subject lock is renewed during execution.
+   * @default 10000
+   */
+  lockRenewalIntervalMs?: number;
+
+  /** Retry policy applied when the subject lock is held by a parallel execution */
+  lockAcquisition?: LockAcquisitionPolicy;
+
+  /** Number of consumed event IDs kept to deduplicate redelivered events */
+  deduplicationWindow?: number;
+
+  /** Whether the emitted events are persisted in the state outbox instead of being returned */
+  outbox?: boolean;
+
+  /** Scheduler storing the timeouts registered by the handlers */
+  timerScheduler?: ITimerScheduler;
+
+  /** Sink receiving the events which failed with a violation error */
+  deadLetter?: IDeadLetterSink;
+
+  /** Store recording the execution history of the workflows */
+  history?: IOrchestrationHistoryStore;
+
+  /** Middlewares applied around the execution of the workflows */
+  middlewares?: IArvoMiddleware[];
+
+  /** Compensation hook invoked when the workflow is cancelled */
+  onCancel?: ArvoOrchestrationCancelHook<TMemory>;
+
   defaultEventEmissionDomains?: ArvoResumableParam<
     TMemory,
     TSelfContract,
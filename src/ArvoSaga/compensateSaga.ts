@@ -0,0 +1,40 @@
+import type { ArvoEvent, OpenTelemetryHeaders } from 'arvo-core';
+import { v4 as uuid4 } from 'uuid';
+import { reviveArvoEvent } from '../ArvoOrchestrationUtils/reviveArvoEvent';
+import type { ArvoSagaStep } from './types';
+
+/**
+ * Creates the compensation events of the completed saga steps, in the reverse
+ * order of the steps, so that the most recent effect is undone first.
+ *
+ * The compensation events are re-issued with a new ID and time, as children of
+ * the event triggering the compensation.
+ *
+ * @returns The compensation events and the remaining steps, which are the
+ *          steps still awaiting a response from their service
+ */
+export const compensateSaga = (param: {
+  /** The saga steps of the orchestration, in emission order */
+  steps: ArvoSagaStep[];
+  /** The event triggering the compensation */
+  event: ArvoEvent;
+  otelHeaders: OpenTelemetryHeaders;
+}): { events: ArvoEvent[]; steps: ArvoSagaStep[] } => {
+  const events: ArvoEvent[] = [];
+  for (const step of [...param.steps].reverse()) {
+    if (step.status !== 'completed') continue;
+    for (const compensation of step.compensation) {
+      events.push(
+        reviveArvoEvent({
+          ...compensation,
+          id: uuid4(),
+          time: new Date().toISOString(),
+          parentid: param.event.id,
+          traceparent: param.otelHeaders.traceparent ?? null,
+          tracestate: param.otelHeaders.tracestate ?? null,
+        }),
+      );
+    }
+  }
+  return { events, steps: param.steps.filter((step) => step.status !== 'completed') };
+};
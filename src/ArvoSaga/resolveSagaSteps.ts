@@ -0,0 +1,89 @@
+import type { ArvoEvent, OpenTelemetryHeaders, VersionedArvoContract } from 'arvo-core';
+import { ArvoDomain } from '../ArvoDomain';
+import type { EnqueueArvoEventActionParam } from '../ArvoMachine/types';
+import { compensateSaga } from './compensateSaga';
+import type { ArvoCompensableEventParam, ArvoSagaStep } from './types';
+
+/**
+ * Finds the pending saga step answered by the consumed event. The step is
+ * matched by the `parentid` of the event, falling back to the oldest pending
+ * step of the responding service.
+ */
+const findAnsweredStep = (
+  steps: ArvoSagaStep[],
+  event: ArvoEvent,
+  serviceContracts: Record<string, VersionedArvoContract<any, any>>,
+): { step: ArvoSagaStep; failed: boolean } | null => {
+  const responds = (step: ArvoSagaStep) =>
+    Object.values(serviceContracts).find(
+      (contract) =>
+        contract.accepts.type === step.eventType &&
+        (event.type in contract.emits || event.type === contract.systemError.type),
+    );
+  const pending = steps.filter((step) => step.status === 'pending');
+  const step =
+    pending.find((item) => event.parentid && item.eventId === event.parentid && responds(item)) ??
+    pending.find((item) => responds(item));
+  if (!step) return null;
+  return { step, failed: event.type === responds(step)?.systemError.type };
+};
+
+/**
+ * Applies an execution to the saga steps of the orchestration.
+ *
+ * The step answered by the consumed event is completed, or dropped when its
+ * service responded with a system error, since a failed step has no effect to
+ * undo. When requested, the completed steps are then compensated. Finally a step
+ * is recorded for each emitted service event carrying a compensation. A done
+ * orchestration keeps no steps.
+ *
+ * @returns The saga steps after the execution and the compensation events to emit
+ */
+export const resolveSagaSteps = (param: {
+  /** The saga steps of the orchestration before the execution */
+  steps: ArvoSagaStep[];
+  /** The event consumed by the execution */
+  event: ArvoEvent;
+  serviceContracts: Record<string, VersionedArvoContract<any, any>>;
+  /** The raw events emitted by the execution, in the order of the emittables */
+  rawEvents: ArvoCompensableEventParam[];
+  /** The emittables created from the raw events */
+  emittables: ArvoEvent[];
+  /** Creates and validates the emittables of a compensation event */
+  createCompensation: (compensation: EnqueueArvoEventActionParam) => ArvoEvent[];
+  /** Whether the execution requested the compensation of the saga */
+  compensate: boolean;
+  /** Whether the orchestration has reached a final state */
+  done: boolean;
+  otelHeaders: OpenTelemetryHeaders;
+}): { steps: ArvoSagaStep[]; compensations: ArvoEvent[] } => {
+  let steps = param.steps.map((step) => ({ ...step }));
+
+  const answered = findAnsweredStep(steps, param.event, param.serviceContracts);
+  if (answered?.failed) {
+    steps = steps.filter((step) => step !== answered.step);
+  } else if (answered) {
+    answered.step.status = 'completed';
+  }
+
+  let compensations: ArvoEvent[] = [];
+  if (param.compensate) {
+    ({ events: compensations, steps } = compensateSaga({ steps, event: param.event, otelHeaders: param.otelHeaders }));
+  }
+
+  // Each raw event is emitted once per distinct domain
+  let offset = 0;
+  for (const item of param.rawEvents) {
+    const emitted = param.emittables.slice(offset, offset + new Set(item.domain ?? [ArvoDomain.LOCAL]).size);
+    offset += emitted.length;
+    if (!item.compensation || !emitted.length) continue;
+    steps.push({
+      eventId: emitted[0].id,
+      eventType: emitted[0].type,
+      status: 'pending',
+      compensation: param.createCompensation(item.compensation).map((event) => event.toJSON()),
+    });
+  }
+
+  return { steps: param.done ? [] : steps, compensations };
+};
@@ -0,0 +1,36 @@
+import type { ArvoEvent, InferArvoEvent } from 'arvo-core';
+import type { EnqueueArvoEventActionParam } from '../ArvoMachine/types';
+
+/**
+ * A service event emitted along with the compensation event which undoes its effect.
+ */
+export type ArvoCompensableEventParam<TEvent extends EnqueueArvoEventActionParam = EnqueueArvoEventActionParam> =
+  TEvent & {
+    /**
+     * The service event undoing the effect of this event, e.g. a refund for a
+     * payment. It is emitted when the saga is compensated after the service has
+     * responded successfully to this event.
+     */
+    compensation?: TEvent;
+  };
+
+/**
+ * A step of an orchestration saga. A step is recorded for each emitted service
+ * event carrying a compensation, and persisted in the `saga` field of the state.
+ */
+export type ArvoSagaStep = {
+  /** ID of the forward service event */
+  eventId: string;
+  /** Type of the forward service event */
+  eventType: string;
+  /**
+   * `'pending'` until the service responds successfully to the forward event.
+   * Only completed steps are compensated.
+   */
+  status: 'pending' | 'completed';
+  /**
+   * The compensation events, created and validated against the service contract
+   * along with the forward event. They are re-issued with a new ID when emitted.
+   */
+  compensation: InferArvoEvent<ArvoEvent>[];
+};
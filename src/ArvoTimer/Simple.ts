@@ -0,0 +1,66 @@
+import type { ITimerScheduler } from './interface';
+import type { ArvoTimerRecord } from './types';
+
+/**
+ * In-memory implementation of the timer scheduler for single-instance NodeJS apps.
+ *
+ * Best for: Container apps, testing, demos
+ * Not for: Multi-instance deployments, timers which must survive a restart
+ *
+ * @example
+ * const timerScheduler = new SimpleTimerScheduler();
+ * const orchestrator = createArvoOrchestrator({
+ *   memory: new SimpleMachineMemory(),
+ *   executionunits: 1,
+ *   machines: [workflow],
+ *   timerScheduler,
+ * });
+ */
+export class SimpleTimerScheduler implements ITimerScheduler {
+  private readonly timerMap: Map<string, ArvoTimerRecord> = new Map();
+
+  /**
+   * Stores a timer, replacing any timer with the same ID
+   * @param timer Timer to store
+   * @throws {Error} When timer ID is empty
+   */
+  async schedule(timer: ArvoTimerRecord): Promise<void> {
+    if (!timer.timerId) {
+      throw new Error('Timer ID is required for schedule operation');
+    }
+    this.timerMap.set(timer.timerId, { ...timer });
+  }
+
+  /**
+   * Removes a timer
+   * @param timerId Timer ID
+   * @throws {Error} When timer ID is empty
+   */
+  async cancel(timerId: string): Promise<void> {
+    if (!timerId) {
+      throw new Error('Timer ID is required for cancel operation');
+    }
+    this.timerMap.delete(timerId);
+  }
+
+  /**
+   * Lists the timers due at the given time, earliest first
+   * @param now Epoch time in milliseconds
+   * @param limit Maximum number of timers to return
+   * @returns The due timers
+   */
+  async due(now: number, limit?: number): Promise<ArvoTimerRecord[]> {
+    return Array.from(this.timerMap.values())
+      .filter((item) => item.dueAt <= now)
+      .sort((a, b) => a.dueAt - b.dueAt)
+      .slice(0, limit ?? Number.POSITIVE_INFINITY)
+      .map((item) => ({ ...item }));
+  }
+
+  /**
+   * Clears all the scheduled timers
+   */
+  clear(): void {
+    this.timerMap.clear();
+  }
+}
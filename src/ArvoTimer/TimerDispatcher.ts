@@ -0,0 +1,73 @@
+import { type ArvoEvent, logToSpan } from 'arvo-core';
+import { createArvoTimerEvent } from './event';
+import type { ITimerScheduler } from './interface';
+import type { TimerDispatcherParam } from './types';
+
+/**
+ * Delivers the due timers of the orchestrators as `arvo.timer.due` events.
+ *
+ * The orchestrators record the timers requested by their machines in the
+ * scheduler. The dispatcher reads the due timers, publishes a timer event
+ * addressed to the orchestration subject for each of them and removes the
+ * published timers from the scheduler. Call {@link TimerDispatcher.dispatch}
+ * periodically, for example from an interval or a cron job.
+ *
+ * Delivery is at-least-once. A timer which was cancelled or replaced after it
+ * was published is ignored by the orchestrator, so duplicate and stale timer
+ * events never reach the machine.
+ *
+ * @example
+ * ```typescript
+ * const timerScheduler = new SimpleTimerScheduler();
+ * const dispatcher = new TimerDispatcher({
+ *   scheduler: timerScheduler,
+ *   publisher: async (event) => await broker.publish(event),
+ * });
+ *
+ * setInterval(() => dispatcher.dispatch(), 1000);
+ * ```
+ */
+export class TimerDispatcher {
+  /** The scheduler holding the timers of the orchestrators */
+  readonly scheduler: ITimerScheduler;
+  /** Publisher through which the timer events are delivered */
+  readonly publisher: TimerDispatcherParam['publisher'];
+  /** The source of the emitted timer events */
+  readonly source: string;
+
+  constructor(param: TimerDispatcherParam) {
+    this.scheduler = param.scheduler;
+    this.publisher = param.publisher;
+    this.source = param.source ?? 'arvo.timer.dispatcher';
+  }
+
+  /**
+   * Publishes the timers due at the given time and removes them from the scheduler.
+   *
+   * When the publisher fails, the error is rethrown and the unpublished timers
+   * remain in the scheduler for the next dispatch.
+   *
+   * @param now - Epoch time in milliseconds, defaults to the current time
+   * @param limit - Maximum number of timers to dispatch
+   * @returns The published timer events, earliest due first
+   *
+   * @throws The publisher or scheduler error
+   */
+  async dispatch(now: number = Date.now(), limit?: number): Promise<ArvoEvent[]> {
+    const timers = await this.scheduler.due(now, limit);
+    const published: ArvoEvent[] = [];
+    for (const timer of timers) {
+      const event = createArvoTimerEvent(timer, this.source);
+      await this.publisher(event);
+      await this.scheduler.cancel(timer.timerId);
+      published.push(event);
+    }
+    if (published.length) {
+      logToSpan({
+        level: 'INFO',
+        message: `Dispatched ${published.length} due timers`,
+      });
+    }
+    return published;
+  }
+}
@@ -0,0 +1,55 @@
+import type { Span } from '@opentelemetry/api';
+import { logToSpan } from 'arvo-core';
+import { ConfigViolation } from '../errors';
+import type { ITimerScheduler } from './interface';
+import type { ArvoTimerUpdates } from './types';
+
+type ApplyTimerUpdatesParam = ArvoTimerUpdates & {
+  /** The scheduler of the handler, null when not configured */
+  scheduler: ITimerScheduler | null;
+  /** The source of the handler requesting the timers */
+  handler: string;
+};
+
+/**
+ * Checks that a timer scheduler is configured when an execution changes timers.
+ * Called before the state of the execution is persisted, so that a misconfigured
+ * handler fails the execution instead of persisting timers which are never due.
+ *
+ * @throws {ConfigViolation} When there are timer changes but no scheduler is configured
+ */
+export const validateTimerUpdates = (param: ApplyTimerUpdatesParam): void => {
+  if (!param.scheduled.length && !param.cancelled.length) return;
+  if (!param.scheduler) {
+    throw new ConfigViolation(
+      `Timer scheduling failed - Handler '${param.handler}' uses timers but has no timer scheduler configured`,
+    );
+  }
+};
+
+/**
+ * Applies the timer changes of an execution to the timer scheduler. The
+ * cancellations are applied before the schedules, so that rescheduling a
+ * timer with the same ID keeps the new timer.
+ *
+ * @throws {ConfigViolation} When there are timer changes but no scheduler is configured
+ * @throws Error when the scheduler operations fail
+ */
+export const applyTimerUpdates = async (param: ApplyTimerUpdatesParam, span: Span): Promise<void> => {
+  if (!param.scheduled.length && !param.cancelled.length) return;
+  validateTimerUpdates(param);
+  if (!param.scheduler) return;
+  for (const timerId of param.cancelled) {
+    await param.scheduler.cancel(timerId);
+  }
+  for (const timer of param.scheduled) {
+    await param.scheduler.schedule(timer);
+  }
+  logToSpan(
+    {
+      level: 'INFO',
+      message: `Timers updated - Scheduled: ${param.scheduled.length}, Cancelled: ${param.cancelled.length}`,
+    },
+    span,
+  );
+};
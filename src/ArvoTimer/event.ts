@@ -0,0 +1,48 @@
+import { type ArvoEvent, createArvoEvent } from 'arvo-core';
+import { z } from 'zod';
+import type { ArvoTimerEventData, ArvoTimerRecord } from './types';
+
+/**
+ * The event type of the timer events delivered to the orchestrators.
+ */
+export const ArvoTimerEventType = 'arvo.timer.due' as const;
+
+/**
+ * The event type of the timeout events delivered to the resumables. Their
+ * dataschema references the versioned self contract of the resumable. The
+ * `.due` suffix makes it a valid reverse-DNS event type.
+ */
+export const ArvoTimeoutEventType = 'arvo.timeout.due' as const;
+
+/**
+ * Schema of the data of the timer and timeout events.
+ */
+export const ArvoTimerEventDataSchema = z.object({
+  timerId: z.string().min(1).describe('The ID of the scheduling of the timer'),
+  name: z.string().min(1).describe('The name of the timer'),
+  dueAt: z.number().describe('Epoch time in milliseconds at which the timer was due'),
+});
+
+/**
+ * Creates the timer event delivering a due timer to its orchestration subject.
+ * The event type is the type of the timer record, `arvo.timer.due` by default.
+ *
+ * @param timer - The due timer
+ * @param source - The source of the timer event
+ */
+export const createArvoTimerEvent = (
+  timer: ArvoTimerRecord,
+  source: string,
+): ArvoEvent<ArvoTimerEventData, Record<string, any>, string> =>
+  createArvoEvent<ArvoTimerEventData, Record<string, any>, string>({
+    source,
+    subject: timer.subject,
+    type: timer.type ?? ArvoTimerEventType,
+    to: timer.handler,
+    ...(timer.dataschema ? { dataschema: timer.dataschema } : {}),
+    data: {
+      timerId: timer.timerId,
+      name: timer.name,
+      dueAt: timer.dueAt,
+    },
+  });
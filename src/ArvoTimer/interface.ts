@@ -0,0 +1,33 @@
+import type { ArvoTimerRecord } from './types';
+
+/**
+ * Stores the scheduled timers of orchestrators until they are due.
+ *
+ * The orchestrator schedules and cancels timers while processing an event,
+ * before its new state is persisted. A timer which is in the scheduler but not
+ * in the orchestration state is stale and ignored when it fires, so the scheduler
+ * does not need to be transactional with the machine memory.
+ */
+export interface ITimerScheduler {
+  /**
+   * Stores a timer. Scheduling a timer with an existing `timerId` replaces it.
+   * @param timer - The timer to store
+   * @throws Error if the timer cannot be stored
+   */
+  schedule(timer: ArvoTimerRecord): Promise<void>;
+
+  /**
+   * Removes a timer. Removing an unknown timer is a no-op.
+   * @param timerId - The ID of the timer to remove
+   * @throws Error if the timer cannot be removed
+   */
+  cancel(timerId: string): Promise<void>;
+
+  /**
+   * Lists the timers due at the given time, earliest first.
+   * @param now - Epoch time in milliseconds
+   * @param limit - Maximum number of timers to return
+   * @returns The due timers
+   */
+  due(now: number, limit?: number): Promise<ArvoTimerRecord[]>;
+}
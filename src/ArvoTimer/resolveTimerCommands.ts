@@ -0,0 +1,74 @@
+import type { ArvoEvent } from 'arvo-core';
+import type { ArvoTimerCommand } from '../ArvoMachine/types';
+import type { ArvoTimerRecord } from './types';
+
+/**
+ * Applies the timer commands of an execution to the active timers of the orchestration.
+ *
+ * The due time of a scheduled timer is derived from the `time` of the consumed
+ * event and its ID from the consumed event ID, so that processing the same event
+ * again yields the same timers. Scheduling an active timer name replaces the
+ * active timer. When the orchestration is done, all the active timers are cancelled.
+ *
+ * @returns The active timers after the execution, the timers to schedule and the
+ *          IDs of the timers to cancel in the scheduler
+ */
+export const resolveTimerCommands = (param: {
+  /** The active timers of the orchestration before the execution, by name */
+  timers: Record<string, ArvoTimerRecord>;
+  /** The timer commands requested by the machine, in order */
+  commands: ArvoTimerCommand[];
+  /** The event consumed by the execution */
+  event: ArvoEvent;
+  /** The event type of the orchestrator handling the subject */
+  handler: string;
+  /** Whether the orchestration has reached a final state */
+  done: boolean;
+  /** The event type of the scheduled timer events, `arvo.timer.due` by default */
+  type?: string;
+  /** The dataschema of the scheduled timer events */
+  dataschema?: string;
+}): {
+  timers: Record<string, ArvoTimerRecord>;
+  scheduled: ArvoTimerRecord[];
+  cancelled: string[];
+} => {
+  const timers: Record<string, ArvoTimerRecord> = { ...param.timers };
+  const scheduled: Record<string, ArvoTimerRecord> = {};
+  const cancelled: string[] = [];
+  const cancel = (name: string) => {
+    const timer = timers[name];
+    if (!timer) return;
+    delete timers[name];
+    if (scheduled[name]?.timerId === timer.timerId) {
+      delete scheduled[name];
+      return;
+    }
+    cancelled.push(timer.timerId);
+  };
+
+  for (const command of param.commands) {
+    cancel(command.name);
+    if (command.action === 'schedule') {
+      const timer: ArvoTimerRecord = {
+        timerId: `${param.event.id}:${command.name}`,
+        name: command.name,
+        subject: param.event.subject,
+        handler: param.handler,
+        dueAt: new Date(param.event.time).getTime() + Math.max(0, command.delayMs),
+        ...(param.type ? { type: param.type } : {}),
+        ...(param.dataschema ? { dataschema: param.dataschema } : {}),
+      };
+      timers[command.name] = timer;
+      scheduled[command.name] = timer;
+    }
+  }
+
+  if (param.done) {
+    for (const name of Object.keys(timers)) {
+      cancel(name);
+    }
+  }
+
+  return { timers, scheduled: Object.values(scheduled), cancelled };
+};
@@ -0,0 +1,65 @@
+import type { ArvoEvent } from 'arvo-core';
+import type { ITimerScheduler } from './interface';
+
+/**
+ * A scheduled timer, as persisted by the orchestrator state and the timer scheduler.
+ */
+export type ArvoTimerRecord = {
+  /**
+   * Unique identifier of this scheduling of the timer. Derived from the ID of the
+   * event which scheduled it, so that a redelivered event schedules the same timer.
+   */
+  timerId: string;
+  /** The name of the timer, unique within the orchestration */
+  name: string;
+  /** The orchestration subject to which the timer event is delivered */
+  subject: string;
+  /** The event type of the orchestrator handling the subject, used as the timer event `to` */
+  handler: string;
+  /** Epoch time in milliseconds at which the timer is due */
+  dueAt: number;
+  /**
+   * The event type of the timer event.
+   * @default 'arvo.timer.due'
+   */
+  type?: string;
+  /**
+   * The dataschema of the timer event, referencing the versioned contract
+   * against which the handler validates it.
+   */
+  dataschema?: string;
+};
+
+/**
+ * The timer changes of an execution, applied to the timer scheduler once the
+ * state of the execution has been persisted.
+ */
+export type ArvoTimerUpdates = {
+  /** The timers to schedule */
+  scheduled: ArvoTimerRecord[];
+  /** The IDs of the timers to cancel */
+  cancelled: string[];
+};
+
+/**
+ * The data of an `arvo.timer.due` event.
+ */
+export type ArvoTimerEventData = Pick<ArvoTimerRecord, 'timerId' | 'name' | 'dueAt'>;
+
+/**
+ * Configuration parameters for the {@link TimerDispatcher} constructor.
+ */
+export type TimerDispatcherParam = {
+  /** The scheduler holding the timers of the orchestrators */
+  scheduler: ITimerScheduler;
+  /**
+   * Publishes a timer event to the event broker. The returned promise must only
+   * resolve once the broker has accepted the event, and reject otherwise.
+   */
+  publisher: (event: ArvoEvent) => Promise<void>;
+  /**
+   * The source of the emitted timer events.
+   * @default 'arvo.timer.dispatcher'
+   */
+  source?: string;
+};
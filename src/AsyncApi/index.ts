@@ -0,0 +1,152 @@
+import type { VersionedArvoContract } from 'arvo-core';
+import type ArvoEventHandler from '../ArvoEventHandler';
+import type { ArvoOrchestrator } from '../ArvoOrchestrator';
+import { describeEventTopologyHandler } from '../EventTopology/graph';
+import type { AsyncApiDocument, GenerateAsyncApiDocumentParam } from './types';
+
+/**
+ * Converts a name into an identifier of an AsyncAPI component.
+ */
+const toAsyncApiId = (name: string): string => name.replace(/[^A-Za-z0-9._-]/g, '_');
+
+/**
+ * Generates an AsyncAPI 3.0 document describing the events of a set of handlers.
+ *
+ * The document is derived from the contracts of the handlers in all their
+ * versions, along with the service contracts used by every version of the
+ * orchestrators and resumables:
+ * - Every event type is a channel, whose messages are the versions of the
+ *   contracts declaring it. The payload of a message is the JSON Schema of the
+ *   event data, converted from the zod schema of the contract.
+ * - Every handler has a `receive` operation for each event type it consumes and
+ *   a `send` operation for each event type it emits, including its system errors.
+ *   Orchestrators and resumables also send the commands of their services and
+ *   receive their responses and system errors.
+ * - The default domains of the sent events, configured via the
+ *   `defaultEventEmissionDomains` of the handlers, are recorded in the
+ *   `x-arvo-domains` extension of the send operations, and the domains of the
+ *   contracts in the `x-arvo-contract-domain` extension of the messages.
+ *
+ * When several contracts declare the same event type in the same version, the
+ * message of the first one is kept. See `analyzeEventTopology` to detect such
+ * mismatches.
+ *
+ * @param param - The handlers and the general information of the service
+ * @returns The AsyncAPI document, to be serialized as JSON or YAML
+ *
+ * @example
+ * ```typescript
+ * const document = generateAsyncApiDocument({
+ *   info: { title: 'Checkout Service', version: '1.0.0' },
+ *   handlers: [checkoutOrchestrator, paymentHandler],
+ * });
+ * fs.writeFileSync('asyncapi.json', JSON.stringify(document, null, 2));
+ * ```
+ */
+export const generateAsyncApiDocument = ({
+  handlers,
+  info,
+  defaultContentType = 'application/cloudevents+json',
+}: GenerateAsyncApiDocumentParam): AsyncApiDocument => {
+  const document: AsyncApiDocument = {
+    asyncapi: '3.0.0',
+    info,
+    defaultContentType,
+    channels: {},
+    operations: {},
+    components: { messages: {} },
+  };
+
+  const addOperation = (param: {
+    source: string;
+    action: 'send' | 'receive';
+    type: string;
+    contract: VersionedArvoContract<any, any>;
+    payload: Record<string, unknown>;
+    domains?: (string | null)[];
+  }) => {
+    const channelId = toAsyncApiId(param.type);
+    const messageId = toAsyncApiId(`${param.type}.${param.contract.version}`);
+    document.channels[channelId] = document.channels[channelId] ?? { address: param.type, messages: {} };
+    document.channels[channelId].messages[messageId] = { $ref: `#/components/messages/${messageId}` };
+    document.components.messages[messageId] = document.components.messages[messageId] ?? {
+      name: param.type,
+      title: `${param.type} (${param.contract.version})`,
+      contentType: defaultContentType,
+      payload: param.payload,
+      'x-arvo-dataschema': `${param.contract.uri}/${param.contract.version}`,
+      'x-arvo-contract-domain': param.contract.domain ?? null,
+    };
+
+    const operationId = toAsyncApiId(`${param.source}.${param.action}.${param.type}`);
+    const operation = document.operations[operationId] ?? {
+      action: param.action,
+      channel: { $ref: `#/channels/${channelId}` },
+      messages: [],
+      'x-arvo-source': param.source,
+      ...(param.domains ? { 'x-arvo-domains': [...param.domains] } : {}),
+    };
+    const messageRef = `#/channels/${channelId}/messages/${messageId}`;
+    if (!operation.messages.some((item) => item.$ref === messageRef)) {
+      operation.messages.push({ $ref: messageRef });
+    }
+    document.operations[operationId] = operation;
+  };
+
+  for (const handler of handlers) {
+    const { source, kind, contracts, workflows } = describeEventTopologyHandler(handler);
+    const domains =
+      kind === 'handler'
+        ? {
+            emits: (handler as ArvoEventHandler<any>).defaultEventEmissionDomains.emits,
+            systemError: (handler as ArvoEventHandler<any>).defaultEventEmissionDomains.systemError,
+          }
+        : {
+            emits: (handler as ArvoOrchestrator).defaultEventEmissionDomains.complete,
+            systemError: (handler as ArvoOrchestrator).defaultEventEmissionDomains.systemError,
+            services: (handler as ArvoOrchestrator).defaultEventEmissionDomains.services,
+          };
+
+    for (const contract of contracts) {
+      const schema = contract.toJsonSchema();
+      addOperation({ source, action: 'receive', type: schema.accepts.type, contract, payload: schema.accepts.schema });
+      for (const item of schema.emits) {
+        addOperation({
+          source,
+          action: 'send',
+          type: item.type,
+          contract,
+          payload: item.schema,
+          domains: domains.emits,
+        });
+      }
+      addOperation({
+        source,
+        action: 'send',
+        type: schema.systemError.type,
+        contract,
+        payload: schema.systemError.schema,
+        domains: domains.systemError,
+      });
+    }
+
+    for (const workflow of workflows) {
+      for (const service of workflow.services) {
+        const schema = service.toJsonSchema();
+        addOperation({
+          source,
+          action: 'send',
+          type: schema.accepts.type,
+          contract: service,
+          payload: schema.accepts.schema,
+          domains: domains.services,
+        });
+        for (const item of [...schema.emits, schema.systemError]) {
+          addOperation({ source, action: 'receive', type: item.type, contract: service, payload: item.schema });
+        }
+      }
+    }
+  }
+
+  return document;
+};
@@ -0,0 +1,84 @@
+import type { EventTopologyHandler } from '../EventTopology/types';
+
+/**
+ * Configuration parameters for {@link generateAsyncApiDocument}.
+ */
+export type GenerateAsyncApiDocumentParam = {
+  /** The handlers, orchestrators and resumables of the documented service */
+  handlers: EventTopologyHandler[];
+  /** The general information of the service */
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  /**
+   * The content type of the messages
+   *
+   * @default 'application/cloudevents+json'
+   */
+  defaultContentType?: string;
+};
+
+/** A reference to a component of an AsyncAPI document */
+export type AsyncApiReference = {
+  $ref: string;
+};
+
+/**
+ * A channel of an AsyncAPI document. Every event type is a channel, whose
+ * messages are the versions of the contracts declaring the event type.
+ */
+export type AsyncApiChannel = {
+  /** The event type */
+  address: string;
+  messages: Record<string, AsyncApiReference>;
+};
+
+/**
+ * A message of an AsyncAPI document, describing an event type in a version of
+ * its contract. The payload is the JSON Schema of the event data.
+ */
+export type AsyncApiMessage = {
+  /** The event type */
+  name: string;
+  title: string;
+  contentType: string;
+  payload: Record<string, unknown>;
+  /** The `dataschema` of the events, i.e. the contract URI and version */
+  'x-arvo-dataschema': string;
+  /** The domain of the contract declaring the event */
+  'x-arvo-contract-domain': string | null;
+};
+
+/**
+ * An operation of an AsyncAPI document, i.e. a handler receiving or sending the
+ * events of a channel.
+ */
+export type AsyncApiOperation = {
+  action: 'send' | 'receive';
+  channel: AsyncApiReference;
+  messages: AsyncApiReference[];
+  /** The source of the handler performing the operation */
+  'x-arvo-source': string;
+  /**
+   * The default domains of the sent events, as configured in the
+   * `defaultEventEmissionDomains` of the handler. The symbolic `ArvoDomain`
+   * values are kept as they are, since they are resolved per event.
+   */
+  'x-arvo-domains'?: (string | null)[];
+};
+
+/**
+ * An AsyncAPI 3.0 document.
+ */
+export type AsyncApiDocument = {
+  asyncapi: '3.0.0';
+  info: GenerateAsyncApiDocumentParam['info'];
+  defaultContentType: string;
+  channels: Record<string, AsyncApiChannel>;
+  operations: Record<string, AsyncApiOperation>;
+  components: {
+    messages: Record<string, AsyncApiMessage>;
+  };
+};
@@ -0,0 +1,122 @@
+import type { ArvoEvent } from 'arvo-core';
+import { reviveArvoEvent } from '../ArvoOrchestrationUtils/reviveArvoEvent';
+import type IArvoEventHandler from '../IArvoEventHandler';
+import type { ArvoEventHandlerOpenTelemetryOptions } from '../types';
+import type { IDeadLetterSink } from './interface';
+import type { DeadLetter, DeadLetterEntry, DeadLetterQueueFilter } from './types';
+
+/**
+ * In-memory dead-letter queue for single-instance NodeJS apps.
+ *
+ * Repeated failures of the same event in the same handler are collected into
+ * one entry, identified by `<handler source>:<event id>`, whose `attempt`
+ * counts the failures. Failed events can be inspected and replayed into a
+ * handler once the cause of the violation has been resolved.
+ *
+ * Best for: Container apps, testing, demos
+ * Not for: Multi-instance deployments, dead letters which must survive a restart
+ *
+ * @example
+ * const deadLetter = new SimpleDeadLetterQueue();
+ * const handler = createArvoEventHandler({ contract, executionunits: 0, handler: {...}, deadLetter });
+ *
+ * await handler.execute(event).catch(() => {});
+ * for (const entry of deadLetter.list({ handler: handler.source })) {
+ *   await deadLetter.replay(entry.id, handler);
+ * }
+ */
+export class SimpleDeadLetterQueue implements IDeadLetterSink {
+  private readonly entryMap: Map<string, DeadLetterEntry> = new Map();
+
+  /**
+   * Records a failed event, replacing an existing entry for the same event
+   * and handler while keeping the time of its first failure
+   * @param letter The failed event
+   */
+  async send(letter: DeadLetter): Promise<void> {
+    const id = `${letter.handler.source}:${letter.event.id}`;
+    const existing = this.entryMap.get(id);
+    this.entryMap.set(id, {
+      ...letter,
+      id,
+      firstDeadLetteredAt: existing?.firstDeadLetteredAt ?? letter.deadLetteredAt,
+    });
+  }
+
+  /**
+   * Counts the dead letters recorded for an event in a handler
+   * @param param The handler source and the event ID
+   * @returns The attempt of the existing entry, or 0 if there is none
+   */
+  async attempts(param: { source: string; eventId: string }): Promise<number> {
+    return this.entryMap.get(`${param.source}:${param.eventId}`)?.attempt ?? 0;
+  }
+
+  /**
+   * Lists the dead letters, oldest first
+   * @param filter Optional handler source and violation type to filter by
+   * @returns The matching entries
+   */
+  list(filter?: DeadLetterQueueFilter): DeadLetterEntry[] {
+    return Array.from(this.entryMap.values())
+      .filter(
+        (item) =>
+          (!filter?.handler || item.handler.source === filter.handler) &&
+          (!filter?.violationType || item.violation.type === filter.violationType),
+      )
+      .map((item) => ({ ...item }));
+  }
+
+  /**
+   * Reads a dead letter
+   * @param id Entry ID
+   * @returns The entry or null if not found
+   */
+  get(id: string): DeadLetterEntry | null {
+    const entry = this.entryMap.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  /**
+   * Removes a dead letter
+   * @param id Entry ID
+   * @returns Whether the entry existed
+   */
+  remove(id: string): boolean {
+    return this.entryMap.delete(id);
+  }
+
+  /**
+   * Re-executes a dead-lettered event on a handler and removes the entry on success.
+   *
+   * When the replay fails, the entry remains in the queue and the error is rethrown.
+   * A handler configured with this queue as its dead-letter sink records the failed
+   * replay as a further attempt.
+   *
+   * @param id Entry ID
+   * @param handler The handler to execute the event on
+   * @param opentelemetry Optional OpenTelemetry configuration for the execution
+   * @returns The events emitted by the handler
+   * @throws {Error} When the entry is not found, or the handler execution error
+   */
+  async replay(
+    id: string,
+    handler: IArvoEventHandler,
+    opentelemetry?: ArvoEventHandlerOpenTelemetryOptions,
+  ): Promise<{ events: ArvoEvent[] }> {
+    const entry = this.entryMap.get(id);
+    if (!entry) {
+      throw new Error(`Dead letter '${id}' not found`);
+    }
+    const result = await handler.execute(reviveArvoEvent(entry.event), opentelemetry);
+    this.entryMap.delete(id);
+    return result;
+  }
+
+  /**
+   * Clears all dead letters
+   */
+  clear(): void {
+    this.entryMap.clear();
+  }
+}
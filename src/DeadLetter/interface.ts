@@ -0,0 +1,25 @@
+import type { DeadLetter } from './types';
+
+/**
+ * Destination for the events which failed the execution of a handler with a
+ * violation error, such as a dead-letter topic on the event broker or a database table.
+ */
+export interface IDeadLetterSink {
+  /**
+   * Records a failed event. The handler rethrows the original violation after
+   * this call, regardless of whether the sink succeeded.
+   *
+   * @param letter - The failed event with its handler, violation and trace context
+   */
+  send(letter: DeadLetter): Promise<void>;
+
+  /**
+   * Counts the failures of an event in a handler which the sink has already
+   * recorded. The handler derives the `attempt` of the next dead letter from
+   * it. Without this lookup, every dead letter is sent as the first attempt.
+   *
+   * @param param - The source identifier of the handler and the ID of the failed event
+   * @returns The number of dead letters recorded for the event in the handler
+   */
+  attempts?(param: { source: string; eventId: string }): Promise<number>;
+}
@@ -0,0 +1,61 @@
+import type { Span } from '@opentelemetry/api';
+import { type ArvoEvent, type ViolationError, logToSpan } from 'arvo-core';
+import { type TransactionViolation, isTransactionViolationError } from '../ArvoOrchestrationUtils/error';
+import type { ArvoOrchestrationHandlerType } from '../ArvoOrchestrationUtils/types';
+import type { IDeadLetterSink } from './interface';
+
+/**
+ * Hands an event which failed with a violation error to the dead-letter sink.
+ *
+ * The attempt of the dead letter is derived from the failures the sink has already
+ * recorded for the event, when the sink implements the `attempts` lookup.
+ *
+ * A failing sink is logged on the span and never masks the violation, which the
+ * caller rethrows after this function resolves.
+ */
+export const sendToDeadLetter = async (
+  param: {
+    sink: IDeadLetterSink;
+    event: ArvoEvent;
+    error: ViolationError;
+    source: string;
+    handlerType: ArvoOrchestrationHandlerType;
+  },
+  span: Span,
+): Promise<void> => {
+  const { traceId, spanId } = span.spanContext();
+  try {
+    const previousAttempts = (await param.sink.attempts?.({ source: param.source, eventId: param.event.id })) ?? 0;
+    await param.sink.send({
+      event: param.event.toJSON(),
+      handler: {
+        source: param.source,
+        type: param.handlerType,
+      },
+      violation: {
+        type: param.error.type,
+        cause: isTransactionViolationError(param.error) ? (param.error as TransactionViolation).cause : null,
+        message: param.error.message,
+      },
+      spanContext: { traceId, spanId },
+      deadLetteredAt: new Date().toISOString(),
+      attempt: previousAttempts + 1,
+    });
+    span.setAttribute('arvo.handler.execution.deadlettered', true);
+    logToSpan(
+      {
+        level: 'WARNING',
+        message: `Event id: ${param.event.id} sent to the dead-letter sink due to ${param.error.type} violation (attempt ${previousAttempts + 1})`,
+      },
+      span,
+    );
+  } catch (e) {
+    logToSpan(
+      {
+        level: 'CRITICAL',
+        message: `Failed to send event id: ${param.event.id} to the dead-letter sink - ${(e as Error)?.message}`,
+      },
+      span,
+    );
+  }
+};
@@ -0,0 +1,63 @@
+import type { ArvoEvent, InferArvoEvent } from 'arvo-core';
+import type { ArvoOrchestrationHandlerType } from '../ArvoOrchestrationUtils/types';
+
+/**
+ * An event which could not be processed by a handler due to a violation error.
+ *
+ * Violations are not converted into system error events. They are thrown to the
+ * caller of `.execute`, and a handler configured with a dead-letter sink hands
+ * the failed event to the sink before rethrowing the violation.
+ */
+export type DeadLetter = {
+  /** The event which failed the execution */
+  event: InferArvoEvent<ArvoEvent>;
+  /** The handler which failed to process the event */
+  handler: {
+    /** The source identifier of the handler */
+    source: string;
+    /** The type of the handler */
+    type: ArvoOrchestrationHandlerType;
+  };
+  /** The violation which failed the execution */
+  violation: {
+    /** The violation type, e.g. `'Contract'`, `'Config'`, `'Execution'` or `'OrchestratorTransaction'` */
+    type: string;
+    /** The transaction violation cause, e.g. `'LOCK_UNACQUIRED'`. Null for other violations */
+    cause: string | null;
+    /** The violation error message */
+    message: string;
+  };
+  /** The OpenTelemetry context of the failed execution span */
+  spanContext: {
+    traceId: string;
+    spanId: string;
+  };
+  /** ISO timestamp of the failure */
+  deadLetteredAt: string;
+  /**
+   * Number of times the event has failed in the handler, including this failure,
+   * as counted by the `attempts` lookup of the sink
+   */
+  attempt: number;
+};
+
+/**
+ * A dead letter held by the {@link SimpleDeadLetterQueue}. Repeated failures of
+ * the same event in the same handler are collected into one entry.
+ */
+export type DeadLetterEntry = DeadLetter & {
+  /** Unique identifier of the entry in the queue */
+  id: string;
+  /** ISO timestamp of the first failure */
+  firstDeadLetteredAt: string;
+};
+
+/**
+ * Filter for listing the entries of the {@link SimpleDeadLetterQueue}.
+ */
+export type DeadLetterQueueFilter = {
+  /** Only list the entries of the handler with this source */
+  handler?: string;
+  /** Only list the entries with this violation type */
+  violationType?: string;
+};
@@ -0,0 +1,141 @@
+import type { ArvoContract, ArvoSemanticVersion, VersionedArvoContract } from 'arvo-core';
+import ArvoEventHandler from '../ArvoEventHandler';
+import { ArvoOrchestrator } from '../ArvoOrchestrator';
+import type { EventTopologyEdge, EventTopologyGraph, EventTopologyHandler, EventTopologyNode } from './types';
+
+type AnyVersionedContract = VersionedArvoContract<ArvoContract, ArvoSemanticVersion>;
+
+/**
+ * A handler of the topology along with the versioned contracts it implements
+ * and, for workflows, the service contracts used by each version.
+ */
+export type EventTopologyParticipant = EventTopologyNode & {
+  contracts: AnyVersionedContract[];
+  workflows: {
+    version: ArvoSemanticVersion;
+    services: AnyVersionedContract[];
+  }[];
+};
+
+/**
+ * Resolves the kind, the implemented contracts and the used services of a handler.
+ */
+export const describeEventTopologyHandler = (handler: EventTopologyHandler): EventTopologyParticipant => {
+  if (handler instanceof ArvoEventHandler) {
+    const contracts = (Object.keys(handler.contract.versions) as ArvoSemanticVersion[]).map(
+      (version) => handler.contract.version(version) as AnyVersionedContract,
+    );
+    return {
+      source: handler.source,
+      kind: 'handler',
+      versions: contracts.map((item) => item.version),
+      contracts,
+      workflows: [],
+    };
+  }
+  if (handler instanceof ArvoOrchestrator) {
+    const machines = handler.registry.machines;
+    return {
+      source: handler.source,
+      kind: 'orchestrator',
+      versions: machines.map((machine) => machine.version as ArvoSemanticVersion),
+      contracts: machines.map((machine) => machine.contracts.self as AnyVersionedContract),
+      workflows: machines.map((machine) => ({
+        version: machine.version as ArvoSemanticVersion,
+        services: Object.values(machine.contracts.services) as AnyVersionedContract[],
+      })),
+    };
+  }
+  const contracts = (Object.keys(handler.contracts.self.versions) as ArvoSemanticVersion[]).map(
+    (version) => handler.contracts.self.version(version) as AnyVersionedContract,
+  );
+  return {
+    source: handler.source,
+    kind: 'resumable',
+    versions: contracts.map((item) => item.version),
+    contracts,
+    workflows: contracts.map((item) => ({
+      version: item.version,
+      services: Object.values(handler.contracts.services) as AnyVersionedContract[],
+    })),
+  };
+};
+
+/**
+ * Builds the event topology of the described handlers from their contracts.
+ *
+ * Every workflow version contributes a `command` edge to each of its services,
+ * and a `response` and a `systemError` edge from each of its services for the
+ * events the service contract emits. Every event handler contributes an
+ * `emission` edge for each event type it emits which is the source of one of
+ * the handlers. The services which none of the handlers handle are added as
+ * `external` nodes. When several handlers share a source, the node of the first
+ * one is kept.
+ */
+export const buildEventTopologyGraphFromParticipants = (
+  participants: EventTopologyParticipant[],
+): EventTopologyGraph => {
+  const nodes: EventTopologyNode[] = [];
+  const edges: EventTopologyEdge[] = [];
+  const addNode = (node: EventTopologyNode) => {
+    if (!nodes.some((item) => item.source === node.source)) nodes.push(node);
+  };
+  for (const { source, kind, versions } of participants) {
+    addNode({ source, kind, versions });
+  }
+  const sources = new Set(participants.map((item) => item.source));
+  for (const { source, kind, contracts, workflows } of participants) {
+    if (kind === 'handler') {
+      for (const contract of contracts) {
+        for (const type of Object.keys(contract.emits)) {
+          if (!sources.has(type)) continue;
+          edges.push({
+            from: source,
+            to: type,
+            type,
+            kind: 'emission',
+            contract: { uri: contract.uri, version: contract.version },
+            declaredBy: { source, version: contract.version },
+          });
+        }
+      }
+    }
+    for (const workflow of workflows) {
+      const declaredBy = { source, version: workflow.version };
+      for (const service of workflow.services) {
+        const contract = { uri: service.uri, version: service.version };
+        addNode({ source: service.accepts.type, kind: 'external', versions: [] });
+        edges.push({
+          from: source,
+          to: service.accepts.type,
+          type: service.accepts.type,
+          kind: 'command',
+          contract,
+          declaredBy,
+        });
+        for (const type of Object.keys(service.emits)) {
+          edges.push({ from: service.accepts.type, to: source, type, kind: 'response', contract, declaredBy });
+        }
+        edges.push({
+          from: service.accepts.type,
+          to: source,
+          type: service.systemError.type,
+          kind: 'systemError',
+          contract,
+          declaredBy,
+        });
+      }
+    }
+  }
+  return { nodes, edges };
+};
+
+/**
+ * Builds the event topology of a set of handlers from their contracts, see
+ * {@link buildEventTopologyGraphFromParticipants}.
+ *
+ * @param handlers - The handlers of the system
+ * @returns The nodes and edges of the event topology
+ */
+export const buildEventTopologyGraph = (handlers: EventTopologyHandler[]): EventTopologyGraph =>
+  buildEventTopologyGraphFromParticipants(handlers.map(describeEventTopologyHandler));
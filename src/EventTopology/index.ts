@@ -0,0 +1,207 @@
+import type { ArvoContract, ArvoSemanticVersion, VersionedArvoContract } from 'arvo-core';
+import { stableStringify } from '../utils/object';
+import {
+  type EventTopologyParticipant,
+  buildEventTopologyGraphFromParticipants,
+  describeEventTopologyHandler,
+} from './graph';
+import type { EventTopologyAnalysis, EventTopologyDiagnostic, EventTopologyEdge, EventTopologyHandler } from './types';
+
+/**
+ * Serializes the event types and schemas of a versioned contract, so that two
+ * contracts can be compared regardless of their instances.
+ */
+const serializeContractSchemas = (contract: VersionedArvoContract<ArvoContract, ArvoSemanticVersion>) => {
+  const { accepts, systemError, emits } = contract.toJsonSchema();
+  return stableStringify({
+    accepts,
+    systemError,
+    emits: [...emits].sort((a, b) => a.type.localeCompare(b.type)),
+  });
+};
+
+/**
+ * Resolves the cycles of the emission edges between handlers, as the strongly
+ * connected components with more than one handler or with a self loop.
+ */
+const resolveEmissionCycles = (edges: EventTopologyEdge[]): string[][] => {
+  const adjacency: Record<string, string[]> = {};
+  for (const edge of edges) {
+    if (edge.kind !== 'emission') continue;
+    adjacency[edge.from] = [...(adjacency[edge.from] ?? []), edge.to];
+  }
+  const indexes: Record<string, number> = {};
+  const lowLinks: Record<string, number> = {};
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+  const visit = (source: string) => {
+    indexes[source] = counter;
+    lowLinks[source] = counter;
+    counter += 1;
+    stack.push(source);
+    for (const target of adjacency[source] ?? []) {
+      if (indexes[target] === undefined) {
+        visit(target);
+        lowLinks[source] = Math.min(lowLinks[source], lowLinks[target]);
+      } else if (stack.includes(target)) {
+        lowLinks[source] = Math.min(lowLinks[source], indexes[target]);
+      }
+    }
+    if (lowLinks[source] !== indexes[source]) return;
+    const component: string[] = [];
+    let item: string | undefined;
+    do {
+      item = stack.pop() as string;
+      component.unshift(item);
+    } while (item !== source);
+    if (component.length > 1 || (adjacency[source] ?? []).includes(source)) {
+      cycles.push(component);
+    }
+  };
+  for (const source of Object.keys(adjacency)) {
+    if (indexes[source] === undefined) visit(source);
+  }
+  return cycles;
+};
+
+/**
+ * Checks the service contracts used by the workflows against the contracts
+ * implemented by the handlers of the services.
+ */
+const analyzeServiceContracts = (
+  participants: EventTopologyParticipant[],
+  report: (diagnostic: EventTopologyDiagnostic) => void,
+) => {
+  const consumers: Record<string, EventTopologyParticipant> = {};
+  for (const participant of participants) {
+    consumers[participant.source] = consumers[participant.source] ?? participant;
+  }
+  for (const { source, workflows } of participants) {
+    for (const workflow of workflows) {
+      for (const service of workflow.services) {
+        const eventType = service.accepts.type;
+        const workflowLabel = `'${source}' (version ${workflow.version})`;
+        const consumer = consumers[eventType];
+        if (!consumer) {
+          report({
+            kind: 'orphanEvent',
+            severity: 'error',
+            sources: [source],
+            eventType,
+            message: `The event '${eventType}' emitted by ${workflowLabel} is not handled by any of the handlers`,
+          });
+          continue;
+        }
+        const implemented = consumer.contracts.filter((item) => item.uri === service.uri);
+        const contract = implemented.find((item) => item.version === service.version);
+        let message: string | null = null;
+        if (!implemented.length) {
+          message = `${workflowLabel} uses the contract '${service.uri}' for '${eventType}', but '${consumer.source}' implements the contract '${consumer.contracts[0]?.uri}'`;
+        } else if (!contract) {
+          message = `${workflowLabel} uses version ${service.version} of the contract '${service.uri}', which '${consumer.source}' does not implement. Implemented versions: ${implemented.map((item) => item.version).join(', ')}`;
+        } else if (serializeContractSchemas(contract) !== serializeContractSchemas(service)) {
+          message = `${workflowLabel} uses version ${service.version} of the contract '${service.uri}' with event types or schemas which differ from the ones implemented by '${consumer.source}'`;
+        }
+        if (message) {
+          report({
+            kind: 'versionMismatch',
+            severity: 'error',
+            sources: [source, consumer.source],
+            eventType,
+            message,
+          });
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Analyzes the event topology of a set of handlers for problems which only
+ * surface at runtime when the handlers are deployed together.
+ *
+ * The topology is derived from the contracts of the handlers: the commands each
+ * workflow version emits to its services, the responses and system errors flowing
+ * back, and the events of handlers whose type is the source of another handler.
+ * The analysis reports:
+ * - The sources which are handled by several handlers
+ * - The events which no handler consumes. A command emitted by a workflow to a
+ *   service which none of the handlers handle is an error. A response, system
+ *   error or completion event which no workflow consumes is a warning, since it
+ *   may be consumed outside of the analyzed handlers.
+ * - The service contracts used by a workflow which differ from the ones
+ *   implemented by the handler of the service: a different contract URI, a
+ *   version the handler does not implement, or different event types or schemas
+ * - The cycles of handlers emitting events to each other without an
+ *   orchestrator or resumable in between
+ *
+ * @param handlers - The handlers of the system
+ * @returns The event topology and the problems found in it
+ *
+ * @example
+ * ```typescript
+ * it('should have a consistent event topology', () => {
+ *   const { diagnostics } = analyzeEventTopology([checkoutOrchestrator, paymentHandler, shippingResumable]);
+ *   expect(diagnostics.filter((item) => item.severity === 'error')).toEqual([]);
+ * });
+ * ```
+ */
+export const analyzeEventTopology = (handlers: EventTopologyHandler[]): EventTopologyAnalysis => {
+  const participants = handlers.map(describeEventTopologyHandler);
+  const graph = buildEventTopologyGraphFromParticipants(participants);
+  const diagnostics: EventTopologyDiagnostic[] = [];
+  const reported = new Set<string>();
+  const report = (diagnostic: EventTopologyDiagnostic) => {
+    const key = stableStringify([diagnostic.kind, diagnostic.message]);
+    if (reported.has(key)) return;
+    reported.add(key);
+    diagnostics.push(diagnostic);
+  };
+
+  const counts: Record<string, number> = {};
+  for (const { source } of participants) {
+    counts[source] = (counts[source] ?? 0) + 1;
+  }
+  for (const [source, count] of Object.entries(counts)) {
+    if (count < 2) continue;
+    report({
+      kind: 'duplicateSource',
+      severity: 'error',
+      sources: [source],
+      eventType: source,
+      message: `The source '${source}' is handled by ${count} handlers`,
+    });
+  }
+
+  analyzeServiceContracts(participants, report);
+
+  const consumed = new Set(
+    graph.edges.filter((item) => item.kind !== 'command').map((item) => stableStringify([item.from, item.type])),
+  );
+  for (const { source, contracts } of participants) {
+    for (const contract of contracts) {
+      for (const eventType of [...Object.keys(contract.emits), contract.systemError.type]) {
+        if (consumed.has(stableStringify([source, eventType]))) continue;
+        report({
+          kind: 'orphanEvent',
+          severity: 'warning',
+          sources: [source],
+          eventType,
+          message: `The event '${eventType}' emitted by '${source}' is not consumed by any of the handlers`,
+        });
+      }
+    }
+  }
+
+  for (const cycle of resolveEmissionCycles(graph.edges)) {
+    report({
+      kind: 'unmediatedCycle',
+      severity: 'error',
+      sources: cycle,
+      message: `The handlers ${cycle.map((item) => `'${item}'`).join(', ')} emit events to each other in a cycle without an orchestrator or resumable in between`,
+    });
+  }
+
+  return { graph, diagnostics };
+};
@@ -0,0 +1,99 @@
+import type { ArvoSemanticVersion } from 'arvo-core';
+import type ArvoEventHandler from '../ArvoEventHandler';
+import type { ArvoOrchestrator } from '../ArvoOrchestrator';
+import type { ArvoResumable } from '../ArvoResumable';
+
+/**
+ * The handlers whose contracts describe the event topology of a system.
+ */
+export type EventTopologyHandler = ArvoEventHandler<any> | ArvoOrchestrator | ArvoResumable<any, any, any>;
+
+/**
+ * A participant of the event topology, identified by its source.
+ */
+export type EventTopologyNode = {
+  /** The source of the participant, i.e. the event type it consumes */
+  source: string;
+  /**
+   * The kind of the participant. `external` denotes a service which is used
+   * by a workflow but not handled by any of the given handlers.
+   */
+  kind: 'handler' | 'orchestrator' | 'resumable' | 'external';
+  /** The contract versions implemented by the participant, empty for external services */
+  versions: ArvoSemanticVersion[];
+};
+
+/**
+ * An event flowing between two participants of the event topology, as declared
+ * by the service contract of a workflow version or the contract of a handler.
+ */
+export type EventTopologyEdge = {
+  /** The source of the participant emitting the event */
+  from: string;
+  /** The source of the participant consuming the event */
+  to: string;
+  /** The event type */
+  type: string;
+  /**
+   * The role of the event:
+   * - `command`: The workflow emits the event to the service
+   * - `response`: The service answers the workflow
+   * - `systemError`: The service reports a failure to the workflow
+   * - `emission`: A handler emits an event whose type is the source of another handler
+   */
+  kind: 'command' | 'response' | 'systemError' | 'emission';
+  /** The contract declaring the event, in the version used by the workflow or implemented by the handler */
+  contract: {
+    uri: string;
+    version: ArvoSemanticVersion;
+  };
+  /** The workflow or handler version whose contracts declare the event */
+  declaredBy: {
+    source: string;
+    version: ArvoSemanticVersion;
+  };
+};
+
+/**
+ * The event topology of a set of handlers.
+ */
+export type EventTopologyGraph = {
+  nodes: EventTopologyNode[];
+  edges: EventTopologyEdge[];
+};
+
+/**
+ * A problem found by the analysis of an event topology.
+ */
+export type EventTopologyDiagnostic = {
+  /**
+   * The kind of the problem:
+   * - `duplicateSource`: Several handlers share a source, so an event type has several competing consumers
+   * - `orphanEvent`: An emitted event type is not consumed by any of the handlers
+   * - `versionMismatch`: A workflow uses a service contract which differs from the contract implemented by the handler of the service
+   * - `unmediatedCycle`: Handlers emit events to each other in a cycle which no orchestrator or resumable mediates
+   */
+  kind: 'duplicateSource' | 'orphanEvent' | 'versionMismatch' | 'unmediatedCycle';
+  /**
+   * The severity of the problem. Events which no handler consumes are errors when
+   * a workflow emits them to a service and warnings when they are responses or
+   * completions, since those may be consumed outside of the analyzed handlers.
+   */
+  severity: 'error' | 'warning';
+  /** The sources of the participants involved */
+  sources: string[];
+  /** The event type involved, if any */
+  eventType?: string;
+  /** A human readable description of the problem */
+  message: string;
+};
+
+/**
+ * The result of the analysis of an event topology.
+ */
+export type EventTopologyAnalysis = {
+  /** The event topology of the handlers */
+  graph: EventTopologyGraph;
+  /** The problems found in the topology */
+  diagnostics: EventTopologyDiagnostic[];
+};
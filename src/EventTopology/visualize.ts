@@ -0,0 +1,82 @@
+import type { ArvoDiagramFormat } from '../types';
+import { escapeDotLabel, escapeMermaidLabel, toDiagramId } from '../utils/diagram';
+import { buildEventTopologyGraph } from './graph';
+import type { EventTopologyEdge, EventTopologyGraph, EventTopologyHandler, EventTopologyNode } from './types';
+
+/**
+ * Merges the edges declared by several workflow versions for the same event flow.
+ */
+const deduplicateEdges = (edges: EventTopologyEdge[]): EventTopologyEdge[] => {
+  const seen = new Set<string>();
+  return edges.filter((item) => {
+    const key = JSON.stringify([item.from, item.to, item.type, item.kind]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const renderMermaid = ({ nodes, edges }: EventTopologyGraph): string => {
+  const shapes: Record<EventTopologyNode['kind'], [string, string]> = {
+    handler: ['["', '"]'],
+    orchestrator: ['(["', '"])'],
+    resumable: ['(["', '"])'],
+    external: ['[/"', '"/]'],
+  };
+  const lines: string[] = ['flowchart LR'];
+  for (const node of nodes) {
+    const [open, close] = shapes[node.kind];
+    lines.push(`  ${toDiagramId(node.source)}${open}${escapeMermaidLabel(node.source)}${close}`);
+  }
+  for (const edge of deduplicateEdges(edges)) {
+    const arrow = edge.kind === 'systemError' ? '-.->' : '-->';
+    lines.push(`  ${toDiagramId(edge.from)} ${arrow}|"${escapeMermaidLabel(edge.type)}"| ${toDiagramId(edge.to)}`);
+  }
+  return lines.join('\n');
+};
+
+const renderDot = ({ nodes, edges }: EventTopologyGraph): string => {
+  const quote = (value: string) => `"${escapeDotLabel(value)}"`;
+  const shapes: Record<EventTopologyNode['kind'], string> = {
+    handler: 'shape=box',
+    orchestrator: 'shape=box, style=rounded',
+    resumable: 'shape=box, style=rounded',
+    external: 'shape=box, style=dashed',
+  };
+  const lines: string[] = ['digraph "event-topology" {', '  rankdir=LR;'];
+  for (const node of nodes) {
+    lines.push(`  ${quote(node.source)} [${shapes[node.kind]}];`);
+  }
+  for (const edge of deduplicateEdges(edges)) {
+    const style = edge.kind === 'systemError' ? ', style=dashed' : '';
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(edge.type)}${style}];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+};
+
+/**
+ * Renders the event flow between a set of handlers as a diagram.
+ *
+ * The diagram shows the handlers, orchestrators and resumables as nodes, and
+ * the commands which the workflows emit to their services along with the
+ * responses and system errors flowing back, as derived from the self and service
+ * contracts of every workflow version. System errors are drawn dashed, and the
+ * services which none of the handlers handle are drawn as external nodes.
+ *
+ * @param handlers - The handlers of the system
+ * @param format - The diagram format, Mermaid by default
+ * @returns The diagram source
+ *
+ * @example
+ * ```typescript
+ * const diagram = visualizeEventTopology([checkoutOrchestrator, paymentHandler, shippingResumable], 'dot');
+ * ```
+ */
+export const visualizeEventTopology = (
+  handlers: EventTopologyHandler[],
+  format: ArvoDiagramFormat = 'mermaid',
+): string => {
+  const graph = buildEventTopologyGraph(handlers);
+  return format === 'dot' ? renderDot(graph) : renderMermaid(graph);
+};
@@ -1,7 +1,7 @@
 import { SpanKind, context } from '@opentelemetry/api';
 import { ArvoOpenTelemetry, logToSpan } from 'arvo-core';
 import { type Actor, type Snapshot, createActor } from 'xstate';
-import type { EnqueueArvoEventActionParam } from '../ArvoMachine/types';
+import type { ArvoTimerCommand, EnqueueArvoEventActionParam } from '../ArvoMachine/types';
 import type { ArvoEventHandlerOpenTelemetryOptions } from '../types';
 import type { IMachineExectionEngine } from './interface';
 import type { ExecuteMachineInput, ExecuteMachineOutput } from './types';
@@ -27,6 +27,8 @@ export class MachineExecutionEngine implements IMachineExectionEngine {
    *   - state: Final machine state
    *   - events: Generated events
    *   - finalOutput: Machine output or null
+   *   - timers: Timer commands requested by the machine
+   *   - compensate: Whether the machine requested the saga compensation
    *
    * @throws Error on invalid initialization events or execution failures
    */
@@ -61,6 +63,8 @@ export class MachineExecutionEngine implements IMachineExectionEngine {
             },
       fn: () => {
         const eventQueue: EnqueueArvoEventActionParam[] = [];
+        const timerQueue: ArvoTimerCommand[] = [];
+        let compensate = false;
         const errors: Error[] = [];
         let actor: Actor<typeof machine.logic>;
         if (!state) {
@@ -104,8 +108,14 @@ export class MachineExecutionEngine implements IMachineExectionEngine {
         if ((extractedSnapshot as any)?.context?.arvo$$?.volatile$$) {
           // biome-ignore lint/complexity/noForEach: This is fine
           (
-            (extractedSnapshot as any)?.context?.arvo$$?.volatile$$?.eventQueue$$ as EnqueueArvoEventActionParam[]
+            ((extractedSnapshot as any)?.context?.arvo$$?.volatile$$?.eventQueue$$ ??
+              []) as EnqueueArvoEventActionParam[]
           ).forEach((item) => eventQueue.push(item));
+          // biome-ignore lint/complexity/noForEach: This is fine
+          (((extractedSnapshot as any)?.context?.arvo$$?.volatile$$?.timerQueue$$ ?? []) as ArvoTimerCommand[]).forEach(
+            (item) => timerQueue.push(item),
+          );
+          compensate = Boolean((extractedSnapshot as any)?.context?.arvo$$?.volatile$$?.compensate$$);
           (extractedSnapshot as any).context.arvo$$.volatile$$ = undefined;
         }
         if (errors.length) {
@@ -122,6 +132,8 @@ export class MachineExecutionEngine implements IMachineExectionEngine {
           state: extractedSnapshot,
           events: eventQueue,
           finalOutput: finalOutput,
+          timers: timerQueue,
+          compensate,
         };
       },
     });
@@ -1,7 +1,7 @@
 import type { ArvoEvent } from 'arvo-core';
 import type { Snapshot } from 'xstate';
 import type ArvoMachine from '../ArvoMachine';
-import type { EnqueueArvoEventActionParam } from '../ArvoMachine/types';
+import type { ArvoTimerCommand, EnqueueArvoEventActionParam } from '../ArvoMachine/types';
 
 export type ExecuteMachineInput = {
   machine: ArvoMachine<any, any, any, any, any>;
@@ -13,4 +13,8 @@ export type ExecuteMachineOutput = {
   state: Snapshot<any>;
   events: EnqueueArvoEventActionParam[];
   finalOutput: any;
+  /** Timer commands requested by the machine during the execution, in order */
+  timers?: ArvoTimerCommand[];
+  /** Whether the machine requested the compensation of the saga via `compensateArvoSaga` */
+  compensate?: boolean;
 };
@@ -0,0 +1,366 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { v4 as uuid4 } from 'uuid';
+import type { IMachineMemory } from './interface';
+
+/**
+ * Configuration for {@link FileSystemMachineMemory}.
+ */
+export type FileSystemMachineMemoryConfig = {
+  /**
+   * Directory where the state and lock files are stored.
+   * It is created on first use if it does not exist.
+   */
+  directory: string;
+
+  /**
+   * Lifetime of an acquired lock in milliseconds. A lock older than this
+   * is considered stale and can be reclaimed by another execution.
+   *
+   * @default 120000
+   */
+  lockTTLMs?: number;
+
+  /**
+   * Number of attempts for a read operation before giving up on
+   * transient file system errors.
+   *
+   * @default 3
+   */
+  readAttempts?: number;
+};
+
+/**
+ * Shape of the state file persisted for each machine ID.
+ */
+type FileSystemMemoryEntry<T> = {
+  id: string;
+  data: T;
+  updatedAt: string;
+};
+
+/**
+ * Shape of the lock file persisted for each locked machine ID.
+ */
+type FileSystemLockEntry = {
+  id: string;
+  owner: string | null;
+  acquiredAt: string;
+  expiresAt: number;
+};
+
+const isErrorCode = (e: unknown, code: string) => (e as NodeJS.ErrnoException)?.code === code;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Attempts to acquire the guard of a lock file before giving up */
+const LOCK_GUARD_ATTEMPTS = 50;
+
+/** Delay in milliseconds between the attempts to acquire the guard of a lock file */
+const LOCK_GUARD_RETRY_MS = 10;
+
+/**
+ * Age in milliseconds after which a guard file is considered left behind by a
+ * crashed process. A guard is only held for a few file operations.
+ */
+const LOCK_GUARD_STALE_MS = 30000;
+
+/**
+ * File backed implementation of machine state storage for single-node NodeJS apps.
+ *
+ * Each machine ID (event.subject) is persisted as a JSON file written via an atomic
+ * rename, so a crash never leaves a partially written state behind. Locks are lock
+ * files created exclusively and carry an expiry, which lets a restarted service reclaim
+ * locks left behind by a crashed execution.
+ *
+ * Best for: Single-node services, local development, workflows that must survive restarts
+ * Not for: Multi-node deployments sharing state, network file systems without atomic rename
+ *
+ * @example
+ * const memory = new FileSystemMachineMemory({ directory: './.arvo/memory' });
+ * const orchestrator = createArvoOrchestrator({
+ *   memory,
+ *   executionunits: 1,
+ *   machines: [workflow]
+ * });
+ */
+export class FileSystemMachineMemory<T extends Record<string, any> = Record<string, any>> implements IMachineMemory<T> {
+  readonly directory: string;
+  readonly lockTTLMs: number;
+  readonly readAttempts: number;
+  private directoryReady: Promise<void> | null = null;
+
+  constructor(config: FileSystemMachineMemoryConfig) {
+    if (!config?.directory) {
+      throw new Error('A directory is required for the file system machine memory');
+    }
+    this.directory = path.resolve(config.directory);
+    this.lockTTLMs = config.lockTTLMs ?? 120000;
+    this.readAttempts = Math.max(1, config.readAttempts ?? 3);
+  }
+
+  /**
+   * Subjects can be longer than the file name limits of most file
+   * systems, so the file name is derived from a hash of the ID.
+   */
+  private filePath(id: string, extension: 'json' | 'lock') {
+    const name = createHash('sha256').update(id).digest('hex');
+    return path.join(this.directory, `${name}.${extension}`);
+  }
+
+  private async ensureDirectory() {
+    if (!this.directoryReady) {
+      this.directoryReady = fs
+        .mkdir(this.directory, { recursive: true })
+        .then(() => undefined)
+        .catch((e) => {
+          this.directoryReady = null;
+          throw e;
+        });
+    }
+    await this.directoryReady;
+  }
+
+  /**
+   * Gets stored state for a machine instance
+   * @param id Machine instance ID
+   * @returns State data or null if not found
+   * @throws {Error} When id is empty or the file cannot be read after retries
+   */
+  async read(id: string): Promise<T | null> {
+    if (!id) {
+      throw new Error('Machine ID is required for read operation');
+    }
+    let lastError: unknown = null;
+    for (let attempt = 0; attempt < this.readAttempts; attempt++) {
+      try {
+        const content = await fs.readFile(this.filePath(id, 'json'), 'utf-8');
+        return (JSON.parse(content) as FileSystemMemoryEntry<T>).data;
+      } catch (e) {
+        if (isErrorCode(e, 'ENOENT')) {
+          return null;
+        }
+        lastError = e;
+        await sleep(50 * 2 ** attempt);
+      }
+    }
+    throw new Error(`Unable to read machine memory for id '${id}': ${(lastError as Error)?.message}`);
+  }
+
+  /**
+   * Stores state for a machine instance. The state is written to a temporary
+   * file first and then renamed over the previous file, which is atomic on
+   * POSIX file systems.
+   * @param id Machine instance ID
+   * @param data State to store
+   * @throws {Error} When id is empty/undefined, data is null/undefined or the write fails
+   */
+  async write(id: string, data: T): Promise<void> {
+    if (!id) {
+      throw new Error('Machine ID is required for write operation');
+    }
+    if (!data) {
+      throw new Error('Data is required for write operation');
+    }
+    await this.ensureDirectory();
+    const filePath = this.filePath(id, 'json');
+    const tempPath = `${filePath}.${uuid4()}.tmp`;
+    const entry: FileSystemMemoryEntry<T> = {
+      id,
+      data,
+      updatedAt: new Date().toISOString(),
+    };
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+      await fs.rename(tempPath, filePath);
+    } catch (e) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw e;
+    }
+  }
+
+  /**
+   * Attempts to acquire lock for machine instance. A lock file is created
+   * exclusively, and an existing lock file whose TTL has passed is reclaimed.
+   * @param id Machine instance ID
+   * @param owner Optional token of the execution acquiring the lock
+   * @returns Success status of lock acquisition
+   * @throws {Error} When id is empty or undefined
+   */
+  async lock(id: string, owner?: string): Promise<boolean> {
+    if (!id) {
+      throw new Error('Machine ID is required for lock operation');
+    }
+    await this.ensureDirectory();
+    const lockPath = this.filePath(id, 'lock');
+    if (await this.createLockFile(id, lockPath, owner ?? null)) {
+      return true;
+    }
+    if (!(await this.reclaimStaleLock(lockPath))) {
+      return false;
+    }
+    return await this.createLockFile(id, lockPath, owner ?? null);
+  }
+
+  /**
+   * Releases lock for machine instance. The owner is checked and the lock file
+   * removed while holding the guard of the lock file, see {@link withLockGuard}.
+   * @param id Machine instance ID
+   * @param owner Optional token of the execution which acquired the lock
+   * @returns True when lock is released, false when it is held by another owner
+   * @throws {Error} When id is empty or undefined
+   */
+  async unlock(id: string, owner?: string): Promise<boolean> {
+    if (!id) {
+      throw new Error('Machine ID is required for unlock operation');
+    }
+    await this.ensureDirectory();
+    const lockPath = this.filePath(id, 'lock');
+    return await this.withLockGuard(lockPath, async () => {
+      const entry = await this.readLockFile(lockPath);
+      if (owner && entry?.owner && entry.owner !== owner && entry.expiresAt > Date.now()) {
+        return false;
+      }
+      try {
+        await fs.unlink(lockPath);
+      } catch (e) {
+        if (!isErrorCode(e, 'ENOENT')) throw e;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Extends the TTL of a lock held by the owner. The owner is checked while
+   * holding the guard of the lock file, and the renewed lock is written to a
+   * temporary file renamed over the lock file, so the lock path is never vacated.
+   * @param id Machine instance ID
+   * @param owner Token of the execution which acquired the lock
+   * @returns True when the lock is held by the owner and was extended
+   * @throws {Error} When id is empty or undefined
+   */
+  async renewLock(id: string, owner: string): Promise<boolean> {
+    if (!id) {
+      throw new Error('Machine ID is required for renew lock operation');
+    }
+    await this.ensureDirectory();
+    const lockPath = this.filePath(id, 'lock');
+    return await this.withLockGuard(lockPath, async () => {
+      const entry = await this.readLockFile(lockPath);
+      if (!entry || entry.owner !== owner || entry.expiresAt <= Date.now()) {
+        return false;
+      }
+      const tempPath = `${lockPath}.${uuid4()}.tmp`;
+      try {
+        await fs.writeFile(tempPath, JSON.stringify({ ...entry, expiresAt: Date.now() + this.lockTTLMs }), 'utf-8');
+        await fs.rename(tempPath, lockPath);
+      } catch (e) {
+        await fs.unlink(tempPath).catch(() => undefined);
+        throw e;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Runs a check-and-act on an existing lock file while holding its guard file.
+   *
+   * Releasing, renewing and reclaiming a lock all check the lock file before
+   * removing or replacing it. Serialising them behind the guard, which is created
+   * exclusively, means that no other process changes the lock file between the
+   * check and the act. A new lock is only created exclusively on a free lock path,
+   * so acquiring a lock needs no guard. A guard left behind by a crashed process
+   * is removed once it is older than {@link LOCK_GUARD_STALE_MS}.
+   *
+   * @throws {Error} When the guard cannot be acquired after the retries
+   */
+  private async withLockGuard<R>(lockPath: string, fn: () => Promise<R>): Promise<R> {
+    const guardPath = `${lockPath}.guard`;
+    let attempt = 0;
+    while (true) {
+      try {
+        await fs.writeFile(guardPath, '', { encoding: 'utf-8', flag: 'wx' });
+        break;
+      } catch (e) {
+        if (!isErrorCode(e, 'EEXIST')) throw e;
+      }
+      const stat = await fs.stat(guardPath).catch(() => null);
+      if (stat && stat.mtimeMs + LOCK_GUARD_STALE_MS <= Date.now()) {
+        await fs.unlink(guardPath).catch(() => undefined);
+        continue;
+      }
+      if (++attempt >= LOCK_GUARD_ATTEMPTS) {
+        throw new Error(`Unable to acquire the guard of lock file '${lockPath}'`);
+      }
+      await sleep(LOCK_GUARD_RETRY_MS);
+    }
+    try {
+      return await fn();
+    } finally {
+      await fs.unlink(guardPath).catch(() => undefined);
+    }
+  }
+
+  private async readLockFile(lockPath: string): Promise<FileSystemLockEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(lockPath, 'utf-8')) as FileSystemLockEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  private async createLockFile(id: string, lockPath: string, owner: string | null): Promise<boolean> {
+    const entry: FileSystemLockEntry = {
+      id,
+      owner,
+      acquiredAt: new Date().toISOString(),
+      expiresAt: Date.now() + this.lockTTLMs,
+    };
+    try {
+      await fs.writeFile(lockPath, JSON.stringify(entry), { encoding: 'utf-8', flag: 'wx' });
+      return true;
+    } catch (e) {
+      if (isErrorCode(e, 'EEXIST')) return false;
+      throw e;
+    }
+  }
+
+  private async isLockExpired(lockPath: string): Promise<boolean | null> {
+    try {
+      const content = await fs.readFile(lockPath, 'utf-8');
+      return (JSON.parse(content) as FileSystemLockEntry).expiresAt <= Date.now();
+    } catch (e) {
+      if (isErrorCode(e, 'ENOENT')) return null;
+      // A lock file which cannot be parsed was most likely left behind
+      // by a crash mid-write. Fall back to its modification time.
+      const stat = await fs.stat(lockPath).catch(() => null);
+      if (!stat) return null;
+      return stat.mtimeMs + this.lockTTLMs <= Date.now();
+    }
+  }
+
+  /**
+   * Removes an expired lock file so that it can be acquired again. The expiry
+   * is checked again while holding the guard of the lock file, since the lock
+   * may have been released or renewed in the meantime.
+   *
+   * @returns True if the lock path is free to be acquired
+   */
+  private async reclaimStaleLock(lockPath: string): Promise<boolean> {
+    const expired = await this.isLockExpired(lockPath);
+    if (expired === null) return true;
+    if (!expired) return false;
+    return await this.withLockGuard(lockPath, async () => {
+      const stillExpired = await this.isLockExpired(lockPath);
+      if (stillExpired === null) return true;
+      if (!stillExpired) return false;
+      try {
+        await fs.unlink(lockPath);
+      } catch (e) {
+        if (!isErrorCode(e, 'ENOENT')) throw e;
+      }
+      return true;
+    });
+  }
+}
@@ -0,0 +1,239 @@
+import { stableHash } from '../utils/object';
+import type { IMachineMemory } from './interface';
+
+/**
+ * Minimal prepared statement surface required by {@link SQLiteMachineMemory}.
+ * Compatible with `better-sqlite3` and the `node:sqlite` `DatabaseSync` statements.
+ */
+export interface ISQLiteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+}
+
+/**
+ * Minimal database surface required by {@link SQLiteMachineMemory}.
+ * Compatible with `better-sqlite3` and the `node:sqlite` `DatabaseSync` class.
+ */
+export interface ISQLiteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): ISQLiteStatement;
+}
+
+/**
+ * Configuration for {@link SQLiteMachineMemory}.
+ */
+export type SQLiteMachineMemoryConfig = {
+  /** An open SQLite database connection */
+  database: ISQLiteDatabase;
+
+  /**
+   * Name of the table storing the records. The lock table is named
+   * `<tableName>_locks`.
+   *
+   * @default 'arvo_machine_memory'
+   */
+  tableName?: string;
+
+  /**
+   * Lifetime of a lock lease in milliseconds. An expired lease is
+   * reclaimed by the next lock attempt.
+   *
+   * @default 120000
+   */
+  lockTTLMs?: number;
+};
+
+type SQLiteMemoryRow = {
+  data: string;
+  version: number;
+};
+
+/**
+ * SQLite backed implementation of machine state storage with optimistic concurrency.
+ *
+ * Every record carries a version number. {@link SQLiteMachineMemory.write} only succeeds
+ * when the stable hash of the `prevData` snapshot it receives matches the hash of the stored
+ * record, and the update is conditional on the version of that record (compare-and-swap).
+ * The check relies on the content of the snapshot only, so copies and snapshots read by
+ * another instance of the memory are accepted. A `null` `prevData` only succeeds when no record exists yet. A
+ * rejected write throws, which the orchestrators surface as a `TransactionViolation`
+ * with cause `WRITE_FAILURE`.
+ *
+ * Locks are leases with an expiry stored in a separate table, so a crashed execution
+ * never keeps a subject locked for longer than the configured TTL.
+ *
+ * The same approach (version column + conditional update, expiring lease rows)
+ * carries over to Postgres, DynamoDB and similar stores.
+ *
+ * Best for: Single-node services with durable state, reference for custom adapters
+ * Not for: Multi-node deployments without a shared database
+ *
+ * @example
+ * const memory = new SQLiteMachineMemory({ database: new Database('arvo.db') });
+ * const orchestrator = createArvoOrchestrator({
+ *   memory,
+ *   executionunits: 1,
+ *   machines: [workflow]
+ * });
+ */
+export class SQLiteMachineMemory<T extends Record<string, any> = Record<string, any>> implements IMachineMemory<T> {
+  readonly tableName: string;
+  readonly lockTTLMs: number;
+  private readonly statements: {
+    read: ISQLiteStatement;
+    insert: ISQLiteStatement;
+    update: ISQLiteStatement;
+    clearExpiredLock: ISQLiteStatement;
+    lock: ISQLiteStatement;
+    unlock: ISQLiteStatement;
+    unlockOwned: ISQLiteStatement;
+    lockOwner: ISQLiteStatement;
+    renewLock: ISQLiteStatement;
+  };
+
+  constructor(config: SQLiteMachineMemoryConfig) {
+    if (!config?.database) {
+      throw new Error('A database connection is required for the SQLite machine memory');
+    }
+    this.tableName = config.tableName ?? 'arvo_machine_memory';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+      throw new Error(`Invalid table name '${this.tableName}'. Only letters, digits and underscores are allowed`);
+    }
+    this.lockTTLMs = config.lockTTLMs ?? 120000;
+    const table = this.tableName;
+    const lockTable = `${this.tableName}_locks`;
+    config.database.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, data TEXT NOT NULL, version INTEGER NOT NULL, updated_at INTEGER NOT NULL);
+       CREATE TABLE IF NOT EXISTS ${lockTable} (id TEXT PRIMARY KEY, owner TEXT, expires_at INTEGER NOT NULL);`,
+    );
+    this.statements = {
+      read: config.database.prepare(`SELECT data, version FROM ${table} WHERE id = ?`),
+      insert: config.database.prepare(
+        `INSERT OR IGNORE INTO ${table} (id, data, version, updated_at) VALUES (?, ?, 1, ?)`,
+      ),
+      update: config.database.prepare(
+        `UPDATE ${table} SET data = ?, version = version + 1, updated_at = ? WHERE id = ? AND version = ?`,
+      ),
+      clearExpiredLock: config.database.prepare(`DELETE FROM ${lockTable} WHERE id = ? AND expires_at <= ?`),
+      lock: config.database.prepare(`INSERT OR IGNORE INTO ${lockTable} (id, owner, expires_at) VALUES (?, ?, ?)`),
+      unlock: config.database.prepare(`DELETE FROM ${lockTable} WHERE id = ?`),
+      unlockOwned: config.database.prepare(
+        `DELETE FROM ${lockTable} WHERE id = ? AND (owner IS NULL OR owner = ? OR expires_at <= ?)`,
+      ),
+      lockOwner: config.database.prepare(`SELECT owner FROM ${lockTable} WHERE id = ?`),
+      renewLock: config.database.prepare(
+        `UPDATE ${lockTable} SET expires_at = ? WHERE id = ? AND owner = ? AND expires_at > ?`,
+      ),
+    };
+  }
+
+  /**
+   * Gets stored state for a machine instance
+   * @param id Machine instance ID
+   * @returns State data or null if not found
+   * @throws {Error} When id is empty or undefined
+   */
+  async read(id: string): Promise<T | null> {
+    if (!id) {
+      throw new Error('Machine ID is required for read operation');
+    }
+    const row = this.statements.read.get(id) as SQLiteMemoryRow | undefined;
+    if (!row) {
+      return null;
+    }
+    return JSON.parse(row.data) as T;
+  }
+
+  /**
+   * Stores state for a machine instance if the stored record still
+   * matches `prevData`.
+   * @param id Machine instance ID
+   * @param data State to store
+   * @param prevData The snapshot this state was derived from, or null for a new record
+   * @throws {Error} When id is empty/undefined, data is null/undefined or the stored
+   *                 record changed since `prevData` was read
+   */
+  async write(id: string, data: T, prevData: T | null): Promise<void> {
+    if (!id) {
+      throw new Error('Machine ID is required for write operation');
+    }
+    if (!data) {
+      throw new Error('Data is required for write operation');
+    }
+    const now = Date.now();
+    if (!prevData) {
+      const result = this.statements.insert.run(id, JSON.stringify(data), now);
+      if (Number(result.changes) === 0) {
+        throw new Error(
+          `Optimistic concurrency conflict for id '${id}': a record already exists but no previous snapshot was provided`,
+        );
+      }
+      return;
+    }
+    const row = this.statements.read.get(id) as SQLiteMemoryRow | undefined;
+    if (!row || stableHash(JSON.parse(row.data)) !== stableHash(prevData)) {
+      throw new Error(
+        `Optimistic concurrency conflict for id '${id}': the stored record no longer matches the previous snapshot`,
+      );
+    }
+    const result = this.statements.update.run(JSON.stringify(data), now, id, row.version);
+    if (Number(result.changes) === 0) {
+      throw new Error(
+        `Optimistic concurrency conflict for id '${id}': the stored record no longer matches version ${row.version}`,
+      );
+    }
+  }
+
+  /**
+   * Attempts to acquire a lock lease for machine instance. An expired
+   * lease is removed before the attempt.
+   * @param id Machine instance ID
+   * @param owner Optional token of the execution acquiring the lock
+   * @returns Success status of lock acquisition
+   * @throws {Error} When id is empty or undefined
+   */
+  async lock(id: string, owner?: string): Promise<boolean> {
+    if (!id) {
+      throw new Error('Machine ID is required for lock operation');
+    }
+    const now = Date.now();
+    this.statements.clearExpiredLock.run(id, now);
+    const result = this.statements.lock.run(id, owner ?? null, now + this.lockTTLMs);
+    return Number(result.changes) === 1;
+  }
+
+  /**
+   * Releases lock lease for machine instance
+   * @param id Machine instance ID
+   * @param owner Optional token of the execution which acquired the lock
+   * @returns True when lock is released, false when it is held by another owner
+   * @throws {Error} When id is empty or undefined
+   */
+  async unlock(id: string, owner?: string): Promise<boolean> {
+    if (!id) {
+      throw new Error('Machine ID is required for unlock operation');
+    }
+    if (!owner) {
+      this.statements.unlock.run(id);
+      return true;
+    }
+    this.statements.unlockOwned.run(id, owner, Date.now());
+    return this.statements.lockOwner.get(id) === undefined;
+  }
+
+  /**
+   * Extends the lease of a lock held by the owner
+   * @param id Machine instance ID
+   * @param owner Token of the execution which acquired the lock
+   * @returns True when the lease is held by the owner and was extended
+   * @throws {Error} When id is empty or undefined
+   */
+  async renewLock(id: string, owner: string): Promise<boolean> {
+    if (!id) {
+      throw new Error('Machine ID is required for renew lock operation');
+    }
+    const now = Date.now();
+    const result = this.statements.renewLock.run(now + this.lockTTLMs, id, owner, now);
+    return Number(result.changes) === 1;
+  }
+}
@@ -1,4 +1,37 @@
-import type { IMachineMemory } from './interface';
+import type { IQueryableMachineMemory } from './interface';
+import type { MachineMemoryQuery, MachineMemoryQueryResult } from './types';
+import { matchesMachineMemoryQuery } from './utils';
+
+/**
+ * Configuration for the in-memory machine memory implementations.
+ */
+export type SimpleMachineMemoryConfig = {
+  /**
+   * Lifetime of an acquired lock in milliseconds. An expired lock
+   * can be acquired by another execution.
+   *
+   * @default 120000
+   */
+  lockTTLMs?: number;
+
+  /**
+   * Lifetime of a stored record in milliseconds since it was last written.
+   * Expired records are evicted on read and write, which bounds the memory
+   * used by short-lived records, such as the idempotency records of event
+   * handlers. Records never expire when not provided.
+   */
+  recordTTLMs?: number;
+};
+
+/**
+ * Lock entry kept by the in-memory machine memory implementations.
+ */
+export type SimpleMachineMemoryLock = {
+  /** Token of the execution holding the lock, null when acquired without one */
+  owner: string | null;
+  /** Epoch milliseconds after which the lock is considered expired */
+  expiresAt: number;
+};
 
 /**
  * In-memory implementation of machine state storage for single-instance NodeJS apps.
@@ -14,9 +47,45 @@ import type { IMachineMemory } from './interface';
  *   machines: [workflow]
  * });
  */
-export class SimpleMachineMemory<T extends Record<string, any> = Record<string, any>> implements IMachineMemory<T> {
+export class SimpleMachineMemory<T extends Record<string, any> = Record<string, any>>
+  implements IQueryableMachineMemory<T>
+{
   private readonly memoryMap: Map<string, T> = new Map();
-  private readonly lockMap: Map<string, boolean> = new Map();
+  private readonly updatedAtMap: Map<string, number> = new Map();
+  private readonly lockMap: Map<string, SimpleMachineMemoryLock> = new Map();
+  readonly lockTTLMs: number;
+  readonly recordTTLMs: number | null;
+
+  constructor(config?: SimpleMachineMemoryConfig) {
+    this.lockTTLMs = config?.lockTTLMs ?? 120000;
+    this.recordTTLMs = config?.recordTTLMs ?? null;
+  }
+
+  private getActiveLock(id: string): SimpleMachineMemoryLock | null {
+    const lock = this.lockMap.get(id);
+    if (!lock) return null;
+    if (lock.expiresAt <= Date.now()) {
+      this.lockMap.delete(id);
+      return null;
+    }
+    return lock;
+  }
+
+  /**
+   * Removes the records which have not been written within the record TTL. The
+   * records are kept in write order, so the sweep stops at the first live record.
+   */
+  private evictExpiredRecords(): void {
+    if (this.recordTTLMs === null) return;
+    const expiredBefore = Date.now() - this.recordTTLMs;
+    const entries = this.updatedAtMap.entries();
+    for (let next = entries.next(); !next.done; next = entries.next()) {
+      const [id, updatedAt] = next.value;
+      if (updatedAt > expiredBefore) return;
+      this.memoryMap.delete(id);
+      this.updatedAtMap.delete(id);
+    }
+  }
 
   /**
    * Gets stored state for a machine instance
@@ -28,6 +97,7 @@ export class SimpleMachineMemory<T extends Record<string, any> = Record<string,
     if (!id) {
       throw new Error('Machine ID is required for read operation');
     }
+    this.evictExpiredRecords();
     return this.memoryMap.get(id) ?? null;
   }
 
@@ -44,38 +114,93 @@ export class SimpleMachineMemory<T extends Record<string, any> = Record<string,
     if (!data) {
       throw new Error('Data is required for write operation');
     }
+    this.evictExpiredRecords();
     this.memoryMap.set(id, { ...data });
+    // Re-inserted so that the records stay in write order
+    this.updatedAtMap.delete(id);
+    this.updatedAtMap.set(id, Date.now());
+  }
+
+  /**
+   * Lists the stored states matching the query, least recently updated first.
+   * The cursor is the offset of the next page, so records written while paging
+   * may shift between pages.
+   * @param query Filters and pagination options
+   * @returns A page of matching states and the cursor of the next page
+   * @throws {Error} When the cursor is invalid
+   */
+  async query(query: MachineMemoryQuery = {}): Promise<MachineMemoryQueryResult<T>> {
+    const offset = query.cursor ? Number(query.cursor) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid cursor '${query.cursor}' for query operation`);
+    }
+    this.evictExpiredRecords();
+    const limit = Math.max(1, query.limit ?? 100);
+    const matches = Array.from(this.memoryMap.entries())
+      .map(([id, data]) => ({ id, data: { ...data }, updatedAt: this.updatedAtMap.get(id) ?? 0 }))
+      .filter((item) => matchesMachineMemoryQuery(item.data, item.updatedAt, query))
+      .sort((a, b) => a.updatedAt - b.updatedAt || a.id.localeCompare(b.id));
+    return {
+      items: matches.slice(offset, offset + limit),
+      nextCursor: offset + limit < matches.length ? String(offset + limit) : null,
+    };
   }
 
   /**
-   * Attempts to acquire lock for machine instance
+   * Attempts to acquire lock for machine instance. An expired lock is
+   * treated as released.
    * @param id Machine instance ID
+   * @param owner Optional token of the execution acquiring the lock
    * @returns Success status of lock acquisition
    * @throws {Error} When id is empty or undefined
    */
-  async lock(id: string): Promise<boolean> {
+  async lock(id: string, owner?: string): Promise<boolean> {
     if (!id) {
       throw new Error('Machine ID is required for lock operation');
     }
-    if (this.lockMap.get(id)) {
+    if (this.getActiveLock(id)) {
       return false;
     }
-    this.lockMap.set(id, true);
+    this.lockMap.set(id, { owner: owner ?? null, expiresAt: Date.now() + this.lockTTLMs });
     return true;
   }
 
   /**
    * Releases lock for machine instance
    * @param id Machine instance ID
-   * @returns True when lock is released
+   * @param owner Optional token of the execution which acquired the lock
+   * @returns True when lock is released, false when it is held by another owner
    * @throws {Error} When id is empty or undefined
    */
-  async unlock(id: string): Promise<boolean> {
+  async unlock(id: string, owner?: string): Promise<boolean> {
     if (!id) {
       throw new Error('Machine ID is required for unlock operation');
     }
+    const lock = this.getActiveLock(id);
+    if (lock && owner && lock.owner && lock.owner !== owner) {
+      return false;
+    }
     this.lockMap.delete(id);
-    return !this.lockMap.get(id);
+    return true;
+  }
+
+  /**
+   * Extends the TTL of a lock held by the owner
+   * @param id Machine instance ID
+   * @param owner Token of the execution which acquired the lock
+   * @returns True when the lock is held by the owner and was extended
+   * @throws {Error} When id is empty or undefined
+   */
+  async renewLock(id: string, owner: string): Promise<boolean> {
+    if (!id) {
+      throw new Error('Machine ID is required for renew lock operation');
+    }
+    const lock = this.getActiveLock(id);
+    if (!lock || lock.owner !== owner) {
+      return false;
+    }
+    lock.expiresAt = Date.now() + this.lockTTLMs;
+    return true;
   }
 
   /**
@@ -84,10 +209,12 @@ export class SimpleMachineMemory<T extends Record<string, any> = Record<string,
   clear(key?: string): void {
     if (key) {
       this.memoryMap.delete(key);
+      this.updatedAtMap.delete(key);
       this.lockMap.delete(key);
       return;
     }
     this.memoryMap.clear();
+    this.updatedAtMap.clear();
     this.lockMap.clear();
   }
 }
@@ -1,5 +1,6 @@
 import { SpanKind } from '@opentelemetry/api';
 import { ArvoOpenTelemetry } from 'arvo-core';
+import type { SimpleMachineMemoryConfig, SimpleMachineMemoryLock } from './Simple';
 import type { IMachineMemory } from './interface';
 import { getJsonSize } from './utils';
 
@@ -21,7 +22,41 @@ export class TelemetredSimpleMachineMemory<T extends Record<string, any> = Recor
   implements IMachineMemory<T>
 {
   private readonly memoryMap: Map<string, T> = new Map();
-  private readonly lockMap: Map<string, boolean> = new Map();
+  private readonly updatedAtMap: Map<string, number> = new Map();
+  private readonly lockMap: Map<string, SimpleMachineMemoryLock> = new Map();
+  readonly lockTTLMs: number;
+  readonly recordTTLMs: number | null;
+
+  constructor(config?: SimpleMachineMemoryConfig) {
+    this.lockTTLMs = config?.lockTTLMs ?? 120000;
+    this.recordTTLMs = config?.recordTTLMs ?? null;
+  }
+
+  private getActiveLock(id: string): SimpleMachineMemoryLock | null {
+    const lock = this.lockMap.get(id);
+    if (!lock) return null;
+    if (lock.expiresAt <= Date.now()) {
+      this.lockMap.delete(id);
+      return null;
+    }
+    return lock;
+  }
+
+  /**
+   * Removes the records which have not been written within the record TTL. The
+   * records are kept in write order, so the sweep stops at the first live record.
+   */
+  private evictExpiredRecords(): void {
+    if (this.recordTTLMs === null) return;
+    const expiredBefore = Date.now() - this.recordTTLMs;
+    const entries = this.updatedAtMap.entries();
+    for (let next = entries.next(); !next.done; next = entries.next()) {
+      const [id, updatedAt] = next.value;
+      if (updatedAt > expiredBefore) return;
+      this.memoryMap.delete(id);
+      this.updatedAtMap.delete(id);
+    }
+  }
 
   /**
    * Gets stored state for a machine instance
@@ -42,6 +77,7 @@ export class TelemetredSimpleMachineMemory<T extends Record<string, any> = Recor
         if (!id) {
           throw new Error('Machine ID is required for read operation');
         }
+        this.evictExpiredRecords();
         return this.memoryMap.get(id) ?? null;
       },
     });
@@ -70,18 +106,24 @@ export class TelemetredSimpleMachineMemory<T extends Record<string, any> = Recor
         if (!data) {
           throw new Error('Data is required for write operation');
         }
+        this.evictExpiredRecords();
         this.memoryMap.set(id, { ...data });
+        // Re-inserted so that the records stay in write order
+        this.updatedAtMap.delete(id);
+        this.updatedAtMap.set(id, Date.now());
       },
     });
   }
 
   /**
-   * Attempts to acquire lock for machine instance
+   * Attempts to acquire lock for machine instance. An expired lock is
+   * treated as released.
    * @param id Machine instance ID
+   * @param owner Optional token of the execution acquiring the lock
    * @returns Success status of lock acquisition
    * @throws {Error} When id is empty or undefined
    */
-  async lock(id: string): Promise<boolean> {
+  async lock(id: string, owner?: string): Promise<boolean> {
     return await ArvoOpenTelemetry.getInstance().startActiveSpan({
       name: 'Lock Simple Memory',
       spanOptions: {
@@ -94,10 +136,10 @@ export class TelemetredSimpleMachineMemory<T extends Record<string, any> = Recor
         if (!id) {
           throw new Error('Machine ID is required for lock operation');
         }
-        if (this.lockMap.get(id)) {
+        if (this.getActiveLock(id)) {
           return false;
         }
-        this.lockMap.set(id, true);
+        this.lockMap.set(id, { owner: owner ?? null, expiresAt: Date.now() + this.lockTTLMs });
         return true;
       },
     });
@@ -106,10 +148,11 @@ export class TelemetredSimpleMachineMemory<T extends Record<string, any> = Recor
   /**
    * Releases lock for machine instance
    * @param id Machine instance ID
-   * @returns True when lock is released
+   * @param owner Optional token of the execution which acquired the lock
+   * @returns True when lock is released, false when it is held by another owner
    * @throws {Error} When id is empty or undefined
    */
-  async unlock(id: string): Promise<boolean> {
+  async unlock(id: string, owner?: string): Promise<boolean> {
     return await ArvoOpenTelemetry.getInstance().startActiveSpan({
       name: 'Unlock Simple Memory',
       spanOptions: {
@@ -122,22 +165,58 @@ export class TelemetredSimpleMachineMemory<T extends Record<string, any> = Recor
         if (!id) {
           throw new Error('Machine ID is required for unlock operation');
         }
+        const lock = this.getActiveLock(id);
+        if (lock && owner && lock.owner && lock.owner !== owner) {
+          return false;
+        }
         this.lockMap.delete(id);
         return true;
       },
     });
   }
 
+  /**
+   * Extends the TTL of a lock held by the owner
+   * @param id Machine instance ID
+   * @param owner Token of the execution which acquired the lock
+   * @returns True when the lock is held by the owner and was extended
+   * @throws {Error} When id is empty or undefined
+   */
+  async renewLock(id: string, owner: string): Promise<boolean> {
+    return await ArvoOpenTelemetry.getInstance().startActiveSpan({
+      name: 'Renew Lock Simple Memory',
+      spanOptions: {
+        kind: SpanKind.INTERNAL,
+        attributes: {
+          'arvo.memory.id': id,
+        },
+      },
+      fn: async () => {
+        if (!id) {
+          throw new Error('Machine ID is required for renew lock operation');
+        }
+        const lock = this.getActiveLock(id);
+        if (!lock || lock.owner !== owner) {
+          return false;
+        }
+        lock.expiresAt = Date.now() + this.lockTTLMs;
+        return true;
+      },
+    });
+  }
+
   /**
    * Clears all stored data and locks
    */
   clear(key?: string): void {
     if (key) {
       this.memoryMap.delete(key);
+      this.updatedAtMap.delete(key);
       this.lockMap.delete(key);
       return;
     }
     this.memoryMap.clear();
+    this.updatedAtMap.clear();
     this.lockMap.clear();
   }
 }
@@ -1,3 +1,5 @@
+import type { MachineMemoryQuery, MachineMemoryQueryResult } from './types';
+
 /**
  * Manages machine state memory operations with optimistic locking strategy.
  * Implements a "fail fast on acquire, be tolerant on release" approach for resource management.
@@ -37,11 +39,16 @@ export interface IMachineMemory<T extends Record<string, any>> {
    * Acquires execution lock for machine ID (event.subject).
    * Should implement reasonable retries with backoff for transient lock conflicts.
    * Must fail fast after retry attempts exhausted - no long polling.
+   *
+   * When an owner token is provided, it must be stored with the lock so that
+   * only the same owner can release or renew it.
+   *
    * @param id - Machine ID
+   * @param owner - Optional token identifying the execution acquiring the lock
    * @returns True if lock acquired successfully
    * @throws Error if lock operation fails (not same as lock denial)
    */
-  lock(id: string): Promise<boolean>;
+  lock(id: string, owner?: string): Promise<boolean>;
 
   /**
    * Releases execution lock for machine ID (event.subject).
@@ -53,8 +60,39 @@ export interface IMachineMemory<T extends Record<string, any>> {
    * - Ensure locks auto-expire to prevent deadlocks from unlock failures
    * - Consider execution patterns when setting TTL to avoid premature expiry
    *
+   * When an owner token is provided, a lock held by a different owner must not
+   * be released and the method returns false.
+   *
    * @param id - Machine ID
+   * @param owner - Optional token of the execution which acquired the lock
    * @returns True if unlocked successfully
    */
-  unlock(id: string): Promise<boolean>;
+  unlock(id: string, owner?: string): Promise<boolean>;
+
+  /**
+   * Optionally extends the TTL of a lock held by the given owner.
+   * Called periodically by the orchestration handlers while a long running
+   * execution holds the lock, so that the lock does not expire mid-execution.
+   *
+   * @param id - Machine ID
+   * @param owner - Token of the execution which acquired the lock
+   * @returns True if the lock is still held by the owner and was extended
+   */
+  renewLock?(id: string, owner: string): Promise<boolean>;
+}
+
+/**
+ * Optional extension of {@link IMachineMemory} for memories which can list and
+ * filter their records, used by administrative tooling such as the
+ * `OrchestrationInspector`. The orchestration handlers never query the memory.
+ * @template T - Structure of stored data
+ */
+export interface IQueryableMachineMemory<T extends Record<string, any>> extends IMachineMemory<T> {
+  /**
+   * Lists the records matching the query, least recently updated first.
+   * @param query - Filters and pagination options
+   * @returns A page of matching records and the cursor of the next page
+   * @throws Error if the query fails
+   */
+  query(query?: MachineMemoryQuery): Promise<MachineMemoryQueryResult<T>>;
 }
@@ -0,0 +1,53 @@
+/**
+ * Filter and pagination options for querying the records of an {@link IQueryableMachineMemory}.
+ * All the provided filters must match for a record to be returned.
+ */
+export type MachineMemoryQuery = {
+  /** Only return records whose `status` field is one of the given values, e.g. `'active'` */
+  status?: string | string[];
+  /** Only return records with the given execution status */
+  executionStatus?: 'normal' | 'failure';
+  /**
+   * Only return records in the given machine state. A string matches a simple state
+   * value, or a compound state value containing it as a top level state. An object
+   * matches a compound state value which is equal to it.
+   */
+  value?: string | Record<string, any>;
+  /** Only return records with the given parent subject. `null` returns the root orchestrations */
+  parentSubject?: string | null;
+  /** Only return records with (`true`) or without (`false`) pending events in their outbox */
+  hasPendingOutbox?: boolean;
+  /** Only return records last written at or after this epoch time in milliseconds */
+  updatedAfter?: number;
+  /** Only return records last written before this epoch time in milliseconds */
+  updatedBefore?: number;
+  /**
+   * Maximum number of records per page
+   * @default 100
+   */
+  limit?: number;
+  /** Opaque cursor returned by the previous page */
+  cursor?: string | null;
+};
+
+/**
+ * A record returned by a machine memory query.
+ */
+export type MachineMemoryQueryItem<T extends Record<string, any>> = {
+  /** Machine ID (event.subject) */
+  id: string;
+  /** The stored record */
+  data: T;
+  /** Epoch milliseconds of the last write of the record */
+  updatedAt: number;
+};
+
+/**
+ * A page of records returned by a machine memory query.
+ */
+export type MachineMemoryQueryResult<T extends Record<string, any>> = {
+  /** The matching records, least recently updated first */
+  items: MachineMemoryQueryItem<T>[];
+  /** Cursor of the next page, null when there are no more records */
+  nextCursor: string | null;
+};
@@ -1,4 +1,6 @@
 import { logToSpan } from 'arvo-core';
+import type { IMachineMemory, IQueryableMachineMemory } from './interface';
+import type { MachineMemoryQuery } from './types';
 
 export function getJsonSize(obj: Record<string, any>): number {
   try {
@@ -13,3 +15,44 @@ export function getJsonSize(obj: Record<string, any>): number {
     return -1;
   }
 }
+
+/**
+ * Checks whether a machine memory implements the optional query extension.
+ */
+export const isQueryableMachineMemory = <T extends Record<string, any>>(
+  memory: IMachineMemory<T>,
+): memory is IQueryableMachineMemory<T> => typeof (memory as IQueryableMachineMemory<T>).query === 'function';
+
+/**
+ * Checks whether a stored record and its last write time match the filters of a query.
+ */
+export function matchesMachineMemoryQuery(
+  data: Record<string, any>,
+  updatedAt: number,
+  query: MachineMemoryQuery,
+): boolean {
+  if (query.status !== undefined) {
+    const statuses = Array.isArray(query.status) ? query.status : [query.status];
+    if (!statuses.includes(data.status)) return false;
+  }
+  if (query.executionStatus !== undefined && data.executionStatus !== query.executionStatus) {
+    return false;
+  }
+  if (query.value !== undefined) {
+    const value = data.value ?? null;
+    const isMatch =
+      typeof query.value === 'string'
+        ? value === query.value || (typeof value === 'object' && value !== null && query.value in value)
+        : JSON.stringify(value) === JSON.stringify(query.value);
+    if (!isMatch) return false;
+  }
+  if (query.parentSubject !== undefined && (data.parentSubject ?? null) !== query.parentSubject) {
+    return false;
+  }
+  if (query.hasPendingOutbox !== undefined && Boolean(data.outbox?.length) !== query.hasPendingOutbox) {
+    return false;
+  }
+  if (query.updatedAfter !== undefined && updatedAt < query.updatedAfter) return false;
+  if (query.updatedBefore !== undefined && updatedAt >= query.updatedBefore) return false;
+  return true;
+}
@@ -1,8 +1,17 @@
 import { SpanKind, context } from '@opentelemetry/api';
-import { type ArvoEvent, ArvoOpenTelemetry, ArvoOrchestrationSubject, logToSpan } from 'arvo-core';
+import {
+  type ArvoEvent,
+  ArvoOpenTelemetry,
+  ArvoOrchestrationSubject,
+  type ArvoSemanticVersion,
+  compareSemanticVersions,
+  logToSpan,
+} from 'arvo-core';
 import type ArvoMachine from '../ArvoMachine';
+import { ConfigViolation } from '../errors';
 import type { ArvoEventHandlerOpenTelemetryOptions } from '../types';
 import type { IMachineRegistry } from './interface';
+import type { ArvoMachineMigration, MachineRoutingStrategy } from './types';
 
 /**
  * Registry for managing and resolving ArvoMachine instances.
@@ -15,6 +24,12 @@ import type { IMachineRegistry } from './interface';
 export class MachineRegistry implements IMachineRegistry {
   public machines: ArvoMachine<any, any, any, any, any>[];
 
+  /** Snapshot migrations between the registered machine versions */
+  public migrations: ArvoMachineMigration[] = [];
+
+  /** Strategy routing the new orchestrations between the registered versions */
+  public routing: MachineRoutingStrategy | null = null;
+
   /**
    * Creates a new MachineRegistry instance with the provided machines.
    *
@@ -85,4 +100,111 @@ export class MachineRegistry implements IMachineRegistry {
       },
     });
   }
+
+  /**
+   * Routes a new orchestration to the machine version selected by the routing
+   * strategy. Without a strategy, or when the strategy selects an unregistered
+   * version, the orchestration starts on the resolved machine.
+   *
+   * @param event - The init event starting the orchestration
+   * @param machine - The machine resolved for the event
+   * @returns The machine to start the orchestration on
+   *
+   * @example
+   * ```typescript
+   * const requested = registry.resolve(initEvent);
+   * const machine = requested ? registry.route(initEvent, requested) : null;
+   * ```
+   */
+  route(event: ArvoEvent, machine: ArvoMachine<any, any, any, any, any>): ArvoMachine<any, any, any, any, any> {
+    if (!this.routing) {
+      return machine;
+    }
+    const machines = this.machines.filter((item) => item.source === machine.source);
+    const routedVersion = this.routing({ event, requested: machine, machines });
+    if (!routedVersion || routedVersion === machine.version) {
+      return machine;
+    }
+    const routedMachine = machines.find((item) => item.version === routedVersion);
+    logToSpan({
+      level: routedMachine ? 'INFO' : 'WARNING',
+      message: routedMachine
+        ? `Routed the new orchestration from ${machine.source}@${machine.version} to ${machine.source}@${routedVersion}`
+        : `Routing strategy selected the unregistered version ${machine.source}@${routedVersion}, keeping ${machine.source}@${machine.version}`,
+    });
+    return routedMachine ?? machine;
+  }
+
+  /**
+   * Sets the strategy routing the new orchestrations between the registered
+   * versions, e.g. {@link pinLatestVersion}, {@link weightedVersionSplit} or
+   * {@link tenantVersionPinning}.
+   *
+   * The strategy applies to init events only. A resumed orchestration continues
+   * on the version recorded in its persisted state.
+   *
+   * @param routing - The routing strategy
+   * @returns The registry, for chaining
+   */
+  useRouting(routing: MachineRoutingStrategy): this {
+    this.routing = routing;
+    return this;
+  }
+
+  /**
+   * Registers snapshot migrations between the registered machine versions.
+   *
+   * Each migration must move a snapshot to a newer registered version, and a
+   * version can only be migrated in one way, so the migrations of any version
+   * form a single chain towards the latest version.
+   *
+   * @param migrations - The migrations to register
+   * @returns The registry, for chaining
+   *
+   * @throws {ConfigViolation} When a migration targets an unregistered or not newer
+   * version, or a migration from the same version is already registered
+   *
+   * @example
+   * ```typescript
+   * const registry = new MachineRegistry(machineV1, machineV2).addMigrations({
+   *   from: '1.0.0',
+   *   to: '2.0.0',
+   *   migrate: ({ snapshot }) => ({ ...snapshot, context: { ...snapshot.context, retries: 0 } }),
+   * });
+   * ```
+   */
+  addMigrations(...migrations: ArvoMachineMigration[]): this {
+    for (const migration of migrations) {
+      const label = `Snapshot migration from version ${migration.from} to ${migration.to}`;
+      if (!this.machines.some((item) => item.version === migration.to)) {
+        throw new ConfigViolation(`${label} targets a machine version which is not registered`);
+      }
+      if (compareSemanticVersions(migration.to, migration.from) <= 0) {
+        throw new ConfigViolation(`${label} must target a newer machine version`);
+      }
+      if (this.migrations.some((item) => item.from === migration.from)) {
+        throw new ConfigViolation(`${label} conflicts with an existing migration from version ${migration.from}`);
+      }
+      this.migrations.push(migration);
+    }
+    return this;
+  }
+
+  /**
+   * Resolves the chain of migrations moving a snapshot of the given machine
+   * version to the newest reachable version.
+   *
+   * @param version - The machine version of the persisted snapshot
+   * @returns The migrations to apply in order, empty when the version has no migration
+   */
+  resolveMigrations(version: ArvoSemanticVersion): ArvoMachineMigration[] {
+    const chain: ArvoMachineMigration[] = [];
+    let migration = this.migrations.find((item) => item.from === version);
+    while (migration) {
+      chain.push(migration);
+      const { to } = migration;
+      migration = this.migrations.find((item) => item.from === to);
+    }
+    return chain;
+  }
 }
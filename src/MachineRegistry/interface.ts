@@ -1,6 +1,7 @@
-import type { ArvoEvent } from 'arvo-core';
+import type { ArvoEvent, ArvoSemanticVersion } from 'arvo-core';
 import type ArvoMachine from '../ArvoMachine';
 import type { ArvoEventHandlerOpenTelemetryOptions } from '../types';
+import type { ArvoMachineMigration } from './types';
 
 /**
  * Interface for managing and resolving state machine instances.
@@ -23,4 +24,26 @@ export interface IMachineRegistry {
     event: ArvoEvent,
     opentelemetry: ArvoEventHandlerOpenTelemetryOptions,
   ) => ArvoMachine<any, any, any, any, any> | null;
+
+  /**
+   * Resolves the chain of snapshot migrations moving a snapshot of the given
+   * machine version to a newer version. Registries without migrations may
+   * omit it.
+   *
+   * @param version - The machine version of the persisted snapshot
+   * @returns The migrations to apply in order
+   */
+  resolveMigrations?: (version: ArvoSemanticVersion) => ArvoMachineMigration[];
+
+  /**
+   * Routes a new orchestration to the machine version which starts it. The
+   * orchestrator calls it with the machine resolved for an init event only, as a
+   * resumed orchestration stays on its persisted version. Registries without
+   * routing may omit it.
+   *
+   * @param event - The init event starting the orchestration
+   * @param machine - The machine resolved for the event
+   * @returns The machine to start the orchestration on
+   */
+  route?: (event: ArvoEvent, machine: ArvoMachine<any, any, any, any, any>) => ArvoMachine<any, any, any, any, any>;
 }
@@ -0,0 +1,87 @@
+import { type ArvoEvent, type ArvoSemanticVersion, compareSemanticVersions } from 'arvo-core';
+import { ConfigViolation } from '../errors';
+import { stableHash } from '../utils/object';
+import type { MachineRoutingStrategy } from './types';
+
+/**
+ * Routes every new orchestration to the latest registered machine version.
+ *
+ * @example
+ * ```typescript
+ * const registry = new MachineRegistry(machineV1, machineV2).useRouting(pinLatestVersion());
+ * ```
+ */
+export const pinLatestVersion =
+  (): MachineRoutingStrategy =>
+  ({ machines }) =>
+    machines.reduce((latest, item) => (compareSemanticVersions(item.version, latest.version) > 0 ? item : latest))
+      .version;
+
+/**
+ * Splits the new orchestrations between machine versions by weight, e.g. to
+ * canary a new version on a share of the traffic.
+ *
+ * The split is derived from a hash of the orchestration subject rather than a
+ * random number, so a redelivered init event is always routed to the same version.
+ *
+ * @param weights - The relative weight of each version
+ *
+ * @throws {ConfigViolation} When a weight is negative or no weight is positive
+ *
+ * @example
+ * ```typescript
+ * // Route 10% of the new orchestrations to 2.0.0
+ * const registry = new MachineRegistry(machineV1, machineV2).useRouting(
+ *   weightedVersionSplit({ '1.0.0': 90, '2.0.0': 10 }),
+ * );
+ * ```
+ */
+export const weightedVersionSplit = (weights: Record<ArvoSemanticVersion, number>): MachineRoutingStrategy => {
+  const entries = Object.entries(weights) as [ArvoSemanticVersion, number][];
+  if (entries.some(([, weight]) => !Number.isFinite(weight) || weight < 0)) {
+    throw new ConfigViolation('Weighted version split requires finite, non-negative weights');
+  }
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total <= 0) {
+    throw new ConfigViolation('Weighted version split requires at least one positive weight');
+  }
+  return ({ event }) => {
+    // Uniformly distributed position of the subject in [0, total)
+    let position = (Number.parseInt(stableHash(event.subject).slice(0, 8), 16) / 0x100000000) * total;
+    for (const [version, weight] of entries) {
+      if (position < weight) return version;
+      position -= weight;
+    }
+    return entries[entries.length - 1][0];
+  };
+};
+
+/**
+ * Pins the new orchestrations of specific tenants to a machine version. The
+ * tenant is read from the `accesscontrol` of the init event by default.
+ *
+ * @param param.tenants - The version pinned for each tenant
+ * @param param.resolveTenant - Reads the tenant of an init event, defaults to its `accesscontrol`
+ * @param param.fallback - Strategy for the orchestrations of the other tenants,
+ * which keep the requested version when omitted
+ *
+ * @example
+ * ```typescript
+ * const registry = new MachineRegistry(machineV1, machineV2).useRouting(
+ *   tenantVersionPinning({ tenants: { 'tenant-beta': '2.0.0' }, fallback: pinLatestVersion() }),
+ * );
+ * ```
+ */
+export const tenantVersionPinning =
+  (param: {
+    tenants: Record<string, ArvoSemanticVersion>;
+    resolveTenant?: (event: ArvoEvent) => string | null;
+    fallback?: MachineRoutingStrategy;
+  }): MachineRoutingStrategy =>
+  (routingParam) => {
+    const tenant = param.resolveTenant ? param.resolveTenant(routingParam.event) : routingParam.event.accesscontrol;
+    if (tenant && Object.prototype.hasOwnProperty.call(param.tenants, tenant)) {
+      return param.tenants[tenant];
+    }
+    return param.fallback?.(routingParam) ?? null;
+  };
@@ -0,0 +1,62 @@
+import type { ArvoEvent, ArvoSemanticVersion } from 'arvo-core';
+import type { Snapshot } from 'xstate';
+import type ArvoMachine from '../ArvoMachine';
+
+/**
+ * Declares how the persisted snapshot of one machine version is transformed into
+ * a snapshot of another version, so that in-flight orchestrations can move to
+ * the new version of the machine.
+ */
+export type ArvoMachineMigration = {
+  /** The machine version of the persisted snapshot */
+  from: ArvoSemanticVersion;
+  /** The machine version the migrated snapshot belongs to */
+  to: ArvoSemanticVersion;
+  /**
+   * Transforms the persisted snapshot, e.g. by renaming state values or
+   * filling new context fields. Must not mutate the given snapshot.
+   */
+  migrate: (param: {
+    /** The persisted XState snapshot of the `from` machine */
+    snapshot: Snapshot<any>;
+    /** The orchestration subject */
+    subject: string;
+  }) => Snapshot<any>;
+};
+
+/**
+ * Audit entry of a snapshot migration applied to an orchestration.
+ */
+export type ArvoMachineMigrationRecord = {
+  /** The machine version before the migration */
+  from: ArvoSemanticVersion;
+  /** The machine version after the migration */
+  to: ArvoSemanticVersion;
+  /** ID of the event whose execution applied the migration */
+  eventId: string;
+  /** ISO timestamp of the migration */
+  at: string;
+};
+
+/**
+ * Parameters of a {@link MachineRoutingStrategy}.
+ */
+export type MachineRoutingStrategyParam = {
+  /** The init event starting the orchestration */
+  event: ArvoEvent;
+  /** The machine of the version requested in the event subject */
+  requested: ArvoMachine<any, any, any, any, any>;
+  /** The registered machines of the requested orchestrator */
+  machines: ArvoMachine<any, any, any, any, any>[];
+};
+
+/**
+ * Selects the machine version which starts a new orchestration.
+ *
+ * Only init events are routed. The version is recorded with the persisted state,
+ * so resumed orchestrations stay on the version they were routed to.
+ *
+ * @returns The version of the machine to start the orchestration on, or null to
+ * keep the requested version
+ */
+export type MachineRoutingStrategy = (param: MachineRoutingStrategyParam) => ArvoSemanticVersion | null;
@@ -0,0 +1,62 @@
+import type { IOrchestrationHistoryStore } from './interface';
+import type { OrchestrationHistoryEntry, OrchestrationHistoryRecord } from './types';
+
+/**
+ * In-memory implementation of the orchestration history store for single-instance NodeJS apps.
+ *
+ * Best for: Container apps, testing, demos
+ * Not for: Multi-instance deployments, histories which must survive a restart
+ *
+ * @example
+ * const history = new SimpleOrchestrationHistoryStore();
+ * const orchestrator = createArvoOrchestrator({
+ *   memory: new SimpleMachineMemory(),
+ *   executionunits: 1,
+ *   machines: [workflow],
+ *   history,
+ * });
+ *
+ * const steps = await history.read(subject);
+ */
+export class SimpleOrchestrationHistoryStore implements IOrchestrationHistoryStore {
+  private readonly historyMap: Map<string, OrchestrationHistoryEntry[]> = new Map();
+
+  /**
+   * Appends a step to the history of its subject
+   * @param record Step to append
+   * @throws {Error} When the subject is empty
+   */
+  async append(record: OrchestrationHistoryRecord): Promise<void> {
+    if (!record.subject) {
+      throw new Error('Subject is required for append operation');
+    }
+    const entries = this.historyMap.get(record.subject) ?? [];
+    entries.push({ ...record, sequence: entries.length });
+    this.historyMap.set(record.subject, entries);
+  }
+
+  /**
+   * Reads the history of a subject
+   * @param subject Orchestration subject
+   * @returns The steps, oldest first
+   * @throws {Error} When the subject is empty
+   */
+  async read(subject: string): Promise<OrchestrationHistoryEntry[]> {
+    if (!subject) {
+      throw new Error('Subject is required for read operation');
+    }
+    return (this.historyMap.get(subject) ?? []).map((item) => ({ ...item }));
+  }
+
+  /**
+   * Clears the history of a subject, or of all the subjects
+   * @param subject Orchestration subject
+   */
+  clear(subject?: string): void {
+    if (subject) {
+      this.historyMap.delete(subject);
+      return;
+    }
+    this.historyMap.clear();
+  }
+}
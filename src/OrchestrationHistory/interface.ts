@@ -0,0 +1,27 @@
+import type { OrchestrationHistoryEntry, OrchestrationHistoryRecord } from './types';
+
+/**
+ * Append-only store of the execution history of orchestrations.
+ *
+ * The orchestrators and resumables configured with a history store append a
+ * record for every execution after its new state has been persisted, so that
+ * the path of an orchestration to its current state can be reconstructed. The
+ * memory only keeps the events of the last execution.
+ */
+export interface IOrchestrationHistoryStore {
+  /**
+   * Appends a step to the history of its subject. The store assigns the
+   * sequence number of the step.
+   * @param record - The step to append
+   * @throws Error if the step cannot be stored
+   */
+  append(record: OrchestrationHistoryRecord): Promise<void>;
+
+  /**
+   * Reads the history of an orchestration.
+   * @param subject - The orchestration subject
+   * @returns The steps of the orchestration, oldest first. Empty for unknown subjects
+   * @throws Error if the history cannot be read
+   */
+  read(subject: string): Promise<OrchestrationHistoryEntry[]>;
+}
@@ -0,0 +1,55 @@
+import type { Span } from '@opentelemetry/api';
+import { type ArvoEvent, logToSpan } from 'arvo-core';
+import type { OrchestrationExecutionMemoryRecord } from '../ArvoOrchestrationUtils/orchestrationExecutionState';
+import type { ArvoOrchestrationHandlerType } from '../ArvoOrchestrationUtils/types';
+import { stableHash } from '../utils/object';
+import type { IOrchestrationHistoryStore } from './interface';
+
+/**
+ * Appends the persisted outcome of an execution to the history store.
+ *
+ * The history is an audit trail of the already persisted state, so a failing
+ * store is logged on the span and does not fail the execution.
+ */
+export const recordOrchestrationHistory = async (
+  param: {
+    history: IOrchestrationHistoryStore;
+    /** The consumed event */
+    event: ArvoEvent;
+    /** The persisted state */
+    record: OrchestrationExecutionMemoryRecord<Record<string, any>>;
+    /** The events produced by the execution */
+    produced: ArvoEvent[];
+    source: string;
+    handlerType: ArvoOrchestrationHandlerType;
+  },
+  span: Span,
+): Promise<void> => {
+  const { record } = param;
+  try {
+    await param.history.append({
+      subject: param.event.subject,
+      handler: {
+        source: param.source,
+        type: param.handlerType,
+      },
+      consumed: param.event.toJSON(),
+      produced: param.produced.map((item) => item.toJSON()),
+      executionStatus: record.executionStatus,
+      status: record.status ?? null,
+      value: record.value ?? null,
+      // The machine snapshot of an orchestrator, or the state of a resumable
+      snapshotHash: stableHash(record.state ?? record.state$$ ?? null),
+      error: record.executionStatus === 'failure' ? (record.error?.message ?? null) : null,
+      recordedAt: new Date().toISOString(),
+    });
+  } catch (e) {
+    logToSpan(
+      {
+        level: 'CRITICAL',
+        message: `Failed to record event id: ${param.event.id} in the orchestration history - ${(e as Error)?.message}`,
+      },
+      span,
+    );
+  }
+};
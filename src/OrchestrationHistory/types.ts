@@ -0,0 +1,46 @@
+import type { ArvoEvent, InferArvoEvent } from 'arvo-core';
+import type { ArvoOrchestrationHandlerType } from '../ArvoOrchestrationUtils/types';
+
+/**
+ * A step of the history of an orchestration, recorded after each execution
+ * whose new state was persisted.
+ */
+export type OrchestrationHistoryRecord = {
+  /** The orchestration subject */
+  subject: string;
+  /** The handler which executed the step */
+  handler: {
+    /** The event type of the handler */
+    source: string;
+    /** The type of the handler */
+    type: ArvoOrchestrationHandlerType;
+  };
+  /** The event consumed by the step */
+  consumed: InferArvoEvent<ArvoEvent>;
+  /** The events produced by the step, including the ones staged in the outbox */
+  produced: InferArvoEvent<ArvoEvent>[];
+  /** The execution status after the step */
+  executionStatus: 'normal' | 'failure';
+  /** The orchestration status after the step, e.g. `'active'` or `'done'` */
+  status: string | null;
+  /** The state value of the machine after the step. Always null for resumables */
+  value: string | Record<string, any> | null;
+  /**
+   * SHA-256 hash of the machine snapshot, or of the resumable state, after the
+   * step. Computed over a key-order independent serialization, so that equal
+   * states have equal hashes.
+   */
+  snapshotHash: string;
+  /** The error message when the step failed the orchestration */
+  error: string | null;
+  /** ISO timestamp at which the step was recorded */
+  recordedAt: string;
+};
+
+/**
+ * A recorded step of the history of an orchestration.
+ */
+export type OrchestrationHistoryEntry = OrchestrationHistoryRecord & {
+  /** Position of the step in the history of the subject, starting at 0 */
+  sequence: number;
+};
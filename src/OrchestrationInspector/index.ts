@@ -0,0 +1,96 @@
+import type { OrchestrationExecutionMemoryRecord } from '../ArvoOrchestrationUtils/orchestrationExecutionState';
+import type { MachineMemoryQuery } from '../MachineMemory/types';
+import { isQueryableMachineMemory } from '../MachineMemory/utils';
+import { ConfigViolation } from '../errors';
+import type { OrchestrationInspectorParam, OrchestrationView, OrchestrationViewPage } from './types';
+
+/**
+ * Read-only administrative view over the persisted states of the orchestrators
+ * and resumables, for answering questions such as "which orchestrations are
+ * stuck in state X" or "why did this orchestration fail".
+ *
+ * Inspecting a single subject works with any machine memory. Listing requires a
+ * memory implementing {@link IQueryableMachineMemory}, such as `SimpleMachineMemory`.
+ *
+ * @example
+ * ```typescript
+ * const inspector = new OrchestrationInspector({ memory });
+ *
+ * const { items } = await inspector.list({ value: 'awaiting_payment', updatedBefore: Date.now() - 3600000 });
+ * const failed = await inspector.list({ executionStatus: 'failure' });
+ * const view = await inspector.inspect(subject);
+ * ```
+ */
+export class OrchestrationInspector {
+  /** The machine memory of the inspected orchestrations */
+  readonly memory: OrchestrationInspectorParam['memory'];
+
+  constructor(param: OrchestrationInspectorParam) {
+    this.memory = param.memory;
+  }
+
+  /**
+   * Reads the state of an orchestration.
+   * @param subject - The orchestration subject
+   * @returns The orchestration view, or null when no state exists
+   */
+  async inspect(subject: string): Promise<OrchestrationView | null> {
+    const record = await this.memory.read(subject);
+    return record ? this.view(subject, record) : null;
+  }
+
+  /**
+   * Lists the orchestrations matching the query, least recently updated first.
+   * @param query - Filters and pagination options
+   * @returns A page of orchestration views and the cursor of the next page
+   *
+   * @throws {ConfigViolation} When the memory does not implement `IQueryableMachineMemory`
+   */
+  async list(query?: MachineMemoryQuery): Promise<OrchestrationViewPage> {
+    if (!isQueryableMachineMemory(this.memory)) {
+      throw new ConfigViolation(
+        'Orchestration listing requires a machine memory implementing IQueryableMachineMemory with a query method',
+      );
+    }
+    const { items, nextCursor } = await this.memory.query(query);
+    return {
+      items: items.map((item) => this.view(item.id, item.data, item.updatedAt)),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Decodes a persisted orchestrator or resumable state into a human-friendly view.
+   * @param subject - The orchestration subject
+   * @param record - The persisted state
+   * @param updatedAt - Epoch milliseconds of the last write of the state, if known
+   */
+  view(
+    subject: string,
+    record: OrchestrationExecutionMemoryRecord<Record<string, any>>,
+    updatedAt: number | null = null,
+  ): OrchestrationView {
+    const error = record.executionStatus === 'failure' ? record.error : null;
+    return {
+      subject: record.subject ?? subject,
+      executionStatus: record.executionStatus,
+      status: record.status ?? null,
+      value: record.value ?? null,
+      context: record.state?.context ?? record.state$$ ?? null,
+      parentSubject: record.parentSubject ?? null,
+      initEventId: record.initEventId ?? null,
+      lastConsumedEvent: record.events?.consumed ?? null,
+      lastProducedEvents: record.events?.produced ?? [],
+      activeTimers: Object.keys({ ...(record.timers ?? {}), ...(record.timeouts ?? {}) }),
+      pendingOutboxEvents: record.outbox?.length ?? 0,
+      error: error
+        ? {
+            name: error.name ?? 'Error',
+            message: error.message ?? String(error),
+            stack: error.stack ?? null,
+          }
+        : null,
+      updatedAt,
+    };
+  }
+}
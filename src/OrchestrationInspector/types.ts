@@ -0,0 +1,56 @@
+import type { ArvoEvent, InferArvoEvent } from 'arvo-core';
+import type {
+  OrchestrationExecutionError,
+  OrchestrationExecutionMemoryRecord,
+} from '../ArvoOrchestrationUtils/orchestrationExecutionState';
+import type { IMachineMemory } from '../MachineMemory/interface';
+
+/**
+ * Configuration parameters for the {@link OrchestrationInspector} constructor.
+ */
+export type OrchestrationInspectorParam = {
+  /** The machine memory of the orchestrators or resumables to inspect */
+  memory: IMachineMemory<OrchestrationExecutionMemoryRecord<Record<string, any>>>;
+};
+
+/**
+ * Human-friendly view of a persisted orchestrator or resumable state.
+ */
+export type OrchestrationView = {
+  /** The orchestration subject */
+  subject: string;
+  /** Whether the orchestration executes normally or has failed terminally */
+  executionStatus: 'normal' | 'failure';
+  /** The workflow status, e.g. `'active'` or `'done'`. Null for failed orchestrations */
+  status: string | null;
+  /** The current machine state value. Null for resumables and failed orchestrations */
+  value: string | Record<string, any> | null;
+  /** The machine context or the resumable state. Null when unavailable */
+  context: Record<string, any> | null;
+  /** The parent orchestration subject, null for root orchestrations */
+  parentSubject: string | null;
+  /** ID of the event which initiated the orchestration */
+  initEventId: string | null;
+  /** The event consumed by the last execution */
+  lastConsumedEvent: InferArvoEvent<ArvoEvent> | null;
+  /** The events produced by the last execution */
+  lastProducedEvents: InferArvoEvent<ArvoEvent>[];
+  /** Names of the active timers and timeouts */
+  activeTimers: string[];
+  /** Number of emitted events pending delivery in the outbox */
+  pendingOutboxEvents: number;
+  /** The error which failed the orchestration. Null for normal orchestrations */
+  error: OrchestrationExecutionError | null;
+  /** Epoch milliseconds of the last write of the state, null when the memory does not track it */
+  updatedAt: number | null;
+};
+
+/**
+ * A page of orchestration views returned by {@link OrchestrationInspector.list}.
+ */
+export type OrchestrationViewPage = {
+  /** The matching orchestrations, least recently updated first */
+  items: OrchestrationView[];
+  /** Cursor of the next page, null when there are no more orchestrations */
+  nextCursor: string | null;
+};
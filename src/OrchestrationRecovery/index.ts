@@ -0,0 +1,333 @@
+import type { Span } from '@opentelemetry/api';
+import {
+  type ArvoEvent,
+  ArvoOpenTelemetry,
+  ArvoOrchestrationSubject,
+  type ArvoOrchestratorContract,
+  type ArvoSemanticVersion,
+  type VersionedArvoContract,
+  currentOpenTelemetryHeaders,
+  exceptionToSpan,
+  logToSpan,
+} from 'arvo-core';
+import { v4 as uuid4 } from 'uuid';
+import type { AnyStateMachine } from 'xstate';
+import { processRawEventsIntoEmittables } from '../ArvoOrchestrationUtils/createEmitableEvent';
+import { createSystemErrorEvents } from '../ArvoOrchestrationUtils/handlerErrors';
+import {
+  type OrchestrationExecutionMemoryRecord,
+  type OrchestrationRecoveryAuditEntry,
+  serializeOrchestrationExecutionError,
+} from '../ArvoOrchestrationUtils/orchestrationExecutionState';
+import { reviveArvoEvent } from '../ArvoOrchestrationUtils/reviveArvoEvent';
+import { ArvoOrchestrator } from '../ArvoOrchestrator';
+import type { MachineMemoryRecord } from '../ArvoOrchestrator/types';
+import type { IMachineMemory } from '../MachineMemory/interface';
+import type {
+  OrchestrationCancelOptions,
+  OrchestrationForceTransitionOptions,
+  OrchestrationRecoveryOptions,
+  OrchestrationRecoveryParam,
+  OrchestrationRetryOptions,
+} from './types';
+
+type OrchestrationRecord = OrchestrationExecutionMemoryRecord<Record<string, any>>;
+
+/**
+ * Returns the last good state held by an orchestration record, i.e. the record
+ * itself for a normal orchestration, or the state preserved in a failure record.
+ * Returns null when the orchestration failed on its initialization event.
+ */
+const lastGoodState = (record: OrchestrationRecord): OrchestrationRecord | null => {
+  if (record.executionStatus === 'normal') return record;
+  const { executionStatus: _status, error: _error, failedEvent: _failedEvent, ...state } = record;
+  if (!state.initEventId || !state.events) return null;
+  return { ...state, executionStatus: 'normal' };
+};
+
+/**
+ * Operator-facing API to recover orchestrations of an orchestrator or a resumable.
+ *
+ * Once an orchestration fails with a non-violation error, its state is marked with
+ * the `'failure'` execution status and every subsequent event for its subject is
+ * ignored. The failure state keeps the last good state and the failed event, from
+ * which the recovery can:
+ *
+ * - {@link OrchestrationRecovery.retry}: restore the last good state and re-execute the failed event
+ * - {@link OrchestrationRecovery.forceTransition}: move a state machine orchestration into a named state
+ * - {@link OrchestrationRecovery.cancel}: terminally cancel the orchestration and notify its initiator
+ *
+ * Each operation holds the subject lock while it updates the state, and appends an
+ * audit entry to the `recoveries` of the state.
+ *
+ * @example
+ * ```typescript
+ * const recovery = new OrchestrationRecovery({ handler: orchestrator });
+ *
+ * // After fixing the cause of the failure
+ * const { events } = await recovery.retry(subject, { operator: 'jane', reason: 'Payment API key rotated' });
+ * ```
+ */
+export class OrchestrationRecovery {
+  /** The orchestrator or resumable whose orchestrations are recovered */
+  readonly handler: OrchestrationRecoveryParam['handler'];
+
+  constructor(param: OrchestrationRecoveryParam) {
+    this.handler = param.handler;
+  }
+
+  /** The machine memory of the handler */
+  private get memory(): IMachineMemory<OrchestrationRecord> {
+    return this.handler.memory as IMachineMemory<OrchestrationRecord>;
+  }
+
+  /**
+   * Restores the last good state of a failed orchestration and re-executes the
+   * event which failed it. Should the event fail again, the orchestration returns
+   * to the failure state.
+   *
+   * The subject lock is released before the re-execution, so an event processed
+   * in between is executed against the restored state first.
+   *
+   * @param subject - The orchestration subject
+   * @param options - Audit information and OpenTelemetry configuration
+   * @returns The events emitted by the re-execution
+   *
+   * @throws {Error} When the orchestration has not failed, failed on its initialization
+   *                 event, or is locked by another process
+   * @throws The violation errors of the re-execution
+   */
+  async retry(subject: string, options?: OrchestrationRetryOptions): Promise<{ events: ArvoEvent[] }> {
+    const failedEvent = await this.recover('retry', subject, async (record) => {
+      if (record.executionStatus !== 'failure' || !record.failedEvent) {
+        throw new Error(`Orchestration '${subject}' has no failed event to retry`);
+      }
+      const state = lastGoodState(record);
+      if (!state) {
+        throw new Error(
+          `Orchestration '${subject}' failed on its initialization event and has no state to retry from. Cancel it instead.`,
+        );
+      }
+      await this.memory.write(
+        subject,
+        {
+          ...state,
+          recoveries: [...(record.recoveries ?? []), this.auditEntry('retry', record, record.failedEvent.id, options)],
+        },
+        record,
+      );
+      return reviveArvoEvent(record.failedEvent);
+    });
+    return await this.handler.execute(failedEvent, options?.opentelemetry ?? { inheritFrom: 'EVENT' });
+  }
+
+  /**
+   * Moves a state machine orchestration into the given state, starting from its last
+   * good state. The entry actions of the target state are not executed and no events
+   * are emitted. A failed orchestration resumes its normal execution afterwards.
+   *
+   * @param subject - The orchestration subject
+   * @param value - The target state value, e.g. `'awaiting_payment'` or `{ processing: 'charging' }`
+   * @param options - Audit information and the machine context to set
+   * @returns The new state of the orchestration
+   *
+   * @throws {Error} When the handler is not an `ArvoOrchestrator`, the orchestration has
+   *                 no good state, the state value does not exist in the machine, or the
+   *                 subject is locked by another process
+   */
+  async forceTransition(
+    subject: string,
+    value: string | Record<string, any>,
+    options?: OrchestrationForceTransitionOptions,
+  ): Promise<MachineMemoryRecord> {
+    const orchestrator = this.handler;
+    if (!(orchestrator instanceof ArvoOrchestrator)) {
+      throw new Error('Force transition is only supported for orchestrations of an ArvoOrchestrator');
+    }
+    return await this.recover('forceTransition', subject, async (record) => {
+      const state = lastGoodState(record);
+      if (!state) {
+        throw new Error(`Orchestration '${subject}' failed on its initialization event and has no state to transition`);
+      }
+      // The snapshot belongs to the machine it was last migrated to
+      const version = state.machineVersion ?? ArvoOrchestrationSubject.parse(subject).orchestrator.version;
+      const machine = orchestrator.registry.machines.find((item) => item.version === version);
+      if (!machine) {
+        throw new Error(`No machine with version '${version}' found for orchestration '${subject}'`);
+      }
+      const logic = machine.logic as AnyStateMachine;
+      const snapshot = logic.resolveState({ value, context: options?.context ?? state.state?.context ?? {} });
+      const newState = {
+        ...state,
+        status: snapshot.status,
+        value: snapshot.value,
+        state: logic.getPersistedSnapshot(snapshot),
+        recoveries: [
+          ...(record.recoveries ?? []),
+          { ...this.auditEntry('forceTransition', record, null, options), value },
+        ],
+      };
+      await this.memory.write(subject, newState, record);
+      return newState as MachineMemoryRecord;
+    });
+  }
+
+  /**
+   * Terminally cancels an orchestration, failed or not. The orchestration is moved
+   * into the failure state, so that every subsequent event is ignored, and the
+   * initiator (the parent orchestration for nested orchestrations) is notified with
+   * a synthesized system error event, or a completion event when `output` is given.
+   *
+   * The events are derived from the failed event, or the last consumed event, and
+   * are returned for publication, or staged in the outbox when the handler runs in
+   * outbox mode.
+   *
+   * @param subject - The orchestration subject
+   * @param options - Audit information and optional completion data
+   * @returns The synthesized events, empty in outbox mode
+   *
+   * @throws {Error} When the orchestration has never consumed an event, or is locked by another process
+   * @throws {ContractViolation} When the completion data does not satisfy the contract
+   */
+  async cancel(subject: string, options?: OrchestrationCancelOptions): Promise<{ events: ArvoEvent[] }> {
+    return await this.recover('cancel', subject, async (record, span) => {
+      const triggerEventJson =
+        (record.executionStatus === 'failure' ? record.failedEvent : null) ?? record.events?.consumed;
+      if (!triggerEventJson) {
+        throw new Error(`Orchestration '${subject}' has no consumed event to derive the cancellation events from`);
+      }
+      const triggerEvent = reviveArvoEvent(triggerEventJson);
+      const parsedSubject = ArvoOrchestrationSubject.parse(subject);
+      const selfContract = this.resolveSelfContract(parsedSubject.orchestrator.version);
+      const otelHeaders = currentOpenTelemetryHeaders();
+      const orchestrationParentSubject: string | null = record.parentSubject ?? null;
+      const initEventId: string = record.initEventId ?? triggerEvent.id;
+      const error = new Error(`Orchestration cancelled by operator${options?.reason ? ` - ${options.reason}` : ''}`);
+
+      const events = options?.output
+        ? processRawEventsIntoEmittables(
+            {
+              rawEvents: [
+                {
+                  type: selfContract.metadata.completeEventType,
+                  data: options.output,
+                  to: parsedSubject.meta?.redirectto ?? parsedSubject.execution.initiator,
+                  domain: this.handler.defaultEventEmissionDomains.complete,
+                },
+              ],
+              otelHeaders,
+              orchestrationParentSubject,
+              sourceEvent: triggerEvent,
+              selfContract,
+              serviceContracts: {},
+              initEventId,
+              executionunits: this.handler.executionunits,
+              source: this.handler.source,
+            },
+            span,
+          )
+        : createSystemErrorEvents({
+            error,
+            event: triggerEvent,
+            otelHeaders,
+            orchestrationParentSubject,
+            initEventId,
+            selfContract,
+            systemErrorDomain: this.handler.defaultEventEmissionDomains.systemError,
+            executionunits: this.handler.executionunits,
+            source: this.handler.source,
+            handlerType: this.handler instanceof ArvoOrchestrator ? 'orchestrator' : 'resumable',
+          });
+
+      await this.memory.write(
+        subject,
+        {
+          ...record,
+          executionStatus: 'failure',
+          subject,
+          error: serializeOrchestrationExecutionError(error),
+          failedEvent: triggerEventJson,
+          ...(this.handler.outbox
+            ? { outbox: [...(record.outbox ?? []), ...events.map((item) => item.toJSON())] }
+            : {}),
+          recoveries: [...(record.recoveries ?? []), this.auditEntry('cancel', record, triggerEventJson.id, options)],
+        },
+        record,
+      );
+      return { events: this.handler.outbox ? [] : events };
+    });
+  }
+
+  /**
+   * Runs a recovery operation in its own span while holding the subject lock.
+   */
+  private async recover<T>(
+    action: OrchestrationRecoveryAuditEntry['action'],
+    subject: string,
+    fn: (record: OrchestrationRecord, span: Span) => Promise<T>,
+  ): Promise<T> {
+    return await ArvoOpenTelemetry.getInstance().startActiveSpan({
+      name: `OrchestrationRecovery<${action}>`,
+      fn: async (span) => {
+        span.setAttribute('arvo.recovery.action', action);
+        span.setAttribute('arvo.recovery.subject', subject);
+        const memory = this.memory;
+        const lockToken = uuid4();
+        try {
+          if (!(await memory.lock(subject, lockToken))) {
+            throw new Error(`Unable to recover orchestration '${subject}' as it is locked by another process`);
+          }
+          try {
+            const record = await memory.read(subject);
+            if (!record) {
+              throw new Error(`No orchestration state found for subject '${subject}'`);
+            }
+            const result = await fn(record, span);
+            logToSpan({ level: 'INFO', message: `Applied ${action} recovery to orchestration ${subject}` }, span);
+            return result;
+          } finally {
+            await memory.unlock(subject, lockToken);
+          }
+        } catch (e) {
+          exceptionToSpan(e as Error, span);
+          throw e;
+        } finally {
+          span.end();
+        }
+      },
+    });
+  }
+
+  /**
+   * Resolves the self contract of the handler for the orchestrator version of a subject.
+   */
+  private resolveSelfContract(
+    version: ArvoSemanticVersion,
+  ): VersionedArvoContract<ArvoOrchestratorContract, ArvoSemanticVersion> {
+    if (this.handler instanceof ArvoOrchestrator) {
+      const machine = this.handler.registry.machines.find((item) => item.version === version);
+      return (machine ?? this.handler.registry.machines[0]).contracts.self;
+    }
+    return this.handler.contracts.self.version(version);
+  }
+
+  /**
+   * Creates the audit entry of a recovery applied to an orchestration record.
+   */
+  private auditEntry(
+    action: OrchestrationRecoveryAuditEntry['action'],
+    record: OrchestrationRecord,
+    eventId: string | null,
+    options?: OrchestrationRecoveryOptions,
+  ): OrchestrationRecoveryAuditEntry {
+    return {
+      action,
+      at: new Date().toISOString(),
+      operator: options?.operator ?? null,
+      reason: options?.reason ?? null,
+      executionStatus: record.executionStatus,
+      error: record.executionStatus === 'failure' ? (record.error?.message ?? null) : null,
+      eventId,
+    };
+  }
+}
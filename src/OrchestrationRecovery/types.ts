@@ -0,0 +1,49 @@
+import type { ArvoOrchestrator } from '../ArvoOrchestrator';
+import type { ArvoResumable } from '../ArvoResumable';
+import type { ArvoEventHandlerOpenTelemetryOptions } from '../types';
+
+/**
+ * Configuration parameters for the {@link OrchestrationRecovery} constructor.
+ */
+export type OrchestrationRecoveryParam = {
+  /** The orchestrator or resumable whose orchestrations are recovered */
+  handler: ArvoOrchestrator | ArvoResumable<any, any, any>;
+};
+
+/**
+ * Options recorded in the audit entry of every recovery operation.
+ */
+export type OrchestrationRecoveryOptions = {
+  /** Identifier of the operator applying the recovery */
+  operator?: string;
+  /** The reason for the recovery */
+  reason?: string;
+};
+
+/**
+ * Options for {@link OrchestrationRecovery.retry}.
+ */
+export type OrchestrationRetryOptions = OrchestrationRecoveryOptions & {
+  /** OpenTelemetry configuration for the re-execution of the failed event */
+  opentelemetry?: ArvoEventHandlerOpenTelemetryOptions;
+};
+
+/**
+ * Options for {@link OrchestrationRecovery.forceTransition}.
+ */
+export type OrchestrationForceTransitionOptions = OrchestrationRecoveryOptions & {
+  /** Machine context to set, defaults to the context of the last good state */
+  context?: Record<string, any>;
+};
+
+/**
+ * Options for {@link OrchestrationRecovery.cancel}.
+ */
+export type OrchestrationCancelOptions = OrchestrationRecoveryOptions & {
+  /**
+   * Completion data to report to the initiator. When provided, a completion event
+   * is emitted with this data, which must satisfy the complete schema of the
+   * orchestrator contract. Otherwise a system error event is emitted.
+   */
+  output?: Record<string, any>;
+};
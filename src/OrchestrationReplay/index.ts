@@ -0,0 +1,184 @@
+import type { ArvoEvent, InferArvoEvent } from 'arvo-core';
+import { reviveArvoEvent } from '../ArvoOrchestrationUtils/reviveArvoEvent';
+import { createArvoOrchestrator } from '../ArvoOrchestrator/factory';
+import { ArvoResumable } from '../ArvoResumable';
+import { SimpleTimerScheduler } from '../ArvoTimer/Simple';
+import { SimpleMachineMemory } from '../MachineMemory/Simple';
+import { SimpleOrchestrationHistoryStore } from '../OrchestrationHistory/Simple';
+import type { OrchestrationHistoryRecord } from '../OrchestrationHistory/types';
+import { stableStringify } from '../utils/object';
+import type {
+  OrchestrationReplayDifference,
+  OrchestrationReplayResult,
+  OrchestrationReplayStep,
+  ReplayOrchestrationParam,
+} from './types';
+
+/**
+ * Reduces a produced event to the fields determined by the orchestration logic.
+ *
+ * Event ids, times, trace headers and execution units vary between executions,
+ * and the subjects of new child orchestrations embed a random identifier, so
+ * they are left out. The error stack of system errors depends on the deployment
+ * paths and is left out as well.
+ */
+const normalizeProducedEvent = (event: InferArvoEvent<ArvoEvent>, subject: string) => {
+  const { errorStack: _errorStack, ...data } = (event.data ?? {}) as Record<string, any>;
+  return {
+    type: event.type,
+    source: event.source,
+    subject: event.subject === subject ? event.subject : null,
+    to: event.to ?? null,
+    dataschema: event.dataschema ?? null,
+    domain: event.domain ?? null,
+    accesscontrol: event.accesscontrol ?? null,
+    redirectto: event.redirectto ?? null,
+    data,
+  };
+};
+
+/**
+ * Creates an instance of the handler running on in-memory storage, which
+ * records its own history to compare against the recording.
+ */
+const createReplayHandler = (param: ReplayOrchestrationParam, history: SimpleOrchestrationHistoryStore) => {
+  const memory = new SimpleMachineMemory<any>();
+  const timerScheduler = new SimpleTimerScheduler();
+  if (param.handler instanceof ArvoResumable) {
+    return new ArvoResumable({
+      contracts: param.handler.contracts,
+      handler: param.handler.handler,
+      executionunits: param.handler.executionunits,
+      defaultEventEmissionDomains: param.handler.defaultEventEmissionDomains,
+      onCancel: param.handler.onCancel ?? undefined,
+      requiresResourceLocking: false,
+      memory,
+      timerScheduler,
+      history,
+    });
+  }
+  return createArvoOrchestrator({
+    ...(param.orchestrator ?? {}),
+    executionunits: 0,
+    machines: [param.handler],
+    requiresResourceLocking: false,
+    memory,
+    timerScheduler,
+    history,
+  });
+};
+
+/**
+ * Deterministically replays the recorded history of an orchestration and diffs
+ * each step against the recording.
+ *
+ * The recorded consumed events are re-executed in order through a fresh instance
+ * of the machine (via the {@link MachineExecutionEngine}) or of the resumable,
+ * backed by in-memory storage. After every step, the produced events and the
+ * snapshot hash, status, state value and error of the persisted state are compared
+ * with the recorded step, which detects non-determinism in the orchestration
+ * logic and behavioural regressions after code changes.
+ *
+ * The replayed events get new ids, so the ids of the recorded produced events are
+ * mapped onto the replayed ones, and the `parentid` of the consumed responses is
+ * rewritten accordingly before they are re-executed. Every step is replayed, even
+ * after a divergence, so the result shows how far the divergence propagates.
+ *
+ * @param param - The handler and the recorded history of a single orchestration
+ * @returns The step-by-step diff of the replay against the recording
+ *
+ * @throws {Error} When the history is empty or spans multiple subjects
+ *
+ * @example
+ * ```typescript
+ * const recorded = await historyStore.read(subject);
+ * const result = await replayOrchestration({ handler: checkoutMachine, history: recorded });
+ * if (!result.deterministic) {
+ *   console.log(result.steps[result.divergedAt ?? 0].differences);
+ * }
+ * ```
+ */
+export const replayOrchestration = async (param: ReplayOrchestrationParam): Promise<OrchestrationReplayResult> => {
+  if (!param.history.length) {
+    throw new Error('At least one history record must be provided for the replay');
+  }
+  const subject = param.history[0].subject;
+  if (param.history.some((item) => item.subject !== subject)) {
+    throw new Error(`All the history records of a replay must belong to the subject '${subject}'`);
+  }
+
+  const replayHistory = new SimpleOrchestrationHistoryStore();
+  const handler = createReplayHandler(param, replayHistory);
+  // Maps the ids of the recorded produced events to the ids of the replayed ones
+  const eventIdMap: Record<string, string> = {};
+  const steps: OrchestrationReplayStep[] = [];
+
+  for (let sequence = 0; sequence < param.history.length; sequence++) {
+    const recorded = param.history[sequence];
+    const { parentid } = recorded.consumed;
+    const event = reviveArvoEvent({
+      ...recorded.consumed,
+      parentid: parentid ? (eventIdMap[parentid] ?? parentid) : parentid,
+    });
+
+    const recordedCount = (await replayHistory.read(subject)).length;
+    let produced: InferArvoEvent<ArvoEvent>[] = [];
+    let error: string | null = null;
+    try {
+      produced = (await handler.execute(event, { inheritFrom: 'CONTEXT' })).events.map((item: ArvoEvent) =>
+        item.toJSON(),
+      );
+    } catch (e) {
+      error = (e as Error)?.message ?? String(e);
+    }
+    const replayed: OrchestrationHistoryRecord | null = (await replayHistory.read(subject))[recordedCount] ?? null;
+
+    const actual = {
+      produced: (replayed?.produced ?? produced).map((item) => normalizeProducedEvent(item, subject)),
+      snapshotHash: replayed?.snapshotHash ?? null,
+      executionStatus: replayed?.executionStatus ?? null,
+      status: replayed?.status ?? null,
+      value: replayed?.value ?? null,
+      error: replayed?.error ?? error,
+    };
+    const expected = {
+      produced: recorded.produced.map((item) => normalizeProducedEvent(item, subject)),
+      snapshotHash: recorded.snapshotHash,
+      executionStatus: recorded.executionStatus,
+      status: recorded.status,
+      value: recorded.value,
+      error: recorded.error,
+    };
+    const differences: OrchestrationReplayDifference[] = [];
+    for (const field of Object.keys(expected) as OrchestrationReplayDifference['field'][]) {
+      if (stableStringify(expected[field]) !== stableStringify(actual[field])) {
+        differences.push({ field, expected: expected[field], actual: actual[field] });
+      }
+    }
+
+    const replayedProduced = replayed?.produced ?? produced;
+    recorded.produced.forEach((item, index) => {
+      if (replayedProduced[index]?.type === item.type) {
+        eventIdMap[item.id] = replayedProduced[index].id;
+      }
+    });
+
+    steps.push({
+      sequence,
+      consumed: recorded.consumed,
+      produced: replayedProduced,
+      snapshotHash: actual.snapshotHash,
+      error,
+      matches: differences.length === 0,
+      differences,
+    });
+  }
+
+  const diverged = steps.find((item) => !item.matches);
+  return {
+    subject,
+    deterministic: !diverged,
+    divergedAt: diverged?.sequence ?? null,
+    steps,
+  };
+};
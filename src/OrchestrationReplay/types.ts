@@ -0,0 +1,72 @@
+import type { ArvoEvent, InferArvoEvent } from 'arvo-core';
+import type ArvoMachine from '../ArvoMachine';
+import type { CreateArvoOrchestratorParam } from '../ArvoOrchestrator/types';
+import type { ArvoResumable } from '../ArvoResumable';
+import type { OrchestrationHistoryRecord } from '../OrchestrationHistory/types';
+
+/**
+ * Parameters of {@link replayOrchestration}.
+ */
+export type ReplayOrchestrationParam = {
+  /**
+   * The machine or the resumable to replay the history with, usually the
+   * current version of the code which produced the history.
+   */
+  handler: ArvoMachine<any, any, any, any, any> | ArvoResumable<any, any, any>;
+  /**
+   * The recorded steps of a single orchestration in execution order, e.g. the
+   * entries read from an {@link IOrchestrationHistoryStore}.
+   */
+  history: OrchestrationHistoryRecord[];
+  /**
+   * Orchestrator configuration affecting the produced events when replaying a
+   * machine. Should match the configuration of the recording orchestrator.
+   */
+  orchestrator?: Pick<CreateArvoOrchestratorParam, 'defaultEventEmissionDomains' | 'onCancel'>;
+};
+
+/**
+ * A field of a step whose replayed value differs from the recorded one.
+ */
+export type OrchestrationReplayDifference = {
+  /** The compared field of the step */
+  field: 'produced' | 'snapshotHash' | 'executionStatus' | 'status' | 'value' | 'error';
+  /** The recorded value */
+  expected: unknown;
+  /** The replayed value */
+  actual: unknown;
+};
+
+/**
+ * The outcome of replaying a recorded step.
+ */
+export type OrchestrationReplayStep = {
+  /** Position of the step in the replayed history, starting at 0 */
+  sequence: number;
+  /** The recorded event consumed by the step */
+  consumed: InferArvoEvent<ArvoEvent>;
+  /** The events produced by the replay of the step */
+  produced: InferArvoEvent<ArvoEvent>[];
+  /** Hash of the replayed snapshot. Null when the replay did not persist a state */
+  snapshotHash: string | null;
+  /** The error thrown by the replay of the step, null when the execution did not throw */
+  error: string | null;
+  /** Whether the replay reproduced the recorded step */
+  matches: boolean;
+  /** The fields which differ from the recording */
+  differences: OrchestrationReplayDifference[];
+};
+
+/**
+ * The outcome of {@link replayOrchestration}.
+ */
+export type OrchestrationReplayResult = {
+  /** The replayed orchestration subject */
+  subject: string;
+  /** Whether every step of the history was reproduced */
+  deterministic: boolean;
+  /** Sequence of the first step which diverged from the recording, null when none did */
+  divergedAt: number | null;
+  /** The replayed steps in execution order */
+  steps: OrchestrationReplayStep[];
+};
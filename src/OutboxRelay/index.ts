@@ -0,0 +1,154 @@
+import { type ArvoEvent, logToSpan } from 'arvo-core';
+import { v4 as uuid4 } from 'uuid';
+import type { OrchestrationExecutionMemoryRecord } from '../ArvoOrchestrationUtils/orchestrationExecutionState';
+import { reviveArvoEvent } from '../ArvoOrchestrationUtils/reviveArvoEvent';
+import { isQueryableMachineMemory } from '../MachineMemory/utils';
+import { ConfigViolation } from '../errors';
+import type { OutboxDrainResult, OutboxPublisher, OutboxRelayParam } from './types';
+
+/**
+ * Delivers the events staged in the state outbox by handlers running in outbox mode.
+ *
+ * In outbox mode, the orchestrators persist their emitted events in the same memory
+ * write as their new state instead of returning them. The relay reads these pending
+ * events from the memory, publishes them in order through the user-supplied publisher
+ * and removes the published events from the outbox.
+ *
+ * The subject is locked with an owner token while draining, so that a relay never
+ * races a running execution or another relay on the same subject. Delivery is
+ * at-least-once: if the relay crashes after publishing an event but before
+ * persisting its progress, the event is published again by the next drain.
+ *
+ * A drain is triggered per subject, e.g. right after the execution. To recover
+ * the outboxes left pending by a crash, {@link OutboxRelay.drainPending} discovers
+ * the subjects with pending events, which requires a memory implementing
+ * `IQueryableMachineMemory`. With other memories, the subjects to drain must be
+ * tracked by the caller.
+ *
+ * @example
+ * ```typescript
+ * const memory = new SimpleMachineMemory();
+ * const orchestrator = createArvoOrchestrator({ memory, machines, executionunits: 0, outbox: true });
+ * const relay = new OutboxRelay({ memory, publisher: async (event) => broker.publish(event) });
+ *
+ * await orchestrator.execute(event);
+ * await relay.drain(event.subject);
+ * ```
+ */
+export class OutboxRelay {
+  /** The machine memory of the handlers running in outbox mode */
+  readonly memory: OutboxRelayParam['memory'];
+  /** Publisher through which the pending events are delivered */
+  readonly publisher: OutboxPublisher;
+
+  constructor(param: OutboxRelayParam) {
+    this.memory = param.memory;
+    this.publisher = param.publisher;
+  }
+
+  /**
+   * Publishes and removes the pending outbox events of a subject.
+   *
+   * When the publisher fails, the events published before the failure are removed
+   * from the outbox and the publisher error is rethrown. The remaining events stay
+   * pending for the next drain.
+   *
+   * @param subject - The orchestration subject whose outbox is drained
+   * @returns The drain status and the published events
+   *
+   * @throws The publisher error, after the delivery progress has been persisted. A
+   * failure to persist the progress is logged and does not mask the publisher error.
+   */
+  async drain(subject: string): Promise<OutboxDrainResult> {
+    const lockToken = uuid4();
+    const acquired = await this.memory.lock(subject, lockToken);
+    if (!acquired) {
+      logToSpan({
+        level: 'WARNING',
+        message: `Unable to drain the outbox of subject ${subject} as it is locked by another process`,
+      });
+      return { status: 'LOCKED', events: [] };
+    }
+
+    try {
+      const record = await this.memory.read(subject);
+      const pending = record?.outbox ?? [];
+      if (!record || !pending.length) {
+        return { status: 'EMPTY', events: [] };
+      }
+
+      const published: ArvoEvent[] = [];
+      try {
+        for (const item of pending) {
+          const event = reviveArvoEvent(item);
+          await this.publisher(event);
+          published.push(event);
+        }
+      } catch (error) {
+        if (published.length) {
+          try {
+            await this.persistProgress(subject, record, published.length);
+          } catch (e) {
+            logToSpan({
+              level: 'CRITICAL',
+              message: `Failed to persist the outbox delivery progress of subject ${subject}, the ${published.length} delivered events will be published again - ${(e as Error)?.message}`,
+            });
+          }
+        }
+        throw error;
+      }
+
+      await this.persistProgress(subject, record, published.length);
+      return { status: 'DRAINED', events: published };
+    } finally {
+      await this.memory.unlock(subject, lockToken);
+    }
+  }
+
+  /**
+   * Drains the outboxes of all the subjects with pending events, e.g. periodically
+   * or on startup to deliver the events left pending by a crashed process. The
+   * subjects are discovered before draining and drained one after the other.
+   *
+   * @returns The drain result of each discovered subject, by subject
+   *
+   * @throws {ConfigViolation} When the memory does not implement `IQueryableMachineMemory`
+   * @throws The publisher error of the first failing drain, see {@link OutboxRelay.drain}
+   */
+  async drainPending(): Promise<Record<string, OutboxDrainResult>> {
+    if (!isQueryableMachineMemory(this.memory)) {
+      throw new ConfigViolation(
+        'Discovering the pending outboxes requires a machine memory implementing IQueryableMachineMemory with a query method',
+      );
+    }
+    const subjects: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await this.memory.query({ hasPendingOutbox: true, cursor });
+      subjects.push(...page.items.map((item) => item.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const results: Record<string, OutboxDrainResult> = {};
+    for (const subject of subjects) {
+      results[subject] = await this.drain(subject);
+    }
+    return results;
+  }
+
+  /**
+   * Removes the delivered events from the outbox of the subject.
+   */
+  private async persistProgress(
+    subject: string,
+    record: OrchestrationExecutionMemoryRecord<Record<string, any>>,
+    delivered: number,
+  ): Promise<void> {
+    const pending = record.outbox ?? [];
+    await this.memory.write(subject, { ...record, outbox: pending.slice(delivered) }, record);
+    logToSpan({
+      level: 'INFO',
+      message: `Delivered ${delivered} of ${pending.length} outbox events of subject ${subject}`,
+    });
+  }
+}
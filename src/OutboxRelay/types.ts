@@ -0,0 +1,33 @@
+import type { ArvoEvent } from 'arvo-core';
+import type { OrchestrationExecutionMemoryRecord } from '../ArvoOrchestrationUtils/orchestrationExecutionState';
+import type { IMachineMemory } from '../MachineMemory/interface';
+
+/**
+ * Publishes a single event to the event broker. The returned promise must only
+ * resolve once the broker has accepted the event, and reject otherwise.
+ */
+export type OutboxPublisher = (event: ArvoEvent) => Promise<void>;
+
+/**
+ * Configuration parameters for the {@link OutboxRelay} constructor.
+ */
+export type OutboxRelayParam = {
+  /** The machine memory of the handlers running in outbox mode */
+  memory: IMachineMemory<OrchestrationExecutionMemoryRecord<Record<string, any>>>;
+  /** Publisher through which the pending events are delivered */
+  publisher: OutboxPublisher;
+};
+
+/**
+ * Result of draining the outbox of a subject.
+ */
+export type OutboxDrainResult = {
+  /**
+   * - `'DRAINED'`: All the pending events were published and removed from the outbox
+   * - `'EMPTY'`: The subject has no state or no pending events
+   * - `'LOCKED'`: The subject is locked by an execution or another relay, nothing was published
+   */
+  status: 'DRAINED' | 'EMPTY' | 'LOCKED';
+  /** The events published during this drain, in publication order */
+  events: ArvoEvent[];
+};
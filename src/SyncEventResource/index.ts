@@ -3,7 +3,7 @@ import { type ArvoEvent, ArvoOrchestrationSubject, logToSpan } from 'arvo-core';
 import { TransactionViolation, TransactionViolationCause } from '../ArvoOrchestrationUtils/error';
 import type { IMachineMemory } from '../MachineMemory/interface';
 import { ExecutionViolation } from '../errors';
-import type { AcquiredLockStatusType, ReleasedLockStatusType } from './types';
+import type { AcquiredLockStatusType, ReleasedLockStatusType, RenewedLockStatusType } from './types';
 
 /**
  * A synchronous event resource that manages machine memory state based on event subjects.
@@ -50,6 +50,9 @@ export class SyncEventResource<T extends Record<string, any>> {
    * locking is disabled, it will skip the lock acquisition process. The lock is subject-specific,
    * meaning different event subjects can be processed concurrently across services.
    *
+   * When a lock token is provided, it is stored with the lock as its owner so that
+   * only the same execution can release or renew it.
+   *
    * @returns A promise that resolves to the lock acquisition status:
    *          - 'ACQUIRED': Lock was successfully acquired
    *          - 'NOT_ACQUIRED': Lock acquisition failed (resource busy by another service)
@@ -57,7 +60,7 @@ export class SyncEventResource<T extends Record<string, any>> {
    *
    * @throws {TransactionViolation} When lock acquisition fails due to system errors
    */
-  public async acquireLock(event: ArvoEvent, span?: Span): Promise<AcquiredLockStatusType> {
+  public async acquireLock(event: ArvoEvent, span?: Span, lockToken?: string): Promise<AcquiredLockStatusType> {
     if (!this.requiresResourceLocking) {
       logToSpan(
         {
@@ -74,7 +77,7 @@ export class SyncEventResource<T extends Record<string, any>> {
         level: 'INFO',
         message: 'Acquiring lock for the event',
       });
-      const acquired = await this.memory.lock(event.subject);
+      const acquired = await this.memory.lock(event.subject, lockToken);
       return acquired ? 'ACQUIRED' : 'NOT_ACQUIRED';
     } catch (e) {
       throw new TransactionViolation({
@@ -182,9 +185,13 @@ export class SyncEventResource<T extends Record<string, any>> {
    * operations are logged as potential resource leaks but do not throw exceptions to avoid
    * disrupting the main processing flow as it assumes that the lock will have the lifedspan.
    *
+   * When a lock token is provided, a lock which has expired and been acquired by another
+   * execution in the meantime is left untouched.
+   *
    * @returns A promise that resolves to the lock release status:
    *          - 'NOOP': No lock was acquired, so no operation was performed
    *          - 'RELEASED': Lock was successfully released
+   *          - 'NOT_OWNED': Lock is now held by another execution and was not released
    *          - 'ERROR': Lock release failed, potential resource leak
    *
    * @protected
@@ -193,6 +200,7 @@ export class SyncEventResource<T extends Record<string, any>> {
     event: ArvoEvent,
     acquiredLock: AcquiredLockStatusType | null,
     span?: Span,
+    lockToken?: string,
   ): Promise<ReleasedLockStatusType> {
     if (acquiredLock !== 'ACQUIRED') {
       logToSpan(
@@ -205,7 +213,17 @@ export class SyncEventResource<T extends Record<string, any>> {
       return 'NOOP';
     }
     try {
-      await this.memory.unlock(event.subject);
+      const released = await this.memory.unlock(event.subject, lockToken);
+      if (!released) {
+        logToSpan(
+          {
+            level: 'WARNING',
+            message: `Lock for event (subject=${event.subject}) is held by another execution - The lock expired before the execution completed`,
+          },
+          span,
+        );
+        return 'NOT_OWNED';
+      }
       logToSpan(
         {
           level: 'INFO',
@@ -225,4 +243,47 @@ export class SyncEventResource<T extends Record<string, any>> {
       return 'ERROR';
     }
   }
+
+  /**
+   * Extends the TTL of a lock held by this execution.
+   *
+   * Long running executions call this periodically so that the lock does not expire
+   * while the execution still holds it. Memory implementations without lock renewal
+   * support are skipped. Renewal failures are logged and reported via the returned
+   * status without throwing, as the execution can still complete within the lock TTL.
+   *
+   * @returns A promise that resolves to the lock renewal status:
+   *          - 'NOOP': Locking is disabled or the memory does not support renewal
+   *          - 'RENEWED': Lock TTL was successfully extended
+   *          - 'NOT_RENEWED': Lock is no longer held by this execution
+   *          - 'ERROR': Lock renewal failed
+   */
+  public async renewLock(event: ArvoEvent, lockToken: string, span?: Span): Promise<RenewedLockStatusType> {
+    if (!this.requiresResourceLocking || !this.memory.renewLock) {
+      return 'NOOP';
+    }
+    try {
+      const renewed = await this.memory.renewLock(event.subject, lockToken);
+      if (!renewed) {
+        logToSpan(
+          {
+            level: 'WARNING',
+            message: `Unable to renew lock for event (subject=${event.subject}) - The lock is no longer held by this execution`,
+          },
+          span,
+        );
+        return 'NOT_RENEWED';
+      }
+      return 'RENEWED';
+    } catch (err) {
+      logToSpan(
+        {
+          level: 'WARNING',
+          message: `Memory lock renewal operation failed: ${(err as Error).message}`,
+        },
+        span,
+      );
+      return 'ERROR';
+    }
+  }
 }
@@ -1,2 +1,3 @@
 export type AcquiredLockStatusType = 'NOOP' | 'ACQUIRED' | 'NOT_ACQUIRED';
-export type ReleasedLockStatusType = 'NOOP' | 'RELEASED' | 'ERROR';
+export type ReleasedLockStatusType = 'NOOP' | 'RELEASED' | 'NOT_OWNED' | 'ERROR';
+export type RenewedLockStatusType = 'NOOP' | 'RENEWED' | 'NOT_RENEWED' | 'ERROR';
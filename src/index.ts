@@ -1,4 +1,11 @@
 import { assign, emit } from 'xstate';
+import { ArvoCancelEventDataSchema, createArvoCancelEvent, createArvoCancelEventType } from './ArvoCancellation/event';
+import {
+  ArvoCancelEventData,
+  ArvoOrchestrationCancelHook,
+  ArvoOrchestrationCancelHookParam,
+  CreateArvoCancelEventParam,
+} from './ArvoCancellation/types';
 import { ArvoDomain, resolveEventDomain } from './ArvoDomain';
 import ArvoEventHandler from './ArvoEventHandler';
 import { createArvoEventHandler } from './ArvoEventHandler/helpers';
@@ -6,33 +13,134 @@ import {
   ArvoEventHandlerFunction,
   ArvoEventHandlerFunctionInput,
   ArvoEventHandlerFunctionOutput,
+  ArvoEventHandlerIdempotencyOptions,
+  ArvoEventHandlerIdempotencyRecord,
 } from './ArvoEventHandler/types';
 import ArvoMachine from './ArvoMachine';
+import { analyzeArvoMachine } from './ArvoMachine/analyzeArvoMachine';
 import { setupArvoMachine } from './ArvoMachine/createMachine';
-import { ArvoMachineContext, EnqueueArvoEventActionParam } from './ArvoMachine/types';
+import {
+  ArvoMachineAnalysisConfig,
+  ArvoMachineAnalysisIssue,
+  ArvoMachineAnalysisIssueKind,
+  ArvoMachineAnalysisSeverity,
+  ArvoMachineContext,
+  ArvoTimerMachineEvent,
+  CancelArvoTimerActionParam,
+  EnqueueArvoEventActionParam,
+  ScheduleArvoTimerActionParam,
+} from './ArvoMachine/types';
+import { IArvoMiddleware } from './ArvoMiddleware/interface';
+import { ArvoMiddlewareContext, ArvoMiddlewareResult } from './ArvoMiddleware/types';
 import {
   TransactionViolation,
   TransactionViolationCause,
   isTransactionViolationError,
 } from './ArvoOrchestrationUtils/error';
-import { OrchestrationExecutionStatus } from './ArvoOrchestrationUtils/orchestrationExecutionState';
+import {
+  OrchestrationCancellationRecord,
+  OrchestrationExecutionError,
+  OrchestrationExecutionStatus,
+  OrchestrationRecoveryAuditEntry,
+} from './ArvoOrchestrationUtils/orchestrationExecutionState';
+import { LockAcquisitionPolicy } from './ArvoOrchestrationUtils/types';
+import { SimpleTimerScheduler } from './ArvoTimer/Simple';
+import { TimerDispatcher } from './ArvoTimer/TimerDispatcher';
+import { ArvoTimeoutEventType, ArvoTimerEventDataSchema, ArvoTimerEventType } from './ArvoTimer/event';
+import { ITimerScheduler } from './ArvoTimer/interface';
+import { ArvoTimerEventData, ArvoTimerRecord, TimerDispatcherParam } from './ArvoTimer/types';
 import { ArvoOrchestrator } from './ArvoOrchestrator';
 import { createArvoOrchestrator } from './ArvoOrchestrator/factory';
-import { ArvoOrchestratorParam, MachineMemoryRecord } from './ArvoOrchestrator/types';
+import {
+  ArvoOrchestratorParam,
+  MachineDefinitionDriftHookParam,
+  MachineDefinitionDriftPolicy,
+  MachineMemoryRecord,
+} from './ArvoOrchestrator/types';
+import { ArvoOrchestratorGroup } from './ArvoOrchestratorGroup';
+import { createArvoOrchestratorGroup } from './ArvoOrchestratorGroup/factory';
+import { ArvoOrchestratorGroupParam, CreateArvoOrchestratorGroupParam } from './ArvoOrchestratorGroup/types';
 import { ArvoResumable } from './ArvoResumable';
 import { createArvoResumable } from './ArvoResumable/factory';
-import { ArvoResumableHandler, ArvoResumableState } from './ArvoResumable/types';
+import {
+  ArvoResumableHandler,
+  ArvoResumableState,
+  ArvoResumableTimeout,
+  ArvoResumableTimeoutRecord,
+} from './ArvoResumable/types';
+import { ArvoCompensableEventParam, ArvoSagaStep } from './ArvoSaga/types';
+import { generateAsyncApiDocument } from './AsyncApi';
+import {
+  AsyncApiChannel,
+  AsyncApiDocument,
+  AsyncApiMessage,
+  AsyncApiOperation,
+  AsyncApiReference,
+  GenerateAsyncApiDocumentParam,
+} from './AsyncApi/types';
+import { SimpleDeadLetterQueue } from './DeadLetter/Simple';
+import { IDeadLetterSink } from './DeadLetter/interface';
+import { DeadLetter, DeadLetterEntry, DeadLetterQueueFilter } from './DeadLetter/types';
+import { analyzeEventTopology } from './EventTopology';
+import {
+  EventTopologyAnalysis,
+  EventTopologyDiagnostic,
+  EventTopologyEdge,
+  EventTopologyGraph,
+  EventTopologyHandler,
+  EventTopologyNode,
+} from './EventTopology/types';
+import { visualizeEventTopology } from './EventTopology/visualize';
 import IArvoEventHandler from './IArvoEventHandler';
 import { MachineExecutionEngine } from './MachineExecutionEngine';
 import { IMachineExectionEngine } from './MachineExecutionEngine/interface';
 import { ExecuteMachineInput, ExecuteMachineOutput } from './MachineExecutionEngine/types';
-import { SimpleMachineMemory } from './MachineMemory/Simple';
+import { FileSystemMachineMemory, FileSystemMachineMemoryConfig } from './MachineMemory/FileSystem';
+import {
+  ISQLiteDatabase,
+  ISQLiteStatement,
+  SQLiteMachineMemory,
+  SQLiteMachineMemoryConfig,
+} from './MachineMemory/SQLite';
+import { SimpleMachineMemory, SimpleMachineMemoryConfig } from './MachineMemory/Simple';
 import { TelemetredSimpleMachineMemory } from './MachineMemory/TelemetredSimple';
-import { IMachineMemory } from './MachineMemory/interface';
+import { IMachineMemory, IQueryableMachineMemory } from './MachineMemory/interface';
+import { MachineMemoryQuery, MachineMemoryQueryItem, MachineMemoryQueryResult } from './MachineMemory/types';
+import { isQueryableMachineMemory } from './MachineMemory/utils';
 import { MachineRegistry } from './MachineRegistry';
 import { IMachineRegistry } from './MachineRegistry/interface';
+import { pinLatestVersion, tenantVersionPinning, weightedVersionSplit } from './MachineRegistry/routing';
+import {
+  ArvoMachineMigration,
+  ArvoMachineMigrationRecord,
+  MachineRoutingStrategy,
+  MachineRoutingStrategyParam,
+} from './MachineRegistry/types';
+import { SimpleOrchestrationHistoryStore } from './OrchestrationHistory/Simple';
+import { IOrchestrationHistoryStore } from './OrchestrationHistory/interface';
+import { OrchestrationHistoryEntry, OrchestrationHistoryRecord } from './OrchestrationHistory/types';
+import { OrchestrationInspector } from './OrchestrationInspector';
+import { OrchestrationInspectorParam, OrchestrationView, OrchestrationViewPage } from './OrchestrationInspector/types';
+import { OrchestrationRecovery } from './OrchestrationRecovery';
+import {
+  OrchestrationCancelOptions,
+  OrchestrationForceTransitionOptions,
+  OrchestrationRecoveryOptions,
+  OrchestrationRecoveryParam,
+  OrchestrationRetryOptions,
+} from './OrchestrationRecovery/types';
+import { replayOrchestration } from './OrchestrationReplay';
+import {
+  OrchestrationReplayDifference,
+  OrchestrationReplayResult,
+  OrchestrationReplayStep,
+  ReplayOrchestrationParam,
+} from './OrchestrationReplay/types';
+import { OutboxRelay } from './OutboxRelay';
+import { OutboxDrainResult, OutboxPublisher, OutboxRelayParam } from './OutboxRelay/types';
 import { ConfigViolation, ContractViolation, ExecutionViolation } from './errors';
 import {
+  ArvoDiagramFormat,
   ArvoEventHandlerOpenTelemetryOptions,
   ArvoEventHandlerOtelSpanOptions,
   EventHandlerFactory,
@@ -63,6 +171,8 @@ export {
   ArvoEventHandlerFunctionOutput,
   ArvoEventHandlerFunctionInput,
   ArvoEventHandlerFunction,
+  ArvoEventHandlerIdempotencyOptions,
+  ArvoEventHandlerIdempotencyRecord,
   PartialExcept,
   isNullOrUndefined,
   getValueOrDefault,
@@ -75,22 +185,55 @@ export {
   ExecutionViolation,
   ArvoMachine,
   setupArvoMachine,
+  analyzeArvoMachine,
+  ArvoMachineAnalysisConfig,
+  ArvoMachineAnalysisIssue,
+  ArvoMachineAnalysisIssueKind,
+  ArvoMachineAnalysisSeverity,
   ArvoMachineContext,
   EnqueueArvoEventActionParam,
   IMachineRegistry,
   MachineRegistry,
+  ArvoMachineMigration,
+  ArvoMachineMigrationRecord,
+  IArvoMiddleware,
+  ArvoMiddlewareContext,
+  ArvoMiddlewareResult,
+  MachineRoutingStrategy,
+  MachineRoutingStrategyParam,
+  pinLatestVersion,
+  weightedVersionSplit,
+  tenantVersionPinning,
   MachineExecutionEngine,
   IMachineExectionEngine,
   ExecuteMachineInput,
   ExecuteMachineOutput,
   IMachineMemory,
+  IQueryableMachineMemory,
+  MachineMemoryQuery,
+  MachineMemoryQueryItem,
+  MachineMemoryQueryResult,
+  isQueryableMachineMemory,
   SimpleMachineMemory,
+  SimpleMachineMemoryConfig,
+  FileSystemMachineMemory,
+  FileSystemMachineMemoryConfig,
+  SQLiteMachineMemory,
+  SQLiteMachineMemoryConfig,
+  ISQLiteDatabase,
+  ISQLiteStatement,
   MachineMemoryRecord,
   ArvoOrchestratorParam,
+  MachineDefinitionDriftPolicy,
+  MachineDefinitionDriftHookParam,
   TransactionViolation,
   TransactionViolationCause,
   ArvoOrchestrator,
   createArvoOrchestrator,
+  ArvoOrchestratorGroup,
+  createArvoOrchestratorGroup,
+  ArvoOrchestratorGroupParam,
+  CreateArvoOrchestratorGroupParam,
   SimpleEventBroker,
   createSimpleEventBroker,
   TelemetredSimpleMachineMemory,
@@ -103,6 +246,77 @@ export {
   resolveEventDomain,
   isTransactionViolationError,
   OrchestrationExecutionStatus,
+  OrchestrationExecutionError,
+  LockAcquisitionPolicy,
+  OutboxRelay,
+  OutboxRelayParam,
+  OutboxPublisher,
+  OutboxDrainResult,
+  ITimerScheduler,
+  SimpleTimerScheduler,
+  TimerDispatcher,
+  TimerDispatcherParam,
+  ArvoTimerRecord,
+  ArvoTimerEventData,
+  ArvoTimerEventType,
+  ArvoTimeoutEventType,
+  ArvoTimerEventDataSchema,
+  ArvoResumableTimeout,
+  ArvoResumableTimeoutRecord,
+  ScheduleArvoTimerActionParam,
+  CancelArvoTimerActionParam,
+  ArvoTimerMachineEvent,
+  IDeadLetterSink,
+  SimpleDeadLetterQueue,
+  DeadLetter,
+  DeadLetterEntry,
+  DeadLetterQueueFilter,
+  OrchestrationInspector,
+  OrchestrationInspectorParam,
+  OrchestrationView,
+  OrchestrationViewPage,
+  OrchestrationRecovery,
+  OrchestrationRecoveryParam,
+  OrchestrationRecoveryOptions,
+  OrchestrationRetryOptions,
+  OrchestrationForceTransitionOptions,
+  OrchestrationCancelOptions,
+  OrchestrationRecoveryAuditEntry,
+  OrchestrationCancellationRecord,
+  createArvoCancelEventType,
+  createArvoCancelEvent,
+  ArvoCancelEventDataSchema,
+  ArvoCancelEventData,
+  CreateArvoCancelEventParam,
+  ArvoOrchestrationCancelHook,
+  ArvoOrchestrationCancelHookParam,
+  ArvoSagaStep,
+  ArvoCompensableEventParam,
+  IOrchestrationHistoryStore,
+  SimpleOrchestrationHistoryStore,
+  OrchestrationHistoryRecord,
+  OrchestrationHistoryEntry,
+  replayOrchestration,
+  ReplayOrchestrationParam,
+  OrchestrationReplayResult,
+  OrchestrationReplayStep,
+  OrchestrationReplayDifference,
+  visualizeEventTopology,
+  analyzeEventTopology,
+  EventTopologyHandler,
+  EventTopologyAnalysis,
+  EventTopologyDiagnostic,
+  EventTopologyGraph,
+  EventTopologyNode,
+  EventTopologyEdge,
+  generateAsyncApiDocument,
+  GenerateAsyncApiDocumentParam,
+  AsyncApiDocument,
+  AsyncApiChannel,
+  AsyncApiMessage,
+  AsyncApiOperation,
+  AsyncApiReference,
+  ArvoDiagramFormat,
   ArvoEventHandlerOtelSpanOptions,
   runArvoTestSuites,
   ArvoTestStep,
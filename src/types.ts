@@ -44,3 +44,10 @@ export type ArvoEventHandlerOtelSpanOptions = SpanOptions & {
     consumedEvent: ArvoEvent;
   }) => string;
 };
+
+/**
+ * The text formats in which the diagrams of machines and event topologies are rendered:
+ * - `mermaid`: [Mermaid](https://mermaid.js.org) diagram syntax
+ * - `dot`: [Graphviz](https://graphviz.org) DOT language
+ */
+export type ArvoDiagramFormat = 'mermaid' | 'dot';
@@ -0,0 +1,26 @@
+/**
+ * Converts an arbitrary name into an identifier which is valid in Mermaid
+ * and DOT diagrams, replacing all the non-alphanumeric characters.
+ *
+ * @param name - The name to convert
+ * @returns The diagram identifier
+ */
+export const toDiagramId = (name: string): string => name.replace(/[^A-Za-z0-9_]/g, '_');
+
+/**
+ * Escapes a label for use in a quoted Mermaid string.
+ *
+ * @param label - The label to escape
+ * @returns The escaped label
+ */
+export const escapeMermaidLabel = (label: string): string => label.replace(/"/g, '#quot;');
+
+/**
+ * Escapes a label for use in a quoted DOT string. Line breaks are
+ * converted into DOT line break escapes.
+ *
+ * @param label - The label to escape
+ * @returns The escaped label
+ */
+export const escapeDotLabel = (label: string): string =>
+  label.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
@@ -1,3 +1,5 @@
+import { createHash } from 'node:crypto';
+
 /**
  * Represents a path and its corresponding value in an object.
  * @property {string[]} path - An array of strings representing the path to the value.
@@ -71,3 +73,46 @@ export const pathValueToString = (item: PathValue): string => {
   const pathString = item.path.map((i) => `#${i}`).join('.');
   return `${pathString}.${item.value}`;
 };
+
+/**
+ * Serializes a value to JSON with the object keys sorted at every level, so that
+ * equal values always yield the same string regardless of their key order.
+ * Values with a `toJSON` method, such as dates, are serialized through it and
+ * `undefined` object properties are omitted, as with `JSON.stringify`.
+ *
+ * @param value - The JSON serializable value
+ * @returns The deterministic JSON string
+ *
+ * @example
+ * stableStringify({ b: 1, a: { d: 2, c: 3 } });
+ * // '{"a":{"c":3,"d":2},"b":1}'
+ */
+export const stableStringify = (value: unknown): string => {
+  const normalize = (item: any): any => {
+    if (item !== null && typeof item === 'object' && typeof item.toJSON === 'function') {
+      return normalize(item.toJSON());
+    }
+    if (Array.isArray(item)) {
+      return item.map((entry) => (entry === undefined ? null : normalize(entry)));
+    }
+    if (item !== null && typeof item === 'object') {
+      const result: Record<string, any> = {};
+      for (const key of Object.keys(item).sort()) {
+        if (item[key] !== undefined) {
+          result[key] = normalize(item[key]);
+        }
+      }
+      return result;
+    }
+    return item;
+  };
+  return JSON.stringify(normalize(value)) ?? 'null';
+};
+
+/**
+ * Computes the SHA-256 hash of the {@link stableStringify} serialization of a value.
+ *
+ * @param value - The JSON serializable value
+ * @returns The hex encoded hash, equal for equal values regardless of their key order
+ */
+export const stableHash = (value: unknown): string => createHash('sha256').update(stableStringify(value)).digest('hex');
@@ -0,0 +1,199 @@
+import { ArvoOrchestrationSubject, createArvoEvent, createArvoOrchestratorContract } from 'arvo-core';
+import { z } from 'zod';
+import {
+  type ArvoResumableState,
+  type MachineMemoryRecord,
+  SimpleMachineMemory,
+  createArvoCancelEvent,
+  createArvoCancelEventType,
+  createArvoOrchestrator,
+  createArvoResumable,
+  setupArvoMachine,
+} from '../../src';
+import { checkoutContract, paymentContract } from '../checkout/contracts';
+import { createCheckoutInitEvent } from '../checkout/events';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoCancellation', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const shippingContract = createArvoOrchestratorContract({
+    uri: '#/test/cancel/shipping',
+    name: 'test.cancel.shipping',
+    versions: {
+      '1.0.0': {
+        init: z.object({ address: z.string() }),
+        complete: z.object({ shipped: z.boolean() }),
+      },
+    },
+  });
+
+  const machine = setupArvoMachine({
+    contracts: {
+      self: checkoutContract.version('1.0.0'),
+      services: {
+        payment: paymentContract.version('1.0.0'),
+        shipping: shippingContract.version('1.0.0'),
+      },
+    },
+    types: {
+      context: {} as { subject: string; amount: number },
+    },
+  }).createMachine({
+    id: 'checkout',
+    context: ({ input }) => ({ subject: input.subject, amount: input.data.amount }),
+    output: () => ({ paid: true }),
+    initial: 'processing',
+    states: {
+      processing: {
+        entry: [
+          {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({
+              type: 'com.test.checkout.payment',
+              data: { amount: context.amount },
+            }),
+          },
+          {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({
+              type: 'arvo.orc.test.cancel.shipping',
+              data: { parentSubject$$: context.subject, address: 'Home' },
+            }),
+          },
+        ],
+        on: {
+          'evt.test.checkout.payment.success': { target: 'done' },
+        },
+      },
+      done: {
+        type: 'final',
+      },
+    },
+  });
+
+  const createCheckout = () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const onCancel = jest.fn(async ({ context }: { context: Record<string, any> | null }) => [
+      { type: 'com.test.checkout.payment', data: { amount: -(context?.amount ?? 0) } },
+    ]);
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      machines: [machine],
+      onCancel,
+    });
+    const shippingMemory = new SimpleMachineMemory<ArvoResumableState<Record<string, any>>>();
+    const shipping = createArvoResumable({
+      contracts: {
+        self: shippingContract,
+        services: {
+          payment: paymentContract.version('1.0.0'),
+        },
+      },
+      memory: shippingMemory,
+      handler: {
+        '1.0.0': async ({ input }) => {
+          if (input) {
+            return {
+              context: { address: input.data.address },
+              services: [{ type: 'com.test.checkout.payment' as const, data: { amount: 1 } }],
+            };
+          }
+        },
+      },
+    });
+    const initEvent = createCheckoutInitEvent();
+    return { memory, orchestrator, shipping, shippingMemory, initEvent, onCancel };
+  };
+
+  it('should derive the cancel event from the orchestration subject', () => {
+    const { initEvent } = createCheckout();
+    const cancelEvent = createArvoCancelEvent({
+      subject: initEvent.subject,
+      source: 'com.test.client',
+      reason: 'Customer request',
+    });
+    expect(createArvoCancelEventType(checkoutContract.type)).toBe('arvo.orc.test.checkout.cancel');
+    expect(cancelEvent.type).toBe('arvo.orc.test.checkout.cancel');
+    expect(cancelEvent.to).toBe(checkoutContract.type);
+    expect(cancelEvent.data).toEqual({ reason: 'Customer request' });
+  });
+
+  it('should compensate, cancel the children and report the cancellation to the parent', async () => {
+    const { orchestrator, memory, shipping, shippingMemory, initEvent, onCancel } = createCheckout();
+    const [, shippingInit] = (await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).events;
+    expect(shippingInit.type).toBe(shippingContract.type);
+    expect((await memory.read(initEvent.subject))?.children).toEqual([shippingInit.subject]);
+    await shipping.execute(shippingInit, { inheritFrom: 'EVENT' });
+
+    const cancelEvent = createArvoCancelEvent({
+      subject: initEvent.subject,
+      source: 'com.test.client',
+      reason: 'Customer request',
+    });
+    const { events } = await orchestrator.execute(cancelEvent, { inheritFrom: 'EVENT' });
+    expect(onCancel).toHaveBeenCalledTimes(1);
+    expect(onCancel.mock.calls[0][0]).toMatchObject({
+      subject: initEvent.subject,
+      reason: 'Customer request',
+      context: { subject: initEvent.subject, amount: 10 },
+    });
+    expect(events.map((item) => item.type)).toEqual([
+      'com.test.checkout.payment',
+      'arvo.orc.test.cancel.shipping.cancel',
+      checkoutContract.systemError.type,
+    ]);
+    expect(events[0].data.amount).toBe(-10);
+    expect(events[1].subject).toBe(shippingInit.subject);
+    expect(events[2].to).toBe('com.test.client');
+    expect(events[2].data.errorMessage).toBe('Orchestration cancelled - Customer request');
+    expect((await memory.read(initEvent.subject))?.cancellation).toMatchObject({
+      reason: 'Customer request',
+      eventId: cancelEvent.id,
+    });
+
+    // The child cancellation is reported back to the cancelled parent
+    const childEvents = (await shipping.execute(events[1], { inheritFrom: 'EVENT' })).events;
+    expect(childEvents.map((item) => item.type)).toEqual([shippingContract.systemError.type]);
+    expect(childEvents[0].subject).toBe(initEvent.subject);
+    expect((await shippingMemory.read(shippingInit.subject))?.cancellation?.reason).toBe('Customer request');
+
+    // A cancelled orchestration ignores all subsequent events
+    expect((await orchestrator.execute(childEvents[0], { inheritFrom: 'EVENT' })).events).toEqual([]);
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore cancel events of unknown orchestrations', async () => {
+    const { orchestrator, memory } = createCheckout();
+    const subject = ArvoOrchestrationSubject.new({
+      orchestator: checkoutContract.type,
+      version: '1.0.0',
+      initiator: 'com.test.client',
+    });
+    const cancelEvent = createArvoCancelEvent({ subject, source: 'com.test.client' });
+    expect((await orchestrator.execute(cancelEvent, { inheritFrom: 'EVENT' })).events).toEqual([]);
+    expect(await memory.read(subject)).toBeNull();
+  });
+
+  it('should reject cancel events with invalid data', async () => {
+    const { orchestrator, initEvent } = createCheckout();
+    await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+    const cancelEvent = createArvoEvent<Record<string, any>, Record<string, any>, string>({
+      type: createArvoCancelEventType(checkoutContract.type),
+      source: 'com.test.client',
+      subject: initEvent.subject,
+      to: checkoutContract.type,
+      data: { reason: 42 },
+    });
+    await expect(orchestrator.execute(cancelEvent, { inheritFrom: 'EVENT' })).rejects.toThrow(
+      'Cancel event data does not meet the cancel schema',
+    );
+  });
+});
@@ -14,6 +14,7 @@ import {
   type ArvoTestSuite,
   ExecutionViolation,
   type IArvoTestFramework,
+  SimpleMachineMemory,
   createArvoEventHandler,
   runArvoTestSuites,
 } from '../../src';
@@ -939,6 +940,87 @@ describe('ArvoEventHandler', () => {
     await expect(handler.execute(mockEvent)).rejects.toThrow('ViolationError<Contract>');
   });
 
+  describe('idempotency', () => {
+    const createIdempotentHandler = (ttlMs?: number) => {
+      const calls = { count: 0 };
+      const store = new SimpleMachineMemory<any>();
+      const handler = createArvoEventHandler({
+        contract: mockContract,
+        executionunits: 100,
+        idempotency: { store, ttlMs },
+        handler: {
+          '0.0.1': async ({ event }) => {
+            calls.count++;
+            if (event.data.age < 0) throw new Error('Invalid age');
+            return {
+              type: 'evt.hello.world.success',
+              data: {
+                result: `Call ${calls.count} for ${event.data.name}`,
+              },
+            };
+          },
+        },
+      });
+      return { handler, store, calls };
+    };
+
+    it('should replay the cached events for a redelivered event', async () => {
+      const { handler, calls } = createIdempotentHandler();
+      const first = await handler.execute(mockEvent);
+      const second = await handler.execute(mockEvent);
+      expect(calls.count).toBe(1);
+      expect(second.events).toHaveLength(1);
+      expect(second.events[0].id).toBe(first.events[0].id);
+      expect(second.events[0].data).toEqual(first.events[0].data);
+    });
+
+    it('should use the custom idempotency key', async () => {
+      const calls = { count: 0 };
+      const handler = createArvoEventHandler({
+        contract: mockContract,
+        executionunits: 100,
+        idempotency: { store: new SimpleMachineMemory<any>(), key: (event) => event.subject },
+        handler: {
+          '0.0.1': async () => {
+            calls.count++;
+            return { type: 'evt.hello.world.success', data: { result: 'done' } };
+          },
+        },
+      });
+      await handler.execute(mockEvent);
+      await handler.execute(
+        createArvoEventFactory(mockContract.version('0.0.1')).accepts({
+          source: 'com.test.env',
+          subject: mockEvent.subject,
+          data: { name: 'Other', age: 2 },
+        }),
+      );
+      expect(calls.count).toBe(1);
+    });
+
+    it('should execute the handler again once the cached result expires', async () => {
+      const { handler, calls } = createIdempotentHandler(10);
+      await handler.execute(mockEvent);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      await handler.execute(mockEvent);
+      expect(calls.count).toBe(2);
+    });
+
+    it('should not cache system error results', async () => {
+      const { handler, store, calls } = createIdempotentHandler();
+      const failingEvent = createArvoEventFactory(mockContract.version('0.0.1')).accepts({
+        source: 'com.test.env',
+        subject: 'test-subject',
+        data: { name: 'Saad Ahmad', age: -1 },
+      });
+      const result = await handler.execute(failingEvent);
+      expect(result.events[0].type).toBe(mockContract.systemError.type);
+      expect(await store.read(failingEvent.id)).toBeNull();
+      await handler.execute(failingEvent);
+      expect(calls.count).toBe(2);
+    });
+  });
+
   describe('parentid support', () => {
     const parentIdTestSuites: ArvoTestSuite[] = [
       {
@@ -0,0 +1,128 @@
+import { createArvoContract, createArvoOrchestratorContract } from 'arvo-core';
+import { z } from 'zod';
+import { analyzeArvoMachine, setupArvoMachine } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('analyzeArvoMachine', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const selfContract = createArvoOrchestratorContract({
+    uri: '#/test/analysis/checkout',
+    name: 'test.analysis.checkout',
+    versions: {
+      '1.0.0': {
+        init: z.object({ amount: z.number() }),
+        complete: z.object({ paid: z.boolean() }),
+      },
+    },
+  });
+
+  const paymentContract = createArvoContract({
+    uri: '#/test/analysis/payment',
+    type: 'com.test.analysis.payment',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ amount: z.number() }),
+        emits: {
+          'evt.test.analysis.payment.success': z.object({ paid: z.boolean() }),
+          'evt.test.analysis.payment.declined': z.object({ reason: z.string() }),
+        },
+      },
+    },
+  });
+
+  const setup = setupArvoMachine({
+    contracts: {
+      self: selfContract.version('1.0.0'),
+      services: { payment: paymentContract.version('1.0.0') },
+    },
+    types: {
+      context: {} as { amount: number },
+    },
+  });
+
+  it('should not report issues for a machine covering its contracts', () => {
+    const machine = setup.createMachine({
+      id: 'checkout',
+      context: ({ input }) => ({ amount: input.data.amount }),
+      output: () => ({ paid: true }),
+      initial: 'paying',
+      states: {
+        paying: {
+          entry: { type: 'enqueueArvoEvent', params: { type: 'com.test.analysis.payment', data: { amount: 1 } } },
+          on: {
+            'evt.test.analysis.payment.success': { target: 'done' },
+            'evt.test.analysis.payment.declined': { target: 'failed' },
+            'sys.com.test.analysis.payment.error': { target: 'failed' },
+          },
+        },
+        failed: { type: 'final' },
+        done: { type: 'final' },
+      },
+    });
+    expect(analyzeArvoMachine(machine)).toEqual([]);
+    expect(machine.warnings).toEqual([]);
+  });
+
+  it('should report the unhandled service events, undeclared enqueued events, unreachable states and missing outputs', () => {
+    const machine = setup.createMachine({
+      id: 'checkout',
+      context: ({ input }) => ({ amount: input.data.amount }),
+      initial: 'paying',
+      states: {
+        paying: {
+          entry: {
+            type: 'enqueueArvoEvent',
+            params: { type: 'com.test.analysis.refund', data: { amount: 1 } } as any,
+          },
+          on: { 'evt.test.analysis.payment.*': { target: 'done' } },
+        },
+        orphan: {
+          initial: 'nested',
+          states: { nested: {} },
+        },
+        done: { type: 'final' },
+      },
+    });
+    const issues = analyzeArvoMachine(machine);
+    expect(issues.map((item) => [item.kind, item.path.join('.'), item.eventType])).toEqual([
+      ['unhandledServiceEvent', '', 'sys.com.test.analysis.payment.error'],
+      ['undeclaredServiceEvent', 'paying', 'com.test.analysis.refund'],
+      ['unreachableState', 'orphan', undefined],
+      ['finalStateWithoutOutput', 'done', undefined],
+    ]);
+    expect(issues.every((item) => item.severity === 'warning')).toBe(true);
+    expect(machine.warnings).toEqual(issues);
+    expect(analyzeArvoMachine(machine, { unreachableState: 'ignore', unhandledServiceEvent: 'error' })).toEqual([
+      expect.objectContaining({ kind: 'unhandledServiceEvent', severity: 'error' }),
+      expect.objectContaining({ kind: 'undeclaredServiceEvent', severity: 'warning' }),
+      expect.objectContaining({ kind: 'finalStateWithoutOutput', severity: 'warning' }),
+    ]);
+  });
+
+  it('should fail the machine creation on issues configured as errors', () => {
+    const createMachine = () =>
+      setup.createMachine({
+        id: 'checkout',
+        analysis: { unhandledServiceEvent: 'error' },
+        context: ({ input }) => ({ amount: input.data.amount }),
+        output: () => ({ paid: true }),
+        initial: 'paying',
+        states: {
+          paying: {
+            on: { 'evt.test.analysis.payment.success': { target: 'done' } },
+          },
+          done: { type: 'final' },
+        },
+      });
+    expect(createMachine).toThrow(
+      "The event 'evt.test.analysis.payment.declined' of the service contract '#/test/analysis/payment' is not handled by any state",
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { createArvoContract, createArvoOrchestratorContract } from 'arvo-core';
+import { z } from 'zod';
+import { setupArvoMachine } from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoMachine.visualize', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const selfContract = createArvoOrchestratorContract({
+    uri: '#/test/visualize/checkout',
+    name: 'test.visualize.checkout',
+    versions: {
+      '1.0.0': {
+        init: z.object({ amount: z.number() }),
+        complete: z.object({ paid: z.boolean() }),
+      },
+    },
+  });
+
+  const paymentContract = createArvoContract({
+    uri: '#/test/visualize/payment',
+    type: 'com.test.visualize.payment',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ amount: z.number() }),
+        emits: {
+          'evt.test.visualize.payment.success': z.object({ paid: z.boolean() }),
+        },
+      },
+    },
+  });
+
+  const machine = setupArvoMachine({
+    contracts: {
+      self: selfContract.version('1.0.0'),
+      services: { payment: paymentContract.version('1.0.0') },
+    },
+    types: {
+      context: {} as { amount: number },
+    },
+    guards: {
+      isPaid: ({ event }) => event.type === 'evt.test.visualize.payment.success' && event.data.paid,
+    },
+  }).createMachine({
+    id: 'checkout',
+    context: ({ input }) => ({ amount: input.data.amount }),
+    output: () => ({ paid: true }),
+    initial: 'processing',
+    states: {
+      processing: {
+        initial: 'paying',
+        states: {
+          paying: {
+            entry: [
+              { type: 'enqueueArvoEvent', params: { type: 'com.test.visualize.payment', data: { amount: 1 } } },
+              {
+                type: 'enqueueArvoEvent',
+                params: ({ context }) => ({ type: 'com.test.visualize.payment', data: { amount: context.amount } }),
+              },
+            ],
+            on: {
+              'evt.test.visualize.payment.success': { target: '#checkout.done', guard: 'isPaid' },
+            },
+          },
+        },
+        on: { 'sys.com.test.visualize.payment.error': { target: 'failed' } },
+      },
+      failed: { type: 'final' },
+      done: { type: 'final' },
+    },
+  });
+
+  it('should render the state graph as a Mermaid state diagram', () => {
+    expect(machine.visualize()).toBe(
+      [
+        'stateDiagram-v2',
+        '  [*] --> checkout_processing',
+        '  state "processing" as checkout_processing {',
+        '    [*] --> checkout_processing_paying',
+        '    state "paying" as checkout_processing_paying',
+        '    checkout_processing_paying : emits com.test.visualize.payment',
+        '    checkout_processing_paying : emits (dynamic)',
+        '    checkout_processing_paying --> checkout_done : evt.test.visualize.payment.success [isPaid]',
+        '  }',
+        '  checkout_processing --> checkout_failed : sys.com.test.visualize.payment.error',
+        '  state "failed" as checkout_failed',
+        '  checkout_failed --> [*]',
+        '  state "done" as checkout_done',
+        '  checkout_done --> [*]',
+      ].join('\n'),
+    );
+  });
+
+  it('should render the state graph as a DOT digraph with clusters for nested states', () => {
+    const diagram = machine.visualize('dot');
+    expect(diagram.startsWith('digraph "checkout" {')).toBe(true);
+    expect(diagram).toContain('subgraph "cluster_checkout.processing" {');
+    expect(diagram).toContain(
+      '"checkout.processing.paying" [label="paying\\nemits com.test.visualize.payment\\nemits (dynamic)"];',
+    );
+    expect(diagram).toContain('"checkout.done" [label="done", peripheries=2];');
+    expect(diagram).toContain(
+      '"checkout.processing.paying" -> "checkout.failed" [label="sys.com.test.visualize.payment.error", ltail="cluster_checkout.processing"];',
+    );
+    expect(diagram).toContain('"checkout.[*]" -> "checkout.processing.paying" [lhead="cluster_checkout.processing"];');
+  });
+});
@@ -0,0 +1,215 @@
+import {
+  createArvoEvent,
+  createArvoEventFactory,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+  createSimpleArvoContract,
+} from 'arvo-core';
+import { z } from 'zod';
+import {
+  type ArvoResumableState,
+  ExecutionViolation,
+  type IArvoMiddleware,
+  type MachineMemoryRecord,
+  SimpleMachineMemory,
+  createArvoEventHandler,
+  createArvoOrchestrator,
+  createArvoResumable,
+  setupArvoMachine,
+} from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoMiddleware', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const paymentContract = createSimpleArvoContract({
+    uri: '#/test/middleware/payment',
+    type: 'test.middleware.payment',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ amount: z.number(), cardNumber: z.string() }),
+        emits: z.object({ paid: z.boolean(), cardNumber: z.string() }),
+      },
+    },
+  });
+
+  const checkoutContract = createArvoOrchestratorContract({
+    uri: '#/test/middleware/checkout',
+    name: 'test.middleware.checkout',
+    versions: {
+      '1.0.0': {
+        init: z.object({ amount: z.number() }),
+        complete: z.object({ paid: z.boolean() }),
+      },
+    },
+  });
+
+  const createPaymentEvent = (accesscontrol?: string) =>
+    createArvoEventFactory(paymentContract.version('1.0.0')).accepts({
+      source: 'com.test.client',
+      accesscontrol,
+      data: { amount: 10, cardNumber: '4242424242424242' },
+    });
+
+  const createCheckoutInit = (accesscontrol?: string) =>
+    createArvoOrchestratorEventFactory(checkoutContract.version('1.0.0')).init({
+      source: 'com.test.client',
+      accesscontrol,
+      data: { parentSubject$$: null, amount: 10 },
+    });
+
+  const accessControl: IArvoMiddleware = {
+    name: 'accessControl',
+    before: async ({ event }) => {
+      if (event.accesscontrol !== 'role=cashier') {
+        throw new ExecutionViolation(`Access denied for event id: ${event.id}`);
+      }
+    },
+  };
+
+  const redaction: IArvoMiddleware = {
+    name: 'redaction',
+    after: async ({ events }) => ({
+      events: events.map((item) =>
+        createArvoEvent({ ...item.toJSON(), data: { ...item.data, cardNumber: '****' } } as any),
+      ),
+    }),
+  };
+
+  it('should run the hooks around the handler in onion order', async () => {
+    const calls: string[] = [];
+    const tracing = (name: string): IArvoMiddleware => ({
+      name,
+      before: async ({ contract, handlerType }) => {
+        calls.push(`${name}.before(${handlerType}@${contract.version})`);
+      },
+      after: async ({ events }) => {
+        calls.push(`${name}.after(${events.length})`);
+      },
+    });
+    const handler = jest.fn(async ({ event }: { event: { data: { cardNumber: string } } }) => ({
+      type: 'evt.test.middleware.payment.success' as const,
+      data: { paid: true, cardNumber: event.data.cardNumber },
+    }));
+    const paymentHandler = createArvoEventHandler({
+      contract: paymentContract,
+      executionunits: 0,
+      middlewares: [tracing('outer'), accessControl, redaction, tracing('inner')],
+      handler: { '1.0.0': handler },
+    });
+
+    const { events } = await paymentHandler.execute(createPaymentEvent('role=cashier'), { inheritFrom: 'EVENT' });
+    expect(events.map((item) => [item.type, item.data])).toEqual([
+      ['evt.test.middleware.payment.success', { paid: true, cardNumber: '****' }],
+    ]);
+    expect(calls).toEqual([
+      'outer.before(handler@1.0.0)',
+      'inner.before(handler@1.0.0)',
+      'inner.after(1)',
+      'outer.after(1)',
+    ]);
+
+    await expect(paymentHandler.execute(createPaymentEvent(), { inheritFrom: 'EVENT' })).rejects.toThrow(
+      'Access denied for event id',
+    );
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should short-circuit the handler and recover from its errors', async () => {
+    const handler = jest.fn(async () => {
+      throw new Error('Payment gateway unavailable');
+    });
+    const paymentHandler = createArvoEventHandler({
+      contract: paymentContract,
+      executionunits: 0,
+      middlewares: [
+        {
+          before: async ({ event }) => (event.accesscontrol === 'rate=exceeded' ? { events: [] } : undefined),
+          onError: async ({ error, event }) => ({
+            events: [
+              createArvoEventFactory(paymentContract.version('1.0.0')).emits({
+                type: 'evt.test.middleware.payment.success',
+                source: paymentContract.type,
+                subject: event.subject,
+                to: event.source,
+                data: { paid: false, cardNumber: (error as Error).message },
+              }),
+            ],
+          }),
+        },
+      ],
+      handler: { '1.0.0': handler },
+    });
+
+    expect(
+      (await paymentHandler.execute(createPaymentEvent('rate=exceeded'), { inheritFrom: 'EVENT' })).events,
+    ).toEqual([]);
+    expect(handler).not.toHaveBeenCalled();
+
+    const { events } = await paymentHandler.execute(createPaymentEvent(), { inheritFrom: 'EVENT' });
+    expect(events.map((item) => [item.type, item.data])).toEqual([
+      ['evt.test.middleware.payment.success', { paid: false, cardNumber: 'Payment gateway unavailable' }],
+    ]);
+  });
+
+  it('should apply the middlewares to the orchestrators before acquiring the state', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const completions: string[] = [];
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      middlewares: [
+        accessControl,
+        {
+          after: async ({ events, contract, handlerType }) => {
+            completions.push(...events.map((item) => `${handlerType}@${contract.version}:${item.type}`));
+          },
+        },
+      ],
+      machines: [
+        setupArvoMachine({
+          contracts: { self: checkoutContract.version('1.0.0'), services: {} },
+        }).createMachine({
+          id: 'checkout',
+          output: () => ({ paid: true }),
+          initial: 'done',
+          states: { done: { type: 'final' } },
+        }),
+      ],
+    });
+
+    const rejectedInit = createCheckoutInit();
+    await expect(orchestrator.execute(rejectedInit, { inheritFrom: 'EVENT' })).rejects.toThrow('Access denied');
+    expect(await memory.read(rejectedInit.subject)).toBeNull();
+
+    const init = createCheckoutInit('role=cashier');
+    const { events } = await orchestrator.execute(init, { inheritFrom: 'EVENT' });
+    expect(events.map((item) => item.type)).toEqual(['arvo.orc.test.middleware.checkout.done']);
+    expect(completions).toEqual(['orchestrator@1.0.0:arvo.orc.test.middleware.checkout.done']);
+    expect((await memory.read(init.subject))?.status).toBe('done');
+  });
+
+  it('should keep the state of a resumable recovered from an error', async () => {
+    const memory = new SimpleMachineMemory<ArvoResumableState<Record<string, any>>>();
+    const resumable = createArvoResumable({
+      contracts: { self: checkoutContract, services: {} },
+      memory,
+      middlewares: [{ onError: async () => ({ events: [] }) }],
+      handler: {
+        '1.0.0': async () => {
+          throw new Error('Checkout unavailable');
+        },
+      },
+    });
+
+    const init = createCheckoutInit();
+    expect((await resumable.execute(init, { inheritFrom: 'EVENT' })).events).toEqual([]);
+    expect(await memory.read(init.subject)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { trace } from '@opentelemetry/api';
+import { ArvoOrchestrationSubject, createArvoEvent } from 'arvo-core';
+import { SimpleMachineMemory, type TransactionViolation, TransactionViolationCause } from '../../src';
+import { acquireLockWithValidation } from '../../src/ArvoOrchestrationUtils/orchestrationExecutionWrapper/acquireLockWithValidation';
+import { SyncEventResource } from '../../src/SyncEventResource';
+
+describe('acquireLockWithValidation', () => {
+  const span = trace.getTracer('test').startSpan('test');
+  const event = createArvoEvent({
+    source: 'com.test.source',
+    type: 'com.test.orchestrator',
+    subject: ArvoOrchestrationSubject.new({
+      orchestator: 'com.test.orchestrator',
+      initiator: 'com.test.source',
+      version: '1.0.0',
+    }),
+    data: {},
+  });
+
+  let memory: SimpleMachineMemory;
+  let resource: SyncEventResource<Record<string, any>>;
+
+  const lockUnacquiredMessage =
+    'ViolationError<OrchestratorTransaction> [LOCK_UNACQUIRED] Lock acquisition denied - Unable to obtain exclusive access to event processing';
+
+  beforeEach(() => {
+    memory = new SimpleMachineMemory();
+    resource = new SyncEventResource(memory, true);
+  });
+
+  it('should fail immediately without a policy when the lock is held', async () => {
+    await memory.lock(event.subject, 'other');
+    const lockSpy = jest.spyOn(memory, 'lock');
+    await expect(acquireLockWithValidation(resource, event, span, 'token')).rejects.toThrow(lockUnacquiredMessage);
+    expect(lockSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should acquire the lock once it is released by the parallel execution', async () => {
+    await memory.lock(event.subject, 'other');
+    setTimeout(() => memory.unlock(event.subject, 'other'), 30);
+    const result = await acquireLockWithValidation(resource, event, span, 'token', {
+      attempts: 10,
+      backoffMs: 10,
+      jitter: 0,
+    });
+    expect(result).toBe('ACQUIRED');
+    expect(await memory.unlock(event.subject, 'other')).toBe(false);
+  });
+
+  it('should give up after the configured attempts', async () => {
+    await memory.lock(event.subject, 'other');
+    const lockSpy = jest.spyOn(memory, 'lock');
+    const error = await acquireLockWithValidation(resource, event, span, 'token', {
+      attempts: 3,
+      backoffMs: 1,
+    }).catch((e) => e);
+    expect((error as TransactionViolation).name).toBe('ViolationError<OrchestratorTransaction>');
+    expect((error as TransactionViolation).cause).toBe(TransactionViolationCause.LOCK_UNACQUIRED);
+    expect(lockSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop retrying once the maximum wait time is exhausted', async () => {
+    await memory.lock(event.subject, 'other');
+    const lockSpy = jest.spyOn(memory, 'lock');
+    await expect(
+      acquireLockWithValidation(resource, event, span, 'token', {
+        attempts: 100,
+        backoffMs: 20,
+        jitter: 0,
+        maxWaitMs: 50,
+      }),
+    ).rejects.toThrow(lockUnacquiredMessage);
+    // Waits 20ms, then 30ms (capped by the 50ms budget)
+    expect(lockSpy).toHaveBeenCalledTimes(3);
+  });
+});
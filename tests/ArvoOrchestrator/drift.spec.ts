@@ -0,0 +1,106 @@
+import { type MachineMemoryRecord, SimpleMachineMemory, createArvoOrchestrator, setupArvoMachine } from '../../src';
+import { checkoutContract, paymentContract } from '../checkout/contracts';
+import { createCheckoutInitEvent, createPaymentSuccessEvent } from '../checkout/events';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoOrchestrator definition drift', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const createMachine = (awaitingState: string, extraStates: Record<string, any> = {}) =>
+    setupArvoMachine({
+      contracts: {
+        self: checkoutContract.version('1.0.0'),
+        services: { payment: paymentContract.version('1.0.0') },
+      },
+      types: {
+        context: {} as { amount: number },
+      },
+    }).createMachine({
+      id: 'checkout',
+      context: ({ input }) => ({ amount: input.data.amount }),
+      output: () => ({ paid: true }),
+      initial: awaitingState,
+      states: {
+        [awaitingState]: {
+          entry: {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({ type: 'com.test.checkout.payment', data: { amount: context.amount } }),
+          },
+          on: { 'evt.test.checkout.payment.success': { target: 'done' } },
+        },
+        done: { type: 'final' },
+        ...extraStates,
+      },
+    });
+
+  const startCheckout = async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const machine = createMachine('paying');
+    const orchestrator = createArvoOrchestrator({ memory, executionunits: 0, machines: [machine] });
+    const initEvent = createCheckoutInitEvent();
+    const [paymentRequest] = (await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).events;
+    const paymentSuccess = createPaymentSuccessEvent({ subject: paymentRequest.subject, to: paymentRequest.source });
+    return { memory, machine, initEvent, paymentSuccess };
+  };
+
+  it('should compute a fingerprint which only changes with the definition', () => {
+    expect(createMachine('paying').fingerprint()).toBe(createMachine('paying').fingerprint());
+    expect(createMachine('paying').fingerprint()).not.toBe(createMachine('awaitingPayment').fingerprint());
+  });
+
+  it('should persist the fingerprint of the machine', async () => {
+    const { memory, machine, initEvent } = await startCheckout();
+    expect((await memory.read(initEvent.subject))?.machineFingerprint).toBe(machine.fingerprint());
+  });
+
+  it('should continue on the drifted definition by default and record its fingerprint', async () => {
+    const { memory, initEvent, paymentSuccess } = await startCheckout();
+    const machine = createMachine('paying', { cancelled: { type: 'final' } });
+    const orchestrator = createArvoOrchestrator({ memory, executionunits: 0, machines: [machine] });
+
+    const { events } = await orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' });
+    expect(events[0].data.paid).toBe(true);
+    expect((await memory.read(initEvent.subject))?.machineFingerprint).toBe(machine.fingerprint());
+  });
+
+  it('should reject the execution on drift with the reject policy', async () => {
+    const { memory, initEvent, paymentSuccess } = await startCheckout();
+    const state = await memory.read(initEvent.subject);
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      machines: [createMachine('awaitingPayment')],
+      onDefinitionDrift: 'reject',
+    });
+
+    await expect(orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' })).rejects.toThrow(
+      `Machine definition drift detected for ${initEvent.subject}`,
+    );
+    expect(await memory.read(initEvent.subject)).toEqual(state);
+  });
+
+  it('should migrate the snapshot with the drift hook', async () => {
+    const { memory, initEvent, paymentSuccess } = await startCheckout();
+    const machine = createMachine('awaitingPayment');
+    const onDefinitionDrift = jest.fn(({ snapshot }) => ({ ...snapshot, value: 'awaitingPayment' }));
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      machines: [machine],
+      onDefinitionDrift,
+    });
+
+    const { events } = await orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' });
+    expect(events[0].data.paid).toBe(true);
+    expect(onDefinitionDrift).toHaveBeenCalledWith(
+      expect.objectContaining({ subject: initEvent.subject, machine, fingerprint: machine.fingerprint() }),
+    );
+    expect((await memory.read(initEvent.subject))?.value).toBe('done');
+  });
+});
@@ -9,7 +9,7 @@ import {
   createSimpleArvoContract,
 } from 'arvo-core';
 import { z } from 'zod';
-import { ExecutionViolation, xstate } from '../../src';
+import { ExecutionViolation, OutboxRelay, xstate } from '../../src';
 import {
   type ArvoOrchestrator,
   type MachineMemoryRecord,
@@ -656,6 +656,73 @@ describe('ArvoOrchestrator', () => {
     expect(events.events.length).toBe(0);
   });
 
+  it('should replay previously produced events when an event is redelivered', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const orchestrator = createArvoOrchestrator({
+      executionunits: 0.1,
+      memory,
+      deduplicationWindow: 5,
+      machines: [...(handlers.incrementAgent as ArvoOrchestrator).registry.machines],
+    });
+
+    const initEvent = createArvoOrchestratorEventFactory(incrementOrchestratorContract.version('0.0.1')).init({
+      source: 'com.test.test',
+      data: {
+        parentSubject$$: null,
+        key: 'test.dedup',
+        modifier: 2,
+        trend: 'linear',
+      },
+    });
+
+    const firstDelivery = await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+    expect(firstDelivery.events.length).toBe(1);
+    expect((await memory.read(initEvent.subject))?.consumedEventIds).toEqual([initEvent.id]);
+
+    const writeSpy = jest.spyOn(memory, 'write');
+    const redelivery = await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+    expect(writeSpy).not.toHaveBeenCalled();
+    expect(redelivery.events.length).toBe(1);
+    expect(redelivery.events[0].id).toBe(firstDelivery.events[0].id);
+    expect(redelivery.events[0].type).toBe(firstDelivery.events[0].type);
+    expect(redelivery.events[0].data).toEqual(firstDelivery.events[0].data);
+  });
+
+  it('should stage emitted events in the state outbox in outbox mode', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const orchestrator = createArvoOrchestrator({
+      executionunits: 0.1,
+      memory,
+      outbox: true,
+      machines: [...(handlers.incrementAgent as ArvoOrchestrator).registry.machines],
+    });
+
+    const initEvent = createArvoOrchestratorEventFactory(incrementOrchestratorContract.version('0.0.1')).init({
+      source: 'com.test.test',
+      data: {
+        parentSubject$$: null,
+        key: 'test.outbox',
+        modifier: 2,
+        trend: 'linear',
+      },
+    });
+
+    const { events } = await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+    expect(events.length).toBe(0);
+
+    const state = await memory.read(initEvent.subject);
+    expect(state?.outbox?.length).toBe(1);
+    expect(state?.outbox?.[0]).toEqual(state?.executionStatus === 'normal' ? state.events.produced[0] : undefined);
+
+    const published: ArvoEvent[] = [];
+    const relay = new OutboxRelay({ memory, publisher: async (event) => void published.push(event) });
+    const result = await relay.drain(initEvent.subject);
+    expect(result.status).toBe('DRAINED');
+    expect(published.map((item) => item.id)).toEqual([state?.outbox?.[0].id]);
+    expect((await memory.read(initEvent.subject))?.outbox).toEqual([]);
+    expect((await relay.drain(initEvent.subject)).status).toBe('EMPTY');
+  });
+
   it('should have system error schema which is standard', () => {
     expect(handlers.decrementAgent.systemErrorSchema.type).toBe(decrementOrchestratorContract.systemError.type);
   });
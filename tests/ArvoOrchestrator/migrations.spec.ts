@@ -0,0 +1,171 @@
+import { createArvoOrchestratorContract, createArvoOrchestratorEventFactory } from 'arvo-core';
+import { z } from 'zod';
+import { type MachineMemoryRecord, SimpleMachineMemory, createArvoOrchestrator, setupArvoMachine } from '../../src';
+import { paymentContract } from '../checkout/contracts';
+import { createPaymentSuccessEvent } from '../checkout/events';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoOrchestrator snapshot migrations', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const checkoutContract = createArvoOrchestratorContract({
+    uri: '#/test/migration/checkout',
+    name: 'test.migration.checkout',
+    versions: {
+      '1.0.0': {
+        init: z.object({ amount: z.number() }),
+        complete: z.object({ receipt: z.string() }),
+      },
+      '2.0.0': {
+        init: z.object({ amount: z.number(), currency: z.string() }),
+        complete: z.object({ receipt: z.string() }),
+      },
+    },
+  });
+
+  const machineV1 = setupArvoMachine({
+    contracts: {
+      self: checkoutContract.version('1.0.0'),
+      services: { payment: paymentContract.version('1.0.0') },
+    },
+    types: {
+      context: {} as { amount: number },
+    },
+  }).createMachine({
+    id: 'checkout',
+    context: ({ input }) => ({ amount: input.data.amount }),
+    output: ({ context }) => ({ receipt: `v1:${context.amount}` }),
+    initial: 'paying',
+    states: {
+      paying: {
+        entry: {
+          type: 'enqueueArvoEvent',
+          params: ({ context }) => ({ type: 'com.test.checkout.payment', data: { amount: context.amount } }),
+        },
+        on: { 'evt.test.checkout.payment.success': { target: 'done' } },
+      },
+      done: { type: 'final' },
+    },
+  });
+
+  // Version 2.0.0 renames the awaiting state and tracks the currency
+  const machineV2 = setupArvoMachine({
+    contracts: {
+      self: checkoutContract.version('2.0.0'),
+      services: { payment: paymentContract.version('1.0.0') },
+    },
+    types: {
+      context: {} as { amount: number; currency: string },
+    },
+  }).createMachine({
+    id: 'checkout',
+    context: ({ input }) => ({ amount: input.data.amount, currency: input.data.currency }),
+    output: ({ context }) => ({ receipt: `v2:${context.amount}${context.currency}` }),
+    initial: 'awaitingPayment',
+    states: {
+      awaitingPayment: {
+        entry: {
+          type: 'enqueueArvoEvent',
+          params: ({ context }) => ({ type: 'com.test.checkout.payment', data: { amount: context.amount } }),
+        },
+        on: { 'evt.test.checkout.payment.success': { target: 'done' } },
+      },
+      done: { type: 'final' },
+    },
+  });
+
+  const migration = {
+    from: '1.0.0' as const,
+    to: '2.0.0' as const,
+    migrate: ({ snapshot }: { snapshot: any }) => ({
+      ...snapshot,
+      value: snapshot.value === 'paying' ? 'awaitingPayment' : snapshot.value,
+      context: { ...snapshot.context, currency: 'USD' },
+    }),
+  };
+
+  const startCheckout = async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const orchestrator = createArvoOrchestrator({ memory, executionunits: 0, machines: [machineV1] });
+    const initEvent = createArvoOrchestratorEventFactory(checkoutContract.version('1.0.0')).init({
+      source: 'com.test.client',
+      data: { parentSubject$$: null, amount: 10 },
+    });
+    const [paymentRequest] = (await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).events;
+    const paymentSuccess = createPaymentSuccessEvent({ subject: paymentRequest.subject, to: paymentRequest.source });
+    return { memory, initEvent, paymentSuccess };
+  };
+
+  it('should record the machine version of the snapshot', async () => {
+    const { memory, initEvent } = await startCheckout();
+    const state = await memory.read(initEvent.subject);
+    expect(state?.machineVersion).toBe('1.0.0');
+    expect(state?.migrations).toBeUndefined();
+  });
+
+  it('should migrate the snapshot on read and continue on the new machine version', async () => {
+    const { memory, initEvent, paymentSuccess } = await startCheckout();
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      machines: [machineV1, machineV2],
+      migrations: [migration],
+      autoMigrate: true,
+    });
+
+    const { events } = await orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' });
+    expect(events[0].data.receipt).toBe('v2:10USD');
+
+    const state = await memory.read(initEvent.subject);
+    expect(state?.machineVersion).toBe('2.0.0');
+    expect(state?.value).toBe('done');
+    expect(state?.migrations).toEqual([
+      { from: '1.0.0', to: '2.0.0', eventId: paymentSuccess.id, at: expect.any(String) },
+    ]);
+  });
+
+  it('should keep the persisted version without auto-migration', async () => {
+    const { memory, initEvent, paymentSuccess } = await startCheckout();
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      machines: [machineV1, machineV2],
+      migrations: [migration],
+    });
+
+    const { events } = await orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' });
+    expect(events[0].data.receipt).toBe('v1:10');
+    expect((await memory.read(initEvent.subject))?.machineVersion).toBe('1.0.0');
+  });
+
+  it('should fail the orchestration when the migration throws', async () => {
+    const { memory, initEvent, paymentSuccess } = await startCheckout();
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      machines: [machineV1, machineV2],
+      migrations: [
+        {
+          ...migration,
+          migrate: () => {
+            throw new Error('Unsupported snapshot');
+          },
+        },
+      ],
+      autoMigrate: true,
+    });
+
+    const { events } = await orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' });
+    expect(events[0].type).toBe(checkoutContract.systemError.type);
+    expect(events[0].data.errorMessage).toBe('Unsupported snapshot');
+    const state = await memory.read(initEvent.subject);
+    expect(state?.executionStatus).toBe('failure');
+    expect(state?.machineVersion).toBe('1.0.0');
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  ArvoOrchestrationSubject,
+  EventDataschemaUtil,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+} from 'arvo-core';
+import { z } from 'zod';
+import {
+  ArvoOrchestrator,
+  type IMachineRegistry,
+  MachineExecutionEngine,
+  type MachineMemoryRecord,
+  SimpleMachineMemory,
+  createArvoOrchestrator,
+  pinLatestVersion,
+  setupArvoMachine,
+} from '../../src';
+import { paymentContract } from '../checkout/contracts';
+import { createPaymentSuccessEvent } from '../checkout/events';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoOrchestrator version routing', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const checkoutContract = createArvoOrchestratorContract({
+    uri: '#/test/routing/checkout',
+    name: 'test.routing.checkout',
+    versions: {
+      '1.0.0': {
+        init: z.object({ amount: z.number() }),
+        complete: z.object({ receipt: z.string() }),
+      },
+      '2.0.0': {
+        init: z.object({ amount: z.number().positive() }),
+        complete: z.object({ receipt: z.string() }),
+      },
+    },
+  });
+
+  const createMachine = (version: '1.0.0' | '2.0.0') =>
+    setupArvoMachine({
+      contracts: {
+        self: checkoutContract.version(version),
+        services: { payment: paymentContract.version('1.0.0') },
+      },
+      types: {
+        context: {} as { amount: number },
+      },
+    }).createMachine({
+      id: 'checkout',
+      context: ({ input }) => ({ amount: input.data.amount }),
+      output: ({ context }) => ({ receipt: `${version}:${context.amount}` }),
+      initial: 'paying',
+      states: {
+        paying: {
+          entry: {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({ type: 'com.test.checkout.payment', data: { amount: context.amount } }),
+          },
+          on: { 'evt.test.checkout.payment.success': { target: 'done' } },
+        },
+        done: { type: 'final' },
+      },
+    });
+
+  const createInit = (amount: number) =>
+    createArvoOrchestratorEventFactory(checkoutContract.version('1.0.0')).init({
+      source: 'com.test.client',
+      data: { parentSubject$$: null, amount },
+    });
+
+  it('should start new orchestrations on the routed version and resume them on it', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      machines: [createMachine('1.0.0'), createMachine('2.0.0')],
+      routing: pinLatestVersion(),
+    });
+    const initEvent = createInit(10);
+    const [paymentRequest] = (await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).events;
+    expect((await memory.read(initEvent.subject))?.machineVersion).toBe('2.0.0');
+
+    const { events } = await orchestrator.execute(
+      createPaymentSuccessEvent({ subject: paymentRequest.subject, to: paymentRequest.source }),
+      { inheritFrom: 'EVENT' },
+    );
+    expect(events[0].data.receipt).toBe('2.0.0:10');
+    // The initiator is answered with the contract of the version it requested
+    expect(EventDataschemaUtil.parse(events[0])?.version).toBe('1.0.0');
+  });
+
+  it('should route new orchestrations through the registry interface', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const machines = [createMachine('1.0.0'), createMachine('2.0.0')];
+    const route = jest.fn(() => machines[1]);
+    const registry: IMachineRegistry = {
+      machines,
+      resolve: (event) =>
+        machines.find((item) => item.version === ArvoOrchestrationSubject.parse(event.subject).orchestrator.version) ??
+        null,
+      route,
+    };
+    const orchestrator = new ArvoOrchestrator({
+      executionunits: 0,
+      memory,
+      registry,
+      executionEngine: new MachineExecutionEngine(),
+      requiresResourceLocking: false,
+    });
+
+    const initEvent = createInit(10);
+    const [paymentRequest] = (await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).events;
+    expect(route).toHaveBeenCalledTimes(1);
+    expect(route).toHaveBeenCalledWith(initEvent, machines[0]);
+    expect((await memory.read(initEvent.subject))?.machineVersion).toBe('2.0.0');
+
+    await orchestrator.execute(
+      createPaymentSuccessEvent({ subject: paymentRequest.subject, to: paymentRequest.source }),
+      { inheritFrom: 'EVENT' },
+    );
+    // A resumed orchestration is not routed again
+    expect(route).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject init data which the routed version does not accept', async () => {
+    const orchestrator = createArvoOrchestrator({
+      memory: new SimpleMachineMemory<MachineMemoryRecord>(),
+      executionunits: 0,
+      machines: [createMachine('1.0.0'), createMachine('2.0.0')],
+      routing: pinLatestVersion(),
+    });
+    await expect(orchestrator.execute(createInit(-1), { inheritFrom: 'EVENT' })).rejects.toThrow(
+      'Event data does not meet the init schema of the routed machine version 2.0.0',
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  createArvoEventFactory,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+  createSimpleArvoContract,
+} from 'arvo-core';
+import { z } from 'zod';
+import {
+  ArvoOrchestratorGroup,
+  type IArvoEventHandler,
+  type MachineMemoryRecord,
+  SimpleMachineMemory,
+  createArvoEventHandler,
+  createArvoOrchestrator,
+  createArvoOrchestratorGroup,
+  createSimpleEventBroker,
+  setupArvoMachine,
+} from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoOrchestratorGroup', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const packingContract = createSimpleArvoContract({
+    uri: '#/test/group/packing',
+    type: 'test.group.packing',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ orderId: z.string() }),
+        emits: z.object({ packed: z.boolean() }),
+      },
+    },
+  });
+
+  const shippingContract = createArvoOrchestratorContract({
+    uri: '#/test/group/shipping',
+    name: 'test.group.shipping',
+    versions: {
+      '1.0.0': {
+        init: z.object({ orderId: z.string() }),
+        complete: z.object({ shipped: z.boolean() }),
+      },
+    },
+  });
+
+  const orderContract = createArvoOrchestratorContract({
+    uri: '#/test/group/order',
+    name: 'test.group.order',
+    versions: {
+      '1.0.0': {
+        init: z.object({ orderId: z.string() }),
+        complete: z.object({ orderId: z.string(), shipped: z.boolean() }),
+      },
+    },
+  });
+
+  const shippingMachine = setupArvoMachine({
+    contracts: {
+      self: shippingContract.version('1.0.0'),
+      services: { packing: packingContract.version('1.0.0') },
+    },
+    types: {
+      context: {} as { orderId: string },
+    },
+  }).createMachine({
+    id: 'shipping',
+    context: ({ input }) => ({ orderId: input.data.orderId }),
+    output: () => ({ shipped: true }),
+    initial: 'packing',
+    states: {
+      packing: {
+        entry: {
+          type: 'enqueueArvoEvent',
+          params: ({ context }) => ({ type: 'com.test.group.packing', data: { orderId: context.orderId } }),
+        },
+        on: { 'evt.test.group.packing.success': { target: 'done' } },
+      },
+      done: { type: 'final' },
+    },
+  });
+
+  const orderMachine = setupArvoMachine({
+    contracts: {
+      self: orderContract.version('1.0.0'),
+      services: { shipping: shippingContract.version('1.0.0') },
+    },
+    types: {
+      context: {} as { orderId: string; subject: string },
+    },
+  }).createMachine({
+    id: 'order',
+    context: ({ input }) => ({ orderId: input.data.orderId, subject: input.subject }),
+    output: ({ context }) => ({ orderId: context.orderId, shipped: true }),
+    initial: 'shipping',
+    states: {
+      shipping: {
+        entry: {
+          type: 'enqueueArvoEvent',
+          params: ({ context }) => ({
+            type: 'arvo.orc.test.group.shipping',
+            data: { parentSubject$$: context.subject, orderId: context.orderId },
+          }),
+        },
+        on: { 'arvo.orc.test.group.shipping.done': { target: 'done' } },
+      },
+      done: { type: 'final' },
+    },
+  });
+
+  const createOrderInit = () =>
+    createArvoOrchestratorEventFactory(orderContract.version('1.0.0')).init({
+      source: 'com.test.client',
+      data: { parentSubject$$: null, orderId: 'order-1' },
+    });
+
+  it('should dispatch the events of nested workflows to their orchestrators', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const group = createArvoOrchestratorGroup({ memory, executionunits: 0, machines: [orderMachine, shippingMachine] });
+    expect(group.sources.sort()).toEqual([orderContract.type, shippingContract.type].sort());
+
+    const orderInit = createOrderInit();
+    const [shippingInit] = (await group.execute(orderInit, { inheritFrom: 'EVENT' })).events;
+    expect(shippingInit.type).toBe(shippingContract.type);
+    expect(group.resolve(shippingInit)?.source).toBe(shippingContract.type);
+
+    const [packingRequest] = (await group.execute(shippingInit, { inheritFrom: 'EVENT' })).events;
+    const packingSuccess = createArvoEventFactory(packingContract.version('1.0.0')).emits({
+      type: 'evt.test.group.packing.success',
+      source: packingContract.type,
+      subject: packingRequest.subject,
+      to: packingRequest.source,
+      data: { packed: true },
+    });
+    const [shippingDone] = (await group.execute(packingSuccess, { inheritFrom: 'EVENT' })).events;
+    expect(shippingDone.type).toBe('arvo.orc.test.group.shipping.done');
+    expect(group.resolve(shippingDone)?.source).toBe(orderContract.type);
+
+    const [orderDone] = (await group.execute(shippingDone, { inheritFrom: 'EVENT' })).events;
+    expect(orderDone.type).toBe('arvo.orc.test.group.order.done');
+    expect(orderDone.data).toEqual(expect.objectContaining({ orderId: 'order-1', shipped: true }));
+
+    // Both workflows share the memory
+    expect((await memory.read(orderInit.subject))?.status).toBe('done');
+    expect((await memory.read(shippingInit.subject))?.status).toBe('done');
+  });
+
+  it('should plug into the handler plumbing as an event handler', async () => {
+    const group = createArvoOrchestratorGroup({
+      memory: new SimpleMachineMemory(),
+      executionunits: 0,
+      machines: [orderMachine, shippingMachine],
+    });
+    const handler: IArvoEventHandler = group;
+    expect(handler.source).toBe(orderContract.type);
+    expect(handler.systemErrorSchema.type).toBe(orderContract.systemError.type);
+
+    const packingHandler = createArvoEventHandler({
+      contract: packingContract,
+      executionunits: 0,
+      handler: {
+        '1.0.0': async () => ({ type: 'evt.test.group.packing.success' as const, data: { packed: true } }),
+      },
+    });
+    const { broker, resolve } = createSimpleEventBroker([packingHandler]);
+    for (const source of group.sources) {
+      broker.subscribe(
+        source,
+        async (event) => {
+          for (const item of (await group.execute(event, { inheritFrom: 'EVENT' })).events) {
+            await broker.publish(item);
+          }
+        },
+        true,
+      );
+    }
+
+    const orderDone = await resolve(createOrderInit());
+    expect(orderDone?.type).toBe('arvo.orc.test.group.order.done');
+    expect(orderDone?.data).toEqual(expect.objectContaining({ orderId: 'order-1', shipped: true }));
+  });
+
+  it('should reject events of workflows which are not hosted', async () => {
+    const group = createArvoOrchestratorGroup({
+      memory: new SimpleMachineMemory(),
+      executionunits: 0,
+      machines: [shippingMachine],
+    });
+    const orderInit = createOrderInit();
+    expect(group.resolve(orderInit)).toBeNull();
+    await expect(group.execute(orderInit, { inheritFrom: 'EVENT' })).rejects.toThrow(
+      `Orchestrator resolution failed: No workflow in the group handles the event (id='${orderInit.id}'`,
+    );
+  });
+
+  it('should reject orchestrators with duplicate sources', () => {
+    const create = () =>
+      createArvoOrchestrator({ memory: new SimpleMachineMemory(), executionunits: 0, machines: [orderMachine] });
+    expect(() => new ArvoOrchestratorGroup({ orchestrators: [create(), create()] })).toThrow(
+      `The source '${orderContract.type}' is hosted more than once`,
+    );
+    expect(() => new ArvoOrchestratorGroup({ orchestrators: [] })).toThrow(
+      'An orchestrator group requires at least one orchestrator',
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { createArvoOrchestratorContract, createArvoOrchestratorEventFactory } from 'arvo-core';
+import { z } from 'zod';
+import {
+  type ArvoResumableState,
+  ArvoTimeoutEventType,
+  SimpleMachineMemory,
+  SimpleTimerScheduler,
+  TimerDispatcher,
+  createArvoResumable,
+} from '../../src';
+import { paymentContract } from '../checkout/contracts';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoResumable timeouts', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const checkoutContract = createArvoOrchestratorContract({
+    uri: '#/test/resumable/timeout/checkout',
+    name: 'test.resumable.checkout',
+    versions: {
+      '1.0.0': {
+        init: z.object({ amount: z.number() }),
+        complete: z.object({ status: z.enum(['paid', 'timeout']) }),
+      },
+    },
+  });
+
+  const createCheckout = () => {
+    const memory = new SimpleMachineMemory<ArvoResumableState<Record<string, any>>>();
+    const timerScheduler = new SimpleTimerScheduler();
+    const onTimeout = jest.fn();
+    const resumable = createArvoResumable({
+      contracts: {
+        self: checkoutContract,
+        services: {
+          payment: paymentContract.version('1.0.0'),
+        },
+      },
+      memory,
+      timerScheduler,
+      handler: {
+        '1.0.0': async ({ input, service, timeout }) => {
+          if (input) {
+            return {
+              services: [{ type: 'com.test.checkout.payment' as const, data: { amount: input.data.amount } }],
+              timeouts: [{ name: 'payment', delayMs: 1000 }],
+            };
+          }
+          if (timeout) {
+            onTimeout(timeout.data);
+            return { output: { status: 'timeout' as const } };
+          }
+          if (service?.type === 'evt.test.checkout.payment.success') {
+            return { output: { status: 'paid' as const } };
+          }
+        },
+      },
+    });
+    const initEvent = createArvoOrchestratorEventFactory(checkoutContract.version('1.0.0')).init({
+      source: 'com.test.client',
+      data: { parentSubject$$: null, amount: 10 },
+    });
+    const dispatcher = new TimerDispatcher({ scheduler: timerScheduler, publisher: async () => {} });
+    return { memory, timerScheduler, resumable, initEvent, dispatcher, onTimeout };
+  };
+
+  it('should register the timeout awaiting the emitted service events', async () => {
+    const { resumable, memory, timerScheduler, initEvent } = createCheckout();
+    const { events } = await resumable.execute(initEvent, { inheritFrom: 'EVENT' });
+
+    const state = await memory.read(initEvent.subject);
+    const timeout = state?.executionStatus === 'normal' ? state.timeouts?.payment : undefined;
+    expect(timeout).toEqual({
+      timerId: `${initEvent.id}:payment`,
+      name: 'payment',
+      subject: initEvent.subject,
+      handler: checkoutContract.type,
+      dueAt: new Date(initEvent.time).getTime() + 1000,
+      type: ArvoTimeoutEventType,
+      dataschema: `${checkoutContract.uri}/1.0.0`,
+      awaiting: [events[0].id],
+    });
+    expect(await timerScheduler.due(Number.POSITIVE_INFINITY)).toEqual([timeout]);
+  });
+
+  it('should resume the handler with the due timeout', async () => {
+    const { resumable, initEvent, dispatcher, onTimeout } = createCheckout();
+    await resumable.execute(initEvent, { inheritFrom: 'EVENT' });
+
+    const [timeoutEvent] = await dispatcher.dispatch(Number.POSITIVE_INFINITY);
+    expect(timeoutEvent.type).toBe(ArvoTimeoutEventType);
+    expect(timeoutEvent.to).toBe(checkoutContract.type);
+    expect(timeoutEvent.dataschema).toBe(`${checkoutContract.uri}/1.0.0`);
+
+    const { events } = await resumable.execute(timeoutEvent, { inheritFrom: 'EVENT' });
+    expect(onTimeout).toHaveBeenCalledWith(timeoutEvent.data);
+    expect(events.length).toBe(1);
+    expect(events[0].data.status).toBe('timeout');
+  });
+
+  it('should skip the timeout when the awaited events have already arrived', async () => {
+    const { resumable, memory, initEvent, dispatcher, onTimeout } = createCheckout();
+    const { events } = await resumable.execute(initEvent, { inheritFrom: 'EVENT' });
+
+    // Record the payment response as collected for the emitted payment request
+    const state = await memory.read(initEvent.subject);
+    if (state?.executionStatus !== 'normal') throw new Error('Unexpected state');
+    await memory.write(initEvent.subject, {
+      ...state,
+      events: {
+        ...state.events,
+        expected: { [events[0].id]: [{ type: 'evt.test.checkout.payment.success' } as any] },
+      },
+    });
+
+    const [timeoutEvent] = await dispatcher.dispatch(Number.POSITIVE_INFINITY);
+    expect((await resumable.execute(timeoutEvent, { inheritFrom: 'EVENT' })).events).toEqual([]);
+    expect(onTimeout).not.toHaveBeenCalled();
+    const newState = await memory.read(initEvent.subject);
+    expect(newState?.executionStatus === 'normal' ? newState.timeouts : undefined).toEqual({});
+  });
+
+  it('should reject timeout events with invalid data', async () => {
+    const { resumable, initEvent, dispatcher, timerScheduler } = createCheckout();
+    await resumable.execute(initEvent, { inheritFrom: 'EVENT' });
+    const [timeout] = await timerScheduler.due(Number.POSITIVE_INFINITY);
+    await timerScheduler.schedule({ ...timeout, name: '' });
+
+    const [timeoutEvent] = await dispatcher.dispatch(Number.POSITIVE_INFINITY);
+    await expect(resumable.execute(timeoutEvent, { inheritFrom: 'EVENT' })).rejects.toThrow(
+      'Input validation failed - Event data does not meet contract requirements',
+    );
+  });
+
+  it('should reject timeout events not referencing the self contract', async () => {
+    const { resumable, initEvent, dispatcher, timerScheduler } = createCheckout();
+    await resumable.execute(initEvent, { inheritFrom: 'EVENT' });
+    const [timeout] = await timerScheduler.due(Number.POSITIVE_INFINITY);
+    await timerScheduler.schedule({ ...timeout, dataschema: `${paymentContract.uri}/1.0.0` });
+
+    const [timeoutEvent] = await dispatcher.dispatch(Number.POSITIVE_INFINITY);
+    await expect(resumable.execute(timeoutEvent, { inheritFrom: 'EVENT' })).rejects.toThrow('Contract URI mismatch');
+  });
+});
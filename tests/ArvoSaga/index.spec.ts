@@ -0,0 +1,310 @@
+import {
+  type ArvoEvent,
+  createArvoEventFactory,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+  createSimpleArvoContract,
+} from 'arvo-core';
+import { assign } from 'xstate';
+import { z } from 'zod';
+import {
+  type ArvoResumableState,
+  type MachineMemoryRecord,
+  SimpleMachineMemory,
+  createArvoCancelEvent,
+  createArvoOrchestrator,
+  createArvoResumable,
+  setupArvoMachine,
+} from '../../src';
+import { compensateSaga } from '../../src/ArvoSaga/compensateSaga';
+import { paymentContract } from '../checkout/contracts';
+import { createPaymentSuccessEvent } from '../checkout/events';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoSaga', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const hotelContract = createSimpleArvoContract({
+    uri: '#/test/saga/hotel',
+    type: 'test.saga.hotel',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ nights: z.number() }),
+        emits: z.object({ booked: z.boolean() }),
+      },
+    },
+  });
+
+  const tripContract = createArvoOrchestratorContract({
+    uri: '#/test/saga/trip',
+    name: 'test.saga.trip',
+    versions: {
+      '1.0.0': {
+        init: z.object({ amount: z.number(), nights: z.number() }),
+        complete: z.object({ status: z.enum(['booked', 'failed']) }),
+      },
+    },
+  });
+
+  const initEvent = () =>
+    createArvoOrchestratorEventFactory(tripContract.version('1.0.0')).init({
+      source: 'com.test.client',
+      data: { parentSubject$$: null, amount: 100, nights: 2 },
+    });
+
+  const respond = (request: ArvoEvent, type: 'payment' | 'hotel') =>
+    type === 'payment'
+      ? createPaymentSuccessEvent({ subject: request.subject, to: request.source })
+      : createArvoEventFactory(hotelContract.version('1.0.0')).emits({
+          type: 'evt.test.saga.hotel.success',
+          source: hotelContract.type,
+          subject: request.subject,
+          to: request.source,
+          data: { booked: true },
+        });
+
+  describe('compensateSaga', () => {
+    it('should re-issue the compensations of the completed steps in reverse order', () => {
+      const trigger = initEvent();
+      const compensation = (amount: number) =>
+        createArvoEventFactory(paymentContract.version('1.0.0'))
+          .accepts({ source: tripContract.type, subject: trigger.subject, data: { amount } })
+          .toJSON();
+      const steps = [
+        {
+          eventId: 'first',
+          eventType: 'com.test.checkout.payment',
+          status: 'completed' as const,
+          compensation: [compensation(-1)],
+        },
+        {
+          eventId: 'second',
+          eventType: 'com.test.checkout.payment',
+          status: 'pending' as const,
+          compensation: [compensation(-2)],
+        },
+        {
+          eventId: 'third',
+          eventType: 'com.test.checkout.payment',
+          status: 'completed' as const,
+          compensation: [compensation(-3)],
+        },
+      ];
+
+      const result = compensateSaga({ steps, event: trigger, otelHeaders: { traceparent: null, tracestate: null } });
+      expect(result.events.map((item) => item.data.amount)).toEqual([-3, -1]);
+      expect(result.events[0].id).not.toBe(steps[2].compensation[0].id);
+      expect(result.steps.map((step) => step.eventId)).toEqual(['second']);
+    });
+  });
+
+  describe('ArvoMachine', () => {
+    const machine = setupArvoMachine({
+      contracts: {
+        self: tripContract.version('1.0.0'),
+        services: {
+          payment: paymentContract.version('1.0.0'),
+          hotel: hotelContract.version('1.0.0'),
+        },
+      },
+      types: {
+        context: {} as { amount: number; nights: number; status: 'booked' | 'failed' },
+      },
+    }).createMachine({
+      id: 'trip',
+      context: ({ input }) => ({ amount: input.data.amount, nights: input.data.nights, status: 'failed' }),
+      output: ({ context }) => ({ status: context.status }),
+      initial: 'paying',
+      states: {
+        paying: {
+          entry: {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({
+              type: 'com.test.checkout.payment',
+              data: { amount: context.amount },
+              compensation: { type: 'com.test.checkout.payment', data: { amount: -context.amount } },
+            }),
+          },
+          on: {
+            'evt.test.checkout.payment.success': { target: 'booking' },
+          },
+        },
+        booking: {
+          entry: {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({
+              type: 'com.test.saga.hotel',
+              data: { nights: context.nights },
+              compensation: { type: 'com.test.saga.hotel', data: { nights: -context.nights } },
+            }),
+          },
+          on: {
+            'evt.test.saga.hotel.success': { target: 'done', actions: assign({ status: 'booked' }) },
+            'sys.com.test.saga.hotel.error': { target: 'done', actions: { type: 'compensateArvoSaga' } },
+          },
+        },
+        done: {
+          type: 'final',
+        },
+      },
+    });
+
+    const createTrip = () => {
+      const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+      const orchestrator = createArvoOrchestrator({ memory, executionunits: 0, machines: [machine] });
+      return { memory, orchestrator };
+    };
+
+    it('should complete the saga steps answered by the services', async () => {
+      const { memory, orchestrator } = createTrip();
+      const init = initEvent();
+      const [paymentRequest] = (await orchestrator.execute(init, { inheritFrom: 'EVENT' })).events;
+      expect(paymentRequest.data).toEqual({ amount: 100 });
+      expect((await memory.read(init.subject))?.saga).toMatchObject([
+        { eventId: paymentRequest.id, eventType: 'com.test.checkout.payment', status: 'pending' },
+      ]);
+
+      const [hotelRequest] = (await orchestrator.execute(respond(paymentRequest, 'payment'), { inheritFrom: 'EVENT' }))
+        .events;
+      const saga = (await memory.read(init.subject))?.saga;
+      expect(saga?.map((step) => [step.eventId, step.status])).toEqual([
+        [paymentRequest.id, 'completed'],
+        [hotelRequest.id, 'pending'],
+      ]);
+      expect(saga?.[0].compensation.map((item) => item.data)).toEqual([{ amount: -100 }]);
+
+      // A completed saga keeps no steps
+      await orchestrator.execute(respond(hotelRequest, 'hotel'), { inheritFrom: 'EVENT' });
+      expect((await memory.read(init.subject))?.saga).toEqual([]);
+    });
+
+    it('should compensate the completed steps on the compensateArvoSaga action', async () => {
+      const { orchestrator } = createTrip();
+      const init = initEvent();
+      const [paymentRequest] = (await orchestrator.execute(init, { inheritFrom: 'EVENT' })).events;
+      const [hotelRequest] = (await orchestrator.execute(respond(paymentRequest, 'payment'), { inheritFrom: 'EVENT' }))
+        .events;
+
+      const hotelError = createArvoEventFactory(hotelContract.version('1.0.0')).systemError({
+        source: hotelContract.type,
+        subject: hotelRequest.subject,
+        to: hotelRequest.source,
+        error: new Error('No rooms available'),
+      });
+      const { events } = await orchestrator.execute(hotelError, { inheritFrom: 'EVENT' });
+      // The failed hotel booking has nothing to undo
+      expect(events.map((item) => [item.type, item.data.amount ?? item.data.status])).toEqual([
+        ['com.test.checkout.payment', -100],
+        [tripContract.version('1.0.0').metadata.completeEventType, 'failed'],
+      ]);
+      expect(events[0].id).not.toBe(paymentRequest.id);
+    });
+
+    it('should compensate the completed steps on cancel', async () => {
+      const { orchestrator } = createTrip();
+      const init = initEvent();
+      const [paymentRequest] = (await orchestrator.execute(init, { inheritFrom: 'EVENT' })).events;
+      await orchestrator.execute(respond(paymentRequest, 'payment'), { inheritFrom: 'EVENT' });
+
+      const { events } = await orchestrator.execute(
+        createArvoCancelEvent({ subject: init.subject, source: 'com.test.client', reason: 'Trip cancelled' }),
+        { inheritFrom: 'EVENT' },
+      );
+      expect(events.map((item) => item.type)).toEqual(['com.test.checkout.payment', tripContract.systemError.type]);
+      expect(events[0].data.amount).toBe(-100);
+    });
+
+    it('should reject machines overriding the saga action', () => {
+      expect(() =>
+        setupArvoMachine({
+          contracts: {
+            self: tripContract.version('1.0.0'),
+            services: {},
+          },
+          actions: {
+            compensateArvoSaga: () => {},
+          },
+        }),
+      ).toThrow("Configuration Error: Reserved action name 'compensateArvoSaga'");
+    });
+  });
+
+  describe('ArvoResumable', () => {
+    const createTrip = () => {
+      const memory = new SimpleMachineMemory<ArvoResumableState<Record<string, any>>>();
+      const resumable = createArvoResumable({
+        contracts: {
+          self: tripContract,
+          services: {
+            payment: paymentContract.version('1.0.0'),
+            hotel: hotelContract.version('1.0.0'),
+          },
+        },
+        memory,
+        handler: {
+          '1.0.0': async ({ input, service }) => {
+            if (input) {
+              return {
+                services: [
+                  {
+                    type: 'com.test.checkout.payment' as const,
+                    data: { amount: input.data.amount },
+                    compensation: { type: 'com.test.checkout.payment' as const, data: { amount: -input.data.amount } },
+                  },
+                  {
+                    type: 'com.test.saga.hotel' as const,
+                    data: { nights: input.data.nights },
+                    compensation: { type: 'com.test.saga.hotel' as const, data: { nights: -input.data.nights } },
+                  },
+                ],
+              };
+            }
+            if (service?.type === 'evt.test.saga.hotel.success') {
+              throw new Error('Itinerary unavailable');
+            }
+          },
+        },
+      });
+      return { memory, resumable };
+    };
+
+    it('should only compensate the completed steps on cancel', async () => {
+      const { resumable } = createTrip();
+      const init = initEvent();
+      const [paymentRequest] = (await resumable.execute(init, { inheritFrom: 'EVENT' })).events;
+      await resumable.execute(respond(paymentRequest, 'payment'), { inheritFrom: 'EVENT' });
+
+      // The hotel booking is still pending, so only the payment is refunded
+      const { events } = await resumable.execute(
+        createArvoCancelEvent({ subject: init.subject, source: 'com.test.client' }),
+        { inheritFrom: 'EVENT' },
+      );
+      expect(events.map((item) => [item.type, item.data.amount ?? item.data.nights])).toEqual([
+        ['com.test.checkout.payment', -100],
+        [tripContract.systemError.type, undefined],
+      ]);
+    });
+
+    it('should compensate before reporting an execution failure', async () => {
+      const { memory, resumable } = createTrip();
+      const init = initEvent();
+      const [paymentRequest, hotelRequest] = (await resumable.execute(init, { inheritFrom: 'EVENT' })).events;
+      await resumable.execute(respond(paymentRequest, 'payment'), { inheritFrom: 'EVENT' });
+
+      const { events } = await resumable.execute(respond(hotelRequest, 'hotel'), { inheritFrom: 'EVENT' });
+      expect(events.map((item) => item.type)).toEqual(['com.test.checkout.payment', tripContract.systemError.type]);
+      expect(events[0].data.amount).toBe(-100);
+      expect(events[1].data.errorMessage).toBe('Itinerary unavailable');
+
+      const state = await memory.read(init.subject);
+      expect(state?.executionStatus).toBe('failure');
+      expect(state?.saga?.map((step) => step.eventId)).toEqual([hotelRequest.id]);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  type ArvoEvent,
+  createArvoEvent,
+  createArvoOrchestratorContract,
+  createArvoOrchestratorEventFactory,
+} from 'arvo-core';
+import { assign } from 'xstate';
+import { z } from 'zod';
+import {
+  ArvoTimerEventType,
+  type ArvoTimerRecord,
+  type MachineMemoryRecord,
+  SimpleMachineMemory,
+  SimpleTimerScheduler,
+  TimerDispatcher,
+  createArvoOrchestrator,
+  setupArvoMachine,
+} from '../../src';
+import { paymentContract } from '../checkout/contracts';
+import { createPaymentSuccessEvent } from '../checkout/events';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('ArvoTimer', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const checkoutContract = createArvoOrchestratorContract({
+    uri: '#/test/timer/checkout',
+    name: 'test.timer.checkout',
+    versions: {
+      '1.0.0': {
+        init: z.object({ amount: z.number() }),
+        complete: z.object({ status: z.enum(['paid', 'timeout']) }),
+      },
+    },
+  });
+
+  const machine = setupArvoMachine({
+    contracts: {
+      self: checkoutContract.version('1.0.0'),
+      services: {
+        payment: paymentContract.version('1.0.0'),
+      },
+    },
+    types: {
+      context: {} as { amount: number; status: 'paid' | 'timeout' | null },
+    },
+  }).createMachine({
+    id: 'checkout',
+    context: ({ input }) => ({ amount: input.data.amount, status: null }),
+    output: ({ context }) => ({ status: context.status ?? 'timeout' }),
+    initial: 'awaiting_payment',
+    states: {
+      awaiting_payment: {
+        entry: [
+          {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({
+              type: 'com.test.checkout.payment',
+              data: { amount: context.amount },
+            }),
+          },
+          { type: 'scheduleArvoTimer', params: { name: 'paymentTimeout', delayMs: 60000 } },
+        ],
+        on: {
+          'evt.test.checkout.payment.success': {
+            actions: [{ type: 'cancelArvoTimer', params: { name: 'paymentTimeout' } }, assign({ status: 'paid' })],
+            target: 'done',
+          },
+          'arvo.timer.due': {
+            guard: ({ event }) => event.data.name === 'paymentTimeout',
+            target: 'done',
+          },
+        },
+      },
+      done: {
+        type: 'final',
+      },
+    },
+  });
+
+  const createCheckout = () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const timerScheduler = new SimpleTimerScheduler();
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      machines: [machine],
+      timerScheduler,
+    });
+    const published: ArvoEvent[] = [];
+    const dispatcher = new TimerDispatcher({
+      scheduler: timerScheduler,
+      publisher: async (event) => void published.push(event),
+    });
+    const initEvent = createArvoOrchestratorEventFactory(checkoutContract.version('1.0.0')).init({
+      source: 'com.test.client',
+      data: { parentSubject$$: null, amount: 10 },
+    });
+    return { memory, timerScheduler, orchestrator, dispatcher, published, initEvent };
+  };
+
+  describe('SimpleTimerScheduler', () => {
+    const timer = (timerId: string, dueAt: number): ArvoTimerRecord => ({
+      timerId,
+      name: timerId,
+      subject: 'test.subject',
+      handler: 'arvo.orc.test',
+      dueAt,
+    });
+
+    it('should list due timers earliest first and respect the limit', async () => {
+      const scheduler = new SimpleTimerScheduler();
+      await scheduler.schedule(timer('late', 300));
+      await scheduler.schedule(timer('early', 100));
+      await scheduler.schedule(timer('future', 1000));
+
+      expect((await scheduler.due(500)).map((item) => item.timerId)).toEqual(['early', 'late']);
+      expect((await scheduler.due(500, 1)).map((item) => item.timerId)).toEqual(['early']);
+
+      await scheduler.cancel('early');
+      expect((await scheduler.due(500)).map((item) => item.timerId)).toEqual(['late']);
+    });
+
+    it('should throw on empty timer ids', async () => {
+      const scheduler = new SimpleTimerScheduler();
+      await expect(scheduler.schedule(timer('', 100))).rejects.toThrow('Timer ID is required for schedule operation');
+      await expect(scheduler.cancel('')).rejects.toThrow('Timer ID is required for cancel operation');
+    });
+  });
+
+  it('should schedule a timer relative to the consumed event time', async () => {
+    const { orchestrator, memory, timerScheduler, initEvent } = createCheckout();
+    const { events } = await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+    expect(events.map((item) => item.type)).toEqual(['com.test.checkout.payment']);
+
+    const state = await memory.read(initEvent.subject);
+    const activeTimer = state?.executionStatus === 'normal' ? state.timers?.paymentTimeout : undefined;
+    expect(activeTimer).toEqual({
+      timerId: `${initEvent.id}:paymentTimeout`,
+      name: 'paymentTimeout',
+      subject: initEvent.subject,
+      handler: checkoutContract.type,
+      dueAt: new Date(initEvent.time).getTime() + 60000,
+    });
+    expect(await timerScheduler.due(activeTimer?.dueAt ?? 0)).toEqual([activeTimer]);
+  });
+
+  it('should not schedule the timers when the state write fails', async () => {
+    const { orchestrator, memory, timerScheduler, initEvent } = createCheckout();
+    jest.spyOn(memory, 'write').mockRejectedValueOnce(new Error('Write conflict'));
+
+    await expect(orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).rejects.toThrow('Write conflict');
+    expect(await timerScheduler.due(Number.POSITIVE_INFINITY)).toEqual([]);
+  });
+
+  it('should deliver a due timer to the machine', async () => {
+    const { orchestrator, dispatcher, published, initEvent, timerScheduler } = createCheckout();
+    await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+
+    expect(await dispatcher.dispatch(new Date(initEvent.time).getTime() + 59999)).toEqual([]);
+    const timerEvents = await dispatcher.dispatch(new Date(initEvent.time).getTime() + 60000);
+    expect(timerEvents.length).toBe(1);
+    expect(published).toEqual(timerEvents);
+    expect(timerEvents[0].type).toBe(ArvoTimerEventType);
+    expect(timerEvents[0].to).toBe(checkoutContract.type);
+    expect(timerEvents[0].subject).toBe(initEvent.subject);
+    expect(await timerScheduler.due(Number.POSITIVE_INFINITY)).toEqual([]);
+
+    const { events } = await orchestrator.execute(timerEvents[0], { inheritFrom: 'EVENT' });
+    expect(events.length).toBe(1);
+    expect(events[0].type).toBe(checkoutContract.version('1.0.0').metadata.completeEventType);
+    expect(events[0].data.status).toBe('timeout');
+  });
+
+  it('should cancel the timer and ignore its stale event', async () => {
+    const { orchestrator, memory, timerScheduler, initEvent } = createCheckout();
+    const [paymentRequest] = (await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).events;
+    const staleTimers = await timerScheduler.due(Number.POSITIVE_INFINITY);
+
+    const paymentSuccess = createPaymentSuccessEvent({ subject: paymentRequest.subject, to: paymentRequest.source });
+    const { events } = await orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' });
+    expect(events[0].data.status).toBe('paid');
+    expect(await timerScheduler.due(Number.POSITIVE_INFINITY)).toEqual([]);
+    const state = await memory.read(initEvent.subject);
+    expect(state?.executionStatus === 'normal' ? state.timers : undefined).toEqual({});
+
+    // Deliver the cancelled timer as if it had been dispatched before the cancellation
+    const dispatcher = new TimerDispatcher({ scheduler: new SimpleTimerScheduler(), publisher: async () => {} });
+    await dispatcher.scheduler.schedule(staleTimers[0]);
+    const [timerEvent] = await dispatcher.dispatch(Number.POSITIVE_INFINITY);
+    const writeSpy = jest.spyOn(memory, 'write');
+    expect((await orchestrator.execute(timerEvent, { inheritFrom: 'EVENT' })).events).toEqual([]);
+    expect(writeSpy).toHaveBeenCalledWith(initEvent.subject, state, state);
+  });
+
+  it('should reject a timer event with invalid data', async () => {
+    const { orchestrator, memory, timerScheduler, initEvent } = createCheckout();
+    await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+    const [timer] = await timerScheduler.due(Number.POSITIVE_INFINITY);
+    const timerEvent = createArvoEvent({
+      source: 'arvo.timer.dispatcher',
+      subject: initEvent.subject,
+      type: ArvoTimerEventType,
+      to: checkoutContract.type,
+      data: { timerId: timer.timerId },
+    });
+
+    await expect(orchestrator.execute(timerEvent, { inheritFrom: 'EVENT' })).rejects.toThrow(
+      'Timer event data does not meet the timer event schema',
+    );
+    const state = await memory.read(initEvent.subject);
+    expect(state?.executionStatus).toBe('normal');
+  });
+
+  it('should reject machines overriding the timer actions', () => {
+    expect(() =>
+      setupArvoMachine({
+        contracts: {
+          self: checkoutContract.version('1.0.0'),
+          services: {},
+        },
+        actions: {
+          scheduleArvoTimer: () => {},
+        },
+      }),
+    ).toThrow("Configuration Error: Reserved action name 'scheduleArvoTimer'");
+  });
+
+  it('should fail the execution when a machine uses timers without a scheduler', async () => {
+    const { initEvent } = createCheckout();
+    const orchestrator = createArvoOrchestrator({
+      memory: new SimpleMachineMemory(),
+      executionunits: 0,
+      machines: [machine],
+    });
+    await expect(orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).rejects.toThrow('Timer scheduling failed');
+  });
+});
@@ -0,0 +1,141 @@
+import { createSimpleArvoContract } from 'arvo-core';
+import { z } from 'zod';
+import {
+  ArvoDomain,
+  SimpleMachineMemory,
+  createArvoEventHandler,
+  createArvoOrchestrator,
+  generateAsyncApiDocument,
+  setupArvoMachine,
+} from '../../src';
+import { checkoutContract } from '../checkout/contracts';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('generateAsyncApiDocument', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const paymentContract = createSimpleArvoContract({
+    uri: '#/test/asyncapi/payment',
+    type: 'test.asyncapi.payment',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ amount: z.number() }),
+        emits: z.object({ paid: z.boolean() }),
+      },
+      '2.0.0': {
+        accepts: z.object({ amount: z.number(), currency: z.string() }),
+        emits: z.object({ paid: z.boolean() }),
+      },
+    },
+  });
+
+  const checkoutOrchestrator = createArvoOrchestrator({
+    memory: new SimpleMachineMemory(),
+    executionunits: 0,
+    defaultEventEmissionDomains: { services: ['payments'] },
+    machines: [
+      setupArvoMachine({
+        contracts: {
+          self: checkoutContract.version('1.0.0'),
+          services: { payment: paymentContract.version('2.0.0') },
+        },
+      }).createMachine({
+        id: 'checkout',
+        output: () => ({ paid: true }),
+        initial: 'done',
+        states: { done: { type: 'final' } },
+      }),
+    ],
+  });
+
+  const paymentHandler = createArvoEventHandler({
+    contract: paymentContract,
+    executionunits: 0,
+    handler: {
+      '1.0.0': async () => ({ type: 'evt.test.asyncapi.payment.success', data: { paid: true } }),
+      '2.0.0': async () => ({ type: 'evt.test.asyncapi.payment.success', data: { paid: true } }),
+    },
+  });
+
+  const document = generateAsyncApiDocument({
+    info: { title: 'Checkout Service', version: '1.0.0' },
+    handlers: [checkoutOrchestrator, paymentHandler],
+  });
+
+  it('should create a channel per event type with a message per contract version', () => {
+    expect(document.asyncapi).toBe('3.0.0');
+    expect(document.info).toEqual({ title: 'Checkout Service', version: '1.0.0' });
+    expect(Object.values(document.channels).map((item) => item.address)).toEqual([
+      checkoutContract.type,
+      'arvo.orc.test.checkout.done',
+      `sys.${checkoutContract.type}.error`,
+      paymentContract.type,
+      'evt.test.asyncapi.payment.success',
+      `sys.${paymentContract.type}.error`,
+    ]);
+    expect(Object.keys(document.channels[paymentContract.type].messages)).toEqual([
+      `${paymentContract.type}.2.0.0`,
+      `${paymentContract.type}.1.0.0`,
+    ]);
+    const message = document.components.messages[`${paymentContract.type}.2.0.0`];
+    expect(message).toEqual(
+      expect.objectContaining({
+        name: paymentContract.type,
+        contentType: 'application/cloudevents+json',
+        'x-arvo-dataschema': `${paymentContract.uri}/2.0.0`,
+      }),
+    );
+    expect(message.payload).toEqual(
+      expect.objectContaining({
+        type: 'object',
+        properties: { amount: { type: 'number' }, currency: { type: 'string' } },
+        required: ['amount', 'currency'],
+      }),
+    );
+  });
+
+  it('should create the operations of every handler with the default domains of the sent events', () => {
+    const operations = Object.values(document.operations).map((item) => [
+      item['x-arvo-source'],
+      item.action,
+      item.channel.$ref,
+      item['x-arvo-domains'],
+    ]);
+    expect(operations).toEqual([
+      [checkoutContract.type, 'receive', `#/channels/${checkoutContract.type}`, undefined],
+      [checkoutContract.type, 'send', '#/channels/arvo.orc.test.checkout.done', [ArvoDomain.ORCHESTRATION_CONTEXT]],
+      [
+        checkoutContract.type,
+        'send',
+        `#/channels/sys.${checkoutContract.type}.error`,
+        [ArvoDomain.ORCHESTRATION_CONTEXT],
+      ],
+      [checkoutContract.type, 'send', `#/channels/${paymentContract.type}`, ['payments']],
+      [checkoutContract.type, 'receive', '#/channels/evt.test.asyncapi.payment.success', undefined],
+      [checkoutContract.type, 'receive', `#/channels/sys.${paymentContract.type}.error`, undefined],
+      [paymentContract.type, 'receive', `#/channels/${paymentContract.type}`, undefined],
+      [
+        paymentContract.type,
+        'send',
+        '#/channels/evt.test.asyncapi.payment.success',
+        [ArvoDomain.ORCHESTRATION_CONTEXT],
+      ],
+      [
+        paymentContract.type,
+        'send',
+        `#/channels/sys.${paymentContract.type}.error`,
+        [ArvoDomain.ORCHESTRATION_CONTEXT],
+      ],
+    ]);
+    expect(document.operations[`${paymentContract.type}.receive.${paymentContract.type}`].messages).toEqual([
+      { $ref: `#/channels/${paymentContract.type}/messages/${paymentContract.type}.1.0.0` },
+      { $ref: `#/channels/${paymentContract.type}/messages/${paymentContract.type}.2.0.0` },
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { createArvoEventFactory, createArvoOrchestratorEventFactory } from 'arvo-core';
+import {
+  type DeadLetter,
+  ExecutionViolation,
+  type MachineMemoryRecord,
+  SimpleDeadLetterQueue,
+  SimpleMachineMemory,
+  createArvoEventHandler,
+  createArvoOrchestrator,
+  setupArvoMachine,
+} from '../../src';
+import { checkoutContract, paymentContract } from '../checkout/contracts';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('DeadLetter', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const createPaymentHandler = (deadLetter: SimpleDeadLetterQueue) => {
+    const gateway = { available: false };
+    const handler = createArvoEventHandler({
+      contract: paymentContract,
+      executionunits: 0,
+      deadLetter,
+      handler: {
+        '1.0.0': async () => {
+          if (!gateway.available) {
+            throw new ExecutionViolation('Payment gateway unavailable');
+          }
+        },
+      },
+    });
+    return { handler, gateway };
+  };
+
+  const createPaymentEvent = () =>
+    createArvoEventFactory(paymentContract.version('1.0.0')).accepts({
+      source: 'com.test.client',
+      data: { amount: 10 },
+    });
+
+  it('should send the event failing with a violation to the sink and rethrow the violation', async () => {
+    const deadLetter = new SimpleDeadLetterQueue();
+    const { handler } = createPaymentHandler(deadLetter);
+    const event = createPaymentEvent();
+
+    await expect(handler.execute(event, { inheritFrom: 'EVENT' })).rejects.toThrow('Payment gateway unavailable');
+
+    const entries = deadLetter.list();
+    expect(entries.length).toBe(1);
+    expect(entries[0].id).toBe(`${paymentContract.type}:${event.id}`);
+    expect(entries[0].event).toEqual(event.toJSON());
+    expect(entries[0].handler).toEqual({ source: paymentContract.type, type: 'handler' });
+    expect(entries[0].violation).toEqual({
+      type: 'Execution',
+      cause: null,
+      message: 'ViolationError<Execution> Payment gateway unavailable',
+    });
+    expect(entries[0].spanContext.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(entries[0].attempt).toBe(1);
+  });
+
+  it('should count the repeated failures and remove the entry after a successful replay', async () => {
+    const deadLetter = new SimpleDeadLetterQueue();
+    const { handler, gateway } = createPaymentHandler(deadLetter);
+    const event = createPaymentEvent();
+    const id = `${paymentContract.type}:${event.id}`;
+
+    await expect(handler.execute(event, { inheritFrom: 'EVENT' })).rejects.toThrow();
+    await expect(deadLetter.replay(id, handler)).rejects.toThrow('Payment gateway unavailable');
+    expect(deadLetter.get(id)?.attempt).toBe(2);
+    expect(deadLetter.list({ violationType: 'Contract' })).toEqual([]);
+
+    gateway.available = true;
+    expect(await deadLetter.replay(id, handler)).toEqual({ events: [] });
+    expect(deadLetter.get(id)).toBeNull();
+    await expect(deadLetter.replay(id, handler)).rejects.toThrow(`Dead letter '${id}' not found`);
+  });
+
+  it('should not mask the violation when the sink fails', async () => {
+    const handler = createArvoEventHandler({
+      contract: paymentContract,
+      executionunits: 0,
+      deadLetter: {
+        send: async () => {
+          throw new Error('Sink unavailable');
+        },
+      },
+      handler: {
+        '1.0.0': async () => {
+          throw new ExecutionViolation('Payment gateway unavailable');
+        },
+      },
+    });
+    await expect(handler.execute(createPaymentEvent(), { inheritFrom: 'EVENT' })).rejects.toThrow(
+      'Payment gateway unavailable',
+    );
+  });
+
+  it('should send the attempt counted by the lookup of a custom sink', async () => {
+    const letters: DeadLetter[] = [];
+    const handler = createArvoEventHandler({
+      contract: paymentContract,
+      executionunits: 0,
+      deadLetter: {
+        send: async (letter) => {
+          letters.push(letter);
+        },
+        attempts: async ({ source, eventId }) =>
+          letters.filter((item) => item.handler.source === source && item.event.id === eventId).length,
+      },
+      handler: {
+        '1.0.0': async () => {
+          throw new ExecutionViolation('Payment gateway unavailable');
+        },
+      },
+    });
+    const event = createPaymentEvent();
+    await expect(handler.execute(event, { inheritFrom: 'EVENT' })).rejects.toThrow();
+    await expect(handler.execute(event, { inheritFrom: 'EVENT' })).rejects.toThrow();
+    await expect(handler.execute(createPaymentEvent(), { inheritFrom: 'EVENT' })).rejects.toThrow();
+    expect(letters.map((item) => [item.event.id === event.id, item.attempt])).toEqual([
+      [true, 1],
+      [true, 2],
+      [false, 1],
+    ]);
+  });
+
+  it('should dead-letter orchestrator events failing with a transaction violation', async () => {
+    const machine = setupArvoMachine({
+      contracts: {
+        self: checkoutContract.version('1.0.0'),
+        services: {},
+      },
+    }).createMachine({
+      id: 'checkout',
+      output: () => ({ paid: false }),
+      initial: 'done',
+      states: {
+        done: { type: 'final' },
+      },
+    });
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const deadLetter = new SimpleDeadLetterQueue();
+    const orchestrator = createArvoOrchestrator({
+      memory,
+      executionunits: 0,
+      machines: [machine],
+      requiresResourceLocking: true,
+      deadLetter,
+    });
+    const initEvent = createArvoOrchestratorEventFactory(checkoutContract.version('1.0.0')).init({
+      source: 'com.test.client',
+      data: { parentSubject$$: null, amount: 10 },
+    });
+
+    await memory.lock(initEvent.subject, 'parallel-execution');
+    await expect(orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).rejects.toThrow('LOCK_UNACQUIRED');
+
+    const [entry] = deadLetter.list({ handler: checkoutContract.type });
+    expect(entry.handler.type).toBe('orchestrator');
+    expect(entry.violation.type).toBe('OrchestratorTransaction');
+    expect(entry.violation.cause).toBe('LOCK_UNACQUIRED');
+    expect(entry.event.id).toBe(initEvent.id);
+  });
+});
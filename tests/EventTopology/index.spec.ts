@@ -0,0 +1,204 @@
+import { createArvoContract, createArvoOrchestratorContract, createSimpleArvoContract } from 'arvo-core';
+import { z } from 'zod';
+import {
+  SimpleMachineMemory,
+  analyzeEventTopology,
+  createArvoEventHandler,
+  createArvoOrchestrator,
+  setupArvoMachine,
+} from '../../src';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('analyzeEventTopology', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const paymentContract = createSimpleArvoContract({
+    uri: '#/test/topology/payment',
+    type: 'test.topology.payment',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ amount: z.number() }),
+        emits: z.object({ paid: z.boolean() }),
+      },
+      '2.0.0': {
+        accepts: z.object({ amount: z.number(), currency: z.string() }),
+        emits: z.object({ paid: z.boolean() }),
+      },
+    },
+  });
+
+  const notificationContract = createSimpleArvoContract({
+    uri: '#/test/topology/notification',
+    type: 'test.topology.notification',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ message: z.string() }),
+        emits: z.object({ sent: z.boolean() }),
+      },
+    },
+  });
+
+  const checkoutContract = createArvoOrchestratorContract({
+    uri: '#/test/topology/checkout',
+    name: 'test.topology.checkout',
+    versions: {
+      '1.0.0': {
+        init: z.object({ amount: z.number() }),
+        complete: z.object({ paid: z.boolean() }),
+      },
+      '2.0.0': {
+        init: z.object({ amount: z.number() }),
+        complete: z.object({ paid: z.boolean() }),
+      },
+    },
+  });
+
+  const createCheckoutOrchestrator = () =>
+    createArvoOrchestrator({
+      memory: new SimpleMachineMemory(),
+      executionunits: 0,
+      machines: [
+        setupArvoMachine({
+          contracts: {
+            self: checkoutContract.version('1.0.0'),
+            services: { payment: paymentContract.version('1.0.0') },
+          },
+        }).createMachine({
+          id: 'checkout',
+          output: () => ({ paid: true }),
+          initial: 'done',
+          states: { done: { type: 'final' } },
+        }),
+        setupArvoMachine({
+          contracts: {
+            self: checkoutContract.version('2.0.0'),
+            services: {
+              payment: paymentContract.version('2.0.0'),
+              notification: notificationContract.version('1.0.0'),
+            },
+          },
+        }).createMachine({
+          id: 'checkout',
+          output: () => ({ paid: true }),
+          initial: 'done',
+          states: { done: { type: 'final' } },
+        }),
+      ],
+    });
+
+  const createPaymentHandler = (contract: typeof paymentContract) =>
+    createArvoEventHandler({
+      contract,
+      executionunits: 0,
+      handler: {
+        '1.0.0': async () => ({ type: 'evt.test.topology.payment.success', data: { paid: true } }),
+        '2.0.0': async () => ({ type: 'evt.test.topology.payment.success', data: { paid: true } }),
+      },
+    });
+
+  const createNotificationHandler = () =>
+    createArvoEventHandler({
+      contract: notificationContract,
+      executionunits: 0,
+      handler: {
+        '1.0.0': async () => ({ type: 'evt.test.topology.notification.success', data: { sent: true } }),
+      },
+    });
+
+  it('should only warn about the unconsumed completions of a consistent topology', () => {
+    const { graph, diagnostics } = analyzeEventTopology([
+      createCheckoutOrchestrator(),
+      createPaymentHandler(paymentContract),
+      createNotificationHandler(),
+    ]);
+    expect(graph.nodes.map((item) => [item.source, item.kind, item.versions])).toEqual([
+      [checkoutContract.type, 'orchestrator', ['1.0.0', '2.0.0']],
+      [paymentContract.type, 'handler', ['1.0.0', '2.0.0']],
+      [notificationContract.type, 'handler', ['1.0.0']],
+    ]);
+    expect(graph.edges.filter((item) => item.kind === 'command')).toEqual([
+      expect.objectContaining({
+        from: checkoutContract.type,
+        to: paymentContract.type,
+        contract: { uri: paymentContract.uri, version: '1.0.0' },
+        declaredBy: { source: checkoutContract.type, version: '1.0.0' },
+      }),
+      expect.objectContaining({ to: paymentContract.type, contract: { uri: paymentContract.uri, version: '2.0.0' } }),
+      expect.objectContaining({ to: notificationContract.type }),
+    ]);
+    expect(diagnostics.map((item) => [item.kind, item.severity, item.eventType])).toEqual([
+      ['orphanEvent', 'warning', 'arvo.orc.test.topology.checkout.done'],
+      ['orphanEvent', 'warning', `sys.${checkoutContract.type}.error`],
+    ]);
+  });
+
+  it('should report unhandled commands, version mismatches and duplicate sources', () => {
+    const divergedPaymentContract = createSimpleArvoContract({
+      uri: '#/test/topology/payment',
+      type: 'test.topology.payment',
+      versions: {
+        '1.0.0': {
+          accepts: z.object({ amount: z.string() }),
+          emits: z.object({ paid: z.boolean() }),
+        },
+      },
+    });
+    const { diagnostics } = analyzeEventTopology([
+      createCheckoutOrchestrator(),
+      createArvoEventHandler({
+        contract: divergedPaymentContract,
+        executionunits: 0,
+        handler: {
+          '1.0.0': async () => ({ type: 'evt.test.topology.payment.success' as const, data: { paid: true } }),
+        },
+      }),
+      createPaymentHandler(paymentContract),
+    ]);
+    expect(diagnostics.filter((item) => item.severity === 'error').map((item) => item.message)).toEqual([
+      `The source '${paymentContract.type}' is handled by 2 handlers`,
+      `'${checkoutContract.type}' (version 1.0.0) uses version 1.0.0 of the contract '${paymentContract.uri}' with event types or schemas which differ from the ones implemented by '${paymentContract.type}'`,
+      `'${checkoutContract.type}' (version 2.0.0) uses version 2.0.0 of the contract '${paymentContract.uri}', which '${paymentContract.type}' does not implement. Implemented versions: 1.0.0`,
+      `The event '${notificationContract.type}' emitted by '${checkoutContract.type}' (version 2.0.0) is not handled by any of the handlers`,
+    ]);
+  });
+
+  it('should report cycles of handlers without an orchestrator in between', () => {
+    const createCycleHandler = (name: 'ping' | 'pong', next: 'ping' | 'pong') =>
+      createArvoEventHandler({
+        contract: createArvoContract({
+          uri: `#/test/topology/${name}`,
+          type: `com.test.topology.${name}`,
+          versions: {
+            '1.0.0': {
+              accepts: z.object({}),
+              emits: { [`com.test.topology.${next}`]: z.object({}) },
+            },
+          },
+        }),
+        executionunits: 0,
+        handler: {
+          '1.0.0': async () => ({ type: `com.test.topology.${next}`, data: {} }),
+        },
+      });
+    const { graph, diagnostics } = analyzeEventTopology([
+      createCycleHandler('ping', 'pong'),
+      createCycleHandler('pong', 'ping'),
+    ]);
+    expect(graph.edges.map((item) => [item.from, item.to, item.kind])).toEqual([
+      ['com.test.topology.ping', 'com.test.topology.pong', 'emission'],
+      ['com.test.topology.pong', 'com.test.topology.ping', 'emission'],
+    ]);
+    expect(diagnostics.filter((item) => item.kind === 'unmediatedCycle')).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        sources: ['com.test.topology.ping', 'com.test.topology.pong'],
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { createSimpleArvoContract } from 'arvo-core';
+import { z } from 'zod';
+import {
+  SimpleMachineMemory,
+  createArvoEventHandler,
+  createArvoOrchestrator,
+  setupArvoMachine,
+  visualizeEventTopology,
+} from '../../src';
+import { checkoutContract, paymentContract } from '../checkout/contracts';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('visualizeEventTopology', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const notificationContract = createSimpleArvoContract({
+    uri: '#/test/topology/notification',
+    type: 'test.topology.notification',
+    versions: {
+      '1.0.0': {
+        accepts: z.object({ message: z.string() }),
+        emits: z.object({ sent: z.boolean() }),
+      },
+    },
+  });
+
+  const checkoutMachine = setupArvoMachine({
+    contracts: {
+      self: checkoutContract.version('1.0.0'),
+      services: {
+        payment: paymentContract.version('1.0.0'),
+        notification: notificationContract.version('1.0.0'),
+      },
+    },
+  }).createMachine({
+    id: 'checkout',
+    output: () => ({ paid: true }),
+    initial: 'paying',
+    states: {
+      paying: {
+        on: { 'evt.test.checkout.payment.success': { target: 'done' } },
+      },
+      done: { type: 'final' },
+    },
+  });
+
+  const handlers = [
+    createArvoOrchestrator({ memory: new SimpleMachineMemory(), executionunits: 0, machines: [checkoutMachine] }),
+    createArvoEventHandler({
+      contract: paymentContract,
+      executionunits: 0,
+      handler: {
+        '1.0.0': async () => ({ type: 'evt.test.checkout.payment.success', data: { paid: true } }),
+      },
+    }),
+  ];
+
+  it('should render the event flow between the handlers as a Mermaid flowchart', () => {
+    expect(visualizeEventTopology(handlers)).toBe(
+      [
+        'flowchart LR',
+        '  arvo_orc_test_checkout(["arvo.orc.test.checkout"])',
+        '  com_test_checkout_payment["com.test.checkout.payment"]',
+        '  com_test_topology_notification[/"com.test.topology.notification"/]',
+        '  arvo_orc_test_checkout -->|"com.test.checkout.payment"| com_test_checkout_payment',
+        '  com_test_checkout_payment -->|"evt.test.checkout.payment.success"| arvo_orc_test_checkout',
+        '  com_test_checkout_payment -.->|"sys.com.test.checkout.payment.error"| arvo_orc_test_checkout',
+        '  arvo_orc_test_checkout -->|"com.test.topology.notification"| com_test_topology_notification',
+        '  com_test_topology_notification -->|"evt.test.topology.notification.success"| arvo_orc_test_checkout',
+        '  com_test_topology_notification -.->|"sys.com.test.topology.notification.error"| arvo_orc_test_checkout',
+      ].join('\n'),
+    );
+  });
+
+  it('should render the event flow between the handlers as a DOT digraph', () => {
+    const diagram = visualizeEventTopology(handlers, 'dot');
+    expect(diagram.split('\n').slice(0, 5)).toEqual([
+      'digraph "event-topology" {',
+      '  rankdir=LR;',
+      '  "arvo.orc.test.checkout" [shape=box, style=rounded];',
+      '  "com.test.checkout.payment" [shape=box];',
+      '  "com.test.topology.notification" [shape=box, style=dashed];',
+    ]);
+    expect(diagram).toContain(
+      '  "com.test.checkout.payment" -> "arvo.orc.test.checkout" [label="sys.com.test.checkout.payment.error", style=dashed];',
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileSystemMachineMemory, type MachineMemoryRecord } from '../../src';
+
+describe('FileSystemMachineMemory', () => {
+  let directory: string;
+  let memory: FileSystemMachineMemory<MachineMemoryRecord>;
+  let validData: MachineMemoryRecord;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'arvo-fs-memory-'));
+    memory = new FileSystemMachineMemory({ directory });
+    validData = {
+      executionStatus: 'normal',
+      initEventId: '',
+      subject: 'test',
+      state: {} as any,
+      parentSubject: null,
+      status: 'active',
+      value: '',
+      machineDefinition: null,
+      events: {
+        consumed: null,
+        produced: [],
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should throw error when no directory is provided', () => {
+    expect(() => new FileSystemMachineMemory({ directory: '' })).toThrow(
+      'A directory is required for the file system machine memory',
+    );
+  });
+
+  describe('write and read', () => {
+    it('should throw error when writing with empty id', async () => {
+      await expect(memory.write('', validData)).rejects.toThrow('Machine ID is required for write operation');
+    });
+
+    it('should throw error when writing null data', async () => {
+      await expect(memory.write('test', null as any)).rejects.toThrow('Data is required for write operation');
+    });
+
+    it('should throw error when reading with empty id', async () => {
+      await expect(memory.read('')).rejects.toThrow('Machine ID is required for read operation');
+    });
+
+    it('should return null for non-existent id', async () => {
+      expect(await memory.read('nonexistent')).toBeNull();
+    });
+
+    it('should persist data across memory instances', async () => {
+      await memory.write('test', validData);
+      const restarted = new FileSystemMachineMemory<MachineMemoryRecord>({ directory });
+      expect(await restarted.read('test')).toEqual(validData);
+    });
+
+    it('should overwrite data and leave no temporary files behind', async () => {
+      await memory.write('test', validData);
+      await memory.write('test', { ...validData, value: 'updated' });
+      expect((await memory.read('test'))?.value).toBe('updated');
+      const files = await fs.readdir(directory);
+      expect(files.filter((item) => item.endsWith('.tmp'))).toHaveLength(0);
+    });
+
+    it('should support subjects longer than file name limits', async () => {
+      const id = 'x'.repeat(1000);
+      await memory.write(id, validData);
+      expect(await memory.read(id)).toEqual(validData);
+    });
+  });
+
+  describe('lock and unlock', () => {
+    it('should throw error when locking with empty id', async () => {
+      await expect(memory.lock('')).rejects.toThrow('Machine ID is required for lock operation');
+    });
+
+    it('should throw error when unlocking with empty id', async () => {
+      await expect(memory.unlock('')).rejects.toThrow('Machine ID is required for unlock operation');
+    });
+
+    it('should fail to acquire lock for already locked id', async () => {
+      expect(await memory.lock('test')).toBe(true);
+      expect(await memory.lock('test')).toBe(false);
+    });
+
+    it('should allow locking after unlock', async () => {
+      await memory.lock('test');
+      expect(await memory.unlock('test')).toBe(true);
+      expect(await memory.lock('test')).toBe(true);
+    });
+
+    it('should successfully unlock non-locked id', async () => {
+      expect(await memory.unlock('test')).toBe(true);
+    });
+
+    it('should share locks across memory instances', async () => {
+      const other = new FileSystemMachineMemory({ directory });
+      expect(await memory.lock('test')).toBe(true);
+      expect(await other.lock('test')).toBe(false);
+    });
+
+    it('should reclaim a lock once its TTL has passed', async () => {
+      const shortLived = new FileSystemMachineMemory({ directory, lockTTLMs: 10 });
+      expect(await shortLived.lock('test')).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(await shortLived.lock('test')).toBe(true);
+      expect(await shortLived.lock('test')).toBe(false);
+    });
+
+    it('should only release or renew a lock for its owner', async () => {
+      expect(await memory.lock('test', 'owner-a')).toBe(true);
+      expect(await memory.unlock('test', 'owner-b')).toBe(false);
+      expect(await memory.renewLock('test', 'owner-b')).toBe(false);
+      expect(await memory.renewLock('test', 'owner-a')).toBe(true);
+      expect(await memory.unlock('test', 'owner-a')).toBe(true);
+      expect(await memory.lock('test', 'owner-b')).toBe(true);
+    });
+
+    it('should not release or renew an expired lock reclaimed by another owner', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const shortLived = new FileSystemMachineMemory({ directory, lockTTLMs: 10 });
+      expect(await shortLived.lock('test', 'owner-a')).toBe(true);
+      now.mockReturnValue(1010);
+      expect(await shortLived.lock('test', 'owner-b')).toBe(true);
+
+      expect(await shortLived.unlock('test', 'owner-a')).toBe(false);
+      expect(await shortLived.renewLock('test', 'owner-a')).toBe(false);
+      expect(await shortLived.lock('test', 'owner-c')).toBe(false);
+      expect(await shortLived.renewLock('test', 'owner-b')).toBe(true);
+      expect(await shortLived.unlock('test', 'owner-b')).toBe(true);
+      expect(await shortLived.lock('test', 'owner-c')).toBe(true);
+
+      const files = await fs.readdir(directory);
+      expect(files.filter((item) => !item.endsWith('.lock'))).toHaveLength(0);
+      now.mockRestore();
+    });
+
+    it('should keep the lock held while it is renewed or released by another owner', async () => {
+      expect(await memory.lock('test', 'owner-a')).toBe(true);
+
+      expect(await Promise.all([memory.renewLock('test', 'owner-a'), memory.lock('test', 'owner-c')])).toEqual([
+        true,
+        false,
+      ]);
+      expect(await Promise.all([memory.unlock('test', 'owner-b'), memory.lock('test', 'owner-c')])).toEqual([
+        false,
+        false,
+      ]);
+      expect(await memory.renewLock('test', 'owner-a')).toBe(true);
+
+      const files = await fs.readdir(directory);
+      expect(files.filter((item) => !item.endsWith('.lock'))).toHaveLength(0);
+    });
+
+    it('should remove a guard left behind by a crashed process', async () => {
+      expect(await memory.lock('test', 'owner-a')).toBe(true);
+      const [lockFile] = (await fs.readdir(directory)).filter((item) => item.endsWith('.lock'));
+      const guardPath = path.join(directory, `${lockFile}.guard`);
+      await fs.writeFile(guardPath, '');
+      const stale = new Date(Date.now() - 60000);
+      await fs.utimes(guardPath, stale, stale);
+
+      expect(await memory.unlock('test', 'owner-a')).toBe(true);
+      expect(await fs.readdir(directory)).toHaveLength(0);
+    });
+  });
+});
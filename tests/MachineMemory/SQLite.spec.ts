@@ -0,0 +1,287 @@
+import initSqlJs, { type SqlValue } from 'sql.js';
+import {
+  type ISQLiteDatabase,
+  type MachineMemoryRecord,
+  SQLiteMachineMemory,
+  createArvoOrchestrator,
+  setupArvoMachine,
+} from '../../src';
+import { checkoutContract, paymentContract } from '../checkout/contracts';
+import { createCheckoutInitEvent, createPaymentSuccessEvent } from '../checkout/events';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+/**
+ * Adapts an in-memory sql.js database to the statement surface of `better-sqlite3`
+ * and `node:sqlite`, which the memory is written against.
+ */
+const createDatabase = async (): Promise<ISQLiteDatabase> => {
+  const SQL = await initSqlJs();
+  const database = new SQL.Database();
+  return {
+    exec: (sql) => database.exec(sql),
+    prepare: (sql) => {
+      const statement = database.prepare(sql);
+      return {
+        run: (...params) => {
+          statement.run(params as SqlValue[]);
+          return { changes: database.getRowsModified() };
+        },
+        get: (...params) => {
+          statement.bind(params as SqlValue[]);
+          const row = statement.step() ? statement.getAsObject() : undefined;
+          statement.reset();
+          return row;
+        },
+      };
+    },
+  };
+};
+
+describe('SQLiteMachineMemory', () => {
+  let database: ISQLiteDatabase;
+  let memory: SQLiteMachineMemory<MachineMemoryRecord>;
+  let validData: MachineMemoryRecord;
+
+  beforeEach(async () => {
+    database = await createDatabase();
+    memory = new SQLiteMachineMemory({ database });
+    validData = {
+      executionStatus: 'normal',
+      initEventId: '',
+      subject: 'test',
+      state: {} as any,
+      parentSubject: null,
+      status: 'active',
+      value: '',
+      machineDefinition: null,
+      events: {
+        consumed: null,
+        produced: [],
+      },
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should throw error when no database is provided', () => {
+    expect(() => new SQLiteMachineMemory({ database: null as any })).toThrow(
+      'A database connection is required for the SQLite machine memory',
+    );
+  });
+
+  it('should reject invalid table names', () => {
+    expect(() => new SQLiteMachineMemory({ database, tableName: 'memory; DROP TABLE x' })).toThrow(
+      "Invalid table name 'memory; DROP TABLE x'",
+    );
+  });
+
+  describe('write and read', () => {
+    it('should throw error when writing with empty id', async () => {
+      await expect(memory.write('', validData, null)).rejects.toThrow('Machine ID is required for write operation');
+    });
+
+    it('should throw error when writing null data', async () => {
+      await expect(memory.write('test', null as any, null)).rejects.toThrow('Data is required for write operation');
+    });
+
+    it('should throw error when reading with empty id', async () => {
+      await expect(memory.read('')).rejects.toThrow('Machine ID is required for read operation');
+    });
+
+    it('should return null for non-existent id', async () => {
+      expect(await memory.read('nonexistent')).toBeNull();
+    });
+
+    it('should persist data across memory instances', async () => {
+      await memory.write('test', validData, null);
+      const restarted = new SQLiteMachineMemory<MachineMemoryRecord>({ database });
+      expect(await restarted.read('test')).toEqual(validData);
+    });
+
+    it('should update a record derived from the stored snapshot', async () => {
+      await memory.write('test', validData, null);
+      const stored = await memory.read('test');
+      const updated = { ...validData, value: 'updated' };
+      await memory.write('test', updated, stored);
+      expect((await memory.read('test'))?.value).toBe('updated');
+      await memory.write('test', { ...updated, value: 'again' }, updated);
+      expect((await memory.read('test'))?.value).toBe('again');
+    });
+
+    it('should reject a new record when one already exists', async () => {
+      await memory.write('test', validData, null);
+      await expect(memory.write('test', validData, null)).rejects.toThrow(
+        "Optimistic concurrency conflict for id 'test': a record already exists but no previous snapshot was provided",
+      );
+    });
+
+    it('should reject a write derived from a stale snapshot', async () => {
+      await memory.write('test', validData, null);
+      const other = new SQLiteMachineMemory<MachineMemoryRecord>({ database });
+      const stale = await memory.read('test');
+      const concurrent = await other.read('test');
+      await other.write('test', { ...validData, value: 'concurrent' }, concurrent);
+
+      await expect(memory.write('test', { ...validData, value: 'stale' }, stale)).rejects.toThrow(
+        "Optimistic concurrency conflict for id 'test': the stored record no longer matches the previous snapshot",
+      );
+      expect((await memory.read('test'))?.value).toBe('concurrent');
+    });
+
+    it('should accept a copy of the stored snapshot as the previous snapshot', async () => {
+      await memory.write('test', validData, null);
+      await memory.write('test', { ...validData, value: 'updated' }, { ...validData });
+      expect((await memory.read('test'))?.value).toBe('updated');
+    });
+
+    it('should reject a write when the stored record does not exist', async () => {
+      await expect(memory.write('test', validData, { ...validData })).rejects.toThrow(
+        "Optimistic concurrency conflict for id 'test': the stored record no longer matches the previous snapshot",
+      );
+      expect(await memory.read('test')).toBeNull();
+    });
+  });
+
+  describe('lock and unlock', () => {
+    it('should throw error when locking with empty id', async () => {
+      await expect(memory.lock('')).rejects.toThrow('Machine ID is required for lock operation');
+    });
+
+    it('should throw error when unlocking with empty id', async () => {
+      await expect(memory.unlock('')).rejects.toThrow('Machine ID is required for unlock operation');
+    });
+
+    it('should fail to acquire lock for already locked id', async () => {
+      expect(await memory.lock('test')).toBe(true);
+      expect(await memory.lock('test')).toBe(false);
+    });
+
+    it('should allow locking after unlock', async () => {
+      await memory.lock('test');
+      expect(await memory.unlock('test')).toBe(true);
+      expect(await memory.lock('test')).toBe(true);
+    });
+
+    it('should successfully unlock non-locked id', async () => {
+      expect(await memory.unlock('test')).toBe(true);
+    });
+
+    it('should share locks across memory instances', async () => {
+      const other = new SQLiteMachineMemory({ database });
+      expect(await memory.lock('test')).toBe(true);
+      expect(await other.lock('test')).toBe(false);
+    });
+
+    it('should reclaim a lock once its lease has expired', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const shortLived = new SQLiteMachineMemory({ database, lockTTLMs: 10 });
+      expect(await shortLived.lock('test', 'owner-a')).toBe(true);
+      now.mockReturnValue(1005);
+      expect(await shortLived.lock('test', 'owner-b')).toBe(false);
+      now.mockReturnValue(1010);
+      expect(await shortLived.lock('test', 'owner-b')).toBe(true);
+      expect(await shortLived.lock('test', 'owner-a')).toBe(false);
+    });
+
+    it('should only release or renew a lock for its owner', async () => {
+      expect(await memory.lock('test', 'owner-a')).toBe(true);
+      expect(await memory.unlock('test', 'owner-b')).toBe(false);
+      expect(await memory.renewLock('test', 'owner-b')).toBe(false);
+      expect(await memory.renewLock('test', 'owner-a')).toBe(true);
+      expect(await memory.unlock('test', 'owner-a')).toBe(true);
+      expect(await memory.lock('test', 'owner-b')).toBe(true);
+    });
+
+    it('should extend the lease of a renewed lock', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const shortLived = new SQLiteMachineMemory({ database, lockTTLMs: 10 });
+      expect(await shortLived.lock('test', 'owner-a')).toBe(true);
+      now.mockReturnValue(1008);
+      expect(await shortLived.renewLock('test', 'owner-a')).toBe(true);
+      now.mockReturnValue(1012);
+      expect(await shortLived.lock('test', 'owner-b')).toBe(false);
+      now.mockReturnValue(1018);
+      expect(await shortLived.lock('test', 'owner-b')).toBe(true);
+    });
+
+    it('should not renew or release a lease reclaimed by another owner', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const shortLived = new SQLiteMachineMemory({ database, lockTTLMs: 10 });
+      expect(await shortLived.lock('test', 'owner-a')).toBe(true);
+      now.mockReturnValue(1010);
+      expect(await shortLived.renewLock('test', 'owner-a')).toBe(false);
+      expect(await shortLived.lock('test', 'owner-b')).toBe(true);
+      expect(await shortLived.unlock('test', 'owner-a')).toBe(false);
+      expect(await shortLived.lock('test', 'owner-c')).toBe(false);
+      expect(await shortLived.unlock('test', 'owner-b')).toBe(true);
+    });
+  });
+
+  describe('with an orchestrator', () => {
+    beforeAll(() => {
+      telemetrySdkStart();
+    });
+
+    afterAll(() => {
+      telemetrySdkStop();
+    });
+
+    const machine = setupArvoMachine({
+      contracts: {
+        self: checkoutContract.version('1.0.0'),
+        services: {
+          payment: paymentContract.version('1.0.0'),
+        },
+      },
+      types: {
+        context: {} as { amount: number },
+      },
+      actions: {
+        recordPayment: () => {
+          throw new Error('Ledger unavailable');
+        },
+      },
+    }).createMachine({
+      id: 'checkout',
+      context: ({ input }) => ({ amount: input.data.amount }),
+      output: () => ({ paid: true }),
+      initial: 'awaiting_payment',
+      states: {
+        awaiting_payment: {
+          entry: {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({
+              type: 'com.test.checkout.payment',
+              data: { amount: context.amount },
+            }),
+          },
+          on: {
+            'evt.test.checkout.payment.success': { actions: 'recordPayment', target: 'done' },
+          },
+        },
+        done: { type: 'final' },
+      },
+    });
+
+    it('should persist the failure state and keep the last good state', async () => {
+      const orchestrator = createArvoOrchestrator({ memory, executionunits: 0, machines: [machine] });
+      const initEvent = createCheckoutInitEvent();
+      await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+      const paymentSuccess = createPaymentSuccessEvent({ subject: initEvent.subject, to: checkoutContract.type });
+      const writeSpy = jest.spyOn(memory, 'write');
+
+      const { events } = await orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' });
+      expect(events[0].type).toBe(checkoutContract.systemError.type);
+      expect(writeSpy).toHaveBeenCalledTimes(1);
+      await expect(writeSpy.mock.results[0].value).resolves.toBeUndefined();
+
+      const state = await memory.read(initEvent.subject);
+      expect(state?.executionStatus).toBe('failure');
+      expect(state?.executionStatus === 'failure' ? state.failedEvent?.id : undefined).toBe(paymentSuccess.id);
+      expect(state?.value).toBe('awaiting_payment');
+      expect(state?.events?.consumed?.id).toBe(initEvent.id);
+    });
+  });
+});
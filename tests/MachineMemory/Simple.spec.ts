@@ -103,6 +103,68 @@ describe('SimpleMachineMemory', () => {
       const result = await memory.lock('test');
       expect(result).toBe(true);
     });
+
+    it('should not release a lock held by another owner', async () => {
+      await memory.lock('test', 'owner-a');
+      expect(await memory.unlock('test', 'owner-b')).toBe(false);
+      expect(await memory.lock('test', 'owner-b')).toBe(false);
+      expect(await memory.unlock('test', 'owner-a')).toBe(true);
+      expect(await memory.lock('test', 'owner-b')).toBe(true);
+    });
+  });
+
+  describe('lock expiry and renewal', () => {
+    const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    it('should allow acquiring a lock once its TTL has passed', async () => {
+      const shortLived = new SimpleMachineMemory({ lockTTLMs: 10 });
+      expect(await shortLived.lock('test', 'owner-a')).toBe(true);
+      await wait(30);
+      expect(await shortLived.lock('test', 'owner-b')).toBe(true);
+      expect(await shortLived.unlock('test', 'owner-a')).toBe(false);
+    });
+
+    it('should extend the TTL of a lock held by the owner', async () => {
+      const shortLived = new SimpleMachineMemory({ lockTTLMs: 40 });
+      await shortLived.lock('test', 'owner-a');
+      await wait(25);
+      expect(await shortLived.renewLock('test', 'owner-a')).toBe(true);
+      await wait(25);
+      expect(await shortLived.lock('test', 'owner-b')).toBe(false);
+    });
+
+    it('should not renew a lock held by another owner or an expired lock', async () => {
+      const shortLived = new SimpleMachineMemory({ lockTTLMs: 10 });
+      await shortLived.lock('test', 'owner-a');
+      expect(await shortLived.renewLock('test', 'owner-b')).toBe(false);
+      await wait(30);
+      expect(await shortLived.renewLock('test', 'owner-a')).toBe(false);
+    });
+
+    it('should throw error when renewing with empty id', async () => {
+      await expect(memory.renewLock('', 'owner')).rejects.toThrow('Machine ID is required for renew lock operation');
+    });
+  });
+
+  describe('record expiry', () => {
+    it('should evict records which have not been written within the record TTL', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const shortLived = new SimpleMachineMemory({ recordTTLMs: 100 });
+      await shortLived.write('first', validData);
+      now.mockReturnValue(1050);
+      await shortLived.write('second', validData);
+      now.mockReturnValue(1080);
+      await shortLived.write('first', validData);
+
+      now.mockReturnValue(1150);
+      expect(await shortLived.read('first')).toEqual(validData);
+      expect(await shortLived.read('second')).toBeNull();
+      now.mockReturnValue(1190);
+      await shortLived.write('third', validData);
+      expect(await shortLived.read('first')).toBeNull();
+      expect(await shortLived.read('third')).toEqual(validData);
+      now.mockRestore();
+    });
   });
 
   describe('clear', () => {
@@ -123,6 +185,51 @@ describe('SimpleMachineMemory', () => {
     });
   });
 
+  describe('query', () => {
+    const writeAt = async (id: string, time: number, data: Partial<MachineMemoryRecord>) => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(time);
+      await memory.write(id, { ...validData, subject: id, ...data } as MachineMemoryRecord);
+      nowSpy.mockRestore();
+    };
+
+    beforeEach(async () => {
+      await writeAt('done', 300, { status: 'done', value: 'completed' });
+      await writeAt('waiting', 100, { value: 'awaiting_payment' });
+      await writeAt('child', 200, { value: { processing: 'charging' }, parentSubject: 'waiting' });
+    });
+
+    it('should list all states least recently updated first', async () => {
+      const result = await memory.query();
+      expect(result.items.map((item) => item.id)).toEqual(['waiting', 'child', 'done']);
+      expect(result.items.map((item) => item.updatedAt)).toEqual([100, 200, 300]);
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should filter by status, value, parent subject and update time', async () => {
+      const ids = async (query: Parameters<SimpleMachineMemory['query']>[0]) =>
+        (await memory.query(query)).items.map((item) => item.id);
+
+      expect(await ids({ status: 'active' })).toEqual(['waiting', 'child']);
+      expect(await ids({ status: ['done', 'error'] })).toEqual(['done']);
+      expect(await ids({ value: 'awaiting_payment' })).toEqual(['waiting']);
+      expect(await ids({ value: 'processing' })).toEqual(['child']);
+      expect(await ids({ value: { processing: 'charging' } })).toEqual(['child']);
+      expect(await ids({ parentSubject: null })).toEqual(['waiting', 'done']);
+      expect(await ids({ parentSubject: 'waiting' })).toEqual(['child']);
+      expect(await ids({ updatedAfter: 150, updatedBefore: 300 })).toEqual(['child']);
+      expect(await ids({ executionStatus: 'failure' })).toEqual([]);
+    });
+
+    it('should paginate with the returned cursor', async () => {
+      const first = await memory.query({ limit: 2 });
+      expect(first.items.map((item) => item.id)).toEqual(['waiting', 'child']);
+      const second = await memory.query({ limit: 2, cursor: first.nextCursor });
+      expect(second.items.map((item) => item.id)).toEqual(['done']);
+      expect(second.nextCursor).toBeNull();
+      await expect(memory.query({ cursor: 'invalid' })).rejects.toThrow("Invalid cursor 'invalid' for query operation");
+    });
+  });
+
   describe('integration tests', () => {
     it('should handle write-read-lock-unlock cycle', async () => {
       // Write data
@@ -105,6 +105,27 @@ describe('TelemetredSimpleMachineMemory', () => {
     });
   });
 
+  describe('record expiry', () => {
+    it('should evict records which have not been written within the record TTL', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const shortLived = new TelemetredSimpleMachineMemory({ recordTTLMs: 100 });
+      await shortLived.write('first', validData);
+      now.mockReturnValue(1050);
+      await shortLived.write('second', validData);
+      now.mockReturnValue(1080);
+      await shortLived.write('first', validData);
+
+      now.mockReturnValue(1150);
+      expect(await shortLived.read('first')).toEqual(validData);
+      expect(await shortLived.read('second')).toBeNull();
+      now.mockReturnValue(1190);
+      await shortLived.write('third', validData);
+      expect(await shortLived.read('first')).toBeNull();
+      expect(await shortLived.read('third')).toEqual(validData);
+      now.mockRestore();
+    });
+  });
+
   describe('clear', () => {
     it('should clear all stored data', async () => {
       await memory.write('test1', validData);
@@ -1,6 +1,12 @@
-import { createArvoOrchestratorContract, createArvoOrchestratorEventFactory } from 'arvo-core';
+import { type ArvoEvent, createArvoOrchestratorContract, createArvoOrchestratorEventFactory } from 'arvo-core';
 import { z } from 'zod';
-import { MachineRegistry, setupArvoMachine } from '../src';
+import {
+  MachineRegistry,
+  pinLatestVersion,
+  setupArvoMachine,
+  tenantVersionPinning,
+  weightedVersionSplit,
+} from '../src';
 import { telemetrySdkStart, telemetrySdkStop } from './utils';
 
 describe('MachineRegistry', () => {
@@ -154,4 +160,190 @@ describe('MachineRegistry', () => {
     );
     expect(machine).toBe(null);
   });
+
+  describe('snapshot migrations', () => {
+    const migrationContract = createArvoOrchestratorContract({
+      uri: '#/test/machine/migration',
+      name: 'migration',
+      versions: {
+        '0.0.1': {
+          init: z.object({}),
+          complete: z.object({}),
+        },
+        '0.0.2': {
+          init: z.object({}),
+          complete: z.object({}),
+        },
+        '0.0.3': {
+          init: z.object({}),
+          complete: z.object({}),
+        },
+      },
+    });
+
+    const createMigrationMachine = (version: '0.0.1' | '0.0.2' | '0.0.3') =>
+      setupArvoMachine({
+        contracts: {
+          self: migrationContract.version(version),
+          services: {},
+        },
+      }).createMachine({
+        id: 'migration',
+        initial: 'route',
+        states: {
+          route: { type: 'final' },
+        },
+      });
+
+    const migrationMachine1 = createMigrationMachine('0.0.1');
+    const migrationMachine2 = createMigrationMachine('0.0.2');
+    const migrationMachine3 = createMigrationMachine('0.0.3');
+    const migrate = ({ snapshot }: { snapshot: any }) => snapshot;
+
+    it('should resolve the chain of snapshot migrations', () => {
+      const registry = new MachineRegistry(migrationMachine1, migrationMachine2, migrationMachine3).addMigrations(
+        { from: '0.0.2', to: '0.0.3', migrate },
+        { from: '0.0.1', to: '0.0.2', migrate },
+      );
+
+      expect(registry.resolveMigrations('0.0.1').map((item) => item.to)).toEqual(['0.0.2', '0.0.3']);
+      expect(registry.resolveMigrations('0.0.2').map((item) => item.to)).toEqual(['0.0.3']);
+      expect(registry.resolveMigrations('0.0.3')).toEqual([]);
+    });
+
+    it('should reject invalid snapshot migrations', () => {
+      const registry = new MachineRegistry(migrationMachine1, migrationMachine2);
+      expect(() => registry.addMigrations({ from: '0.0.1', to: '0.0.9', migrate })).toThrow(
+        'Snapshot migration from version 0.0.1 to 0.0.9 targets a machine version which is not registered',
+      );
+      expect(() => registry.addMigrations({ from: '0.0.2', to: '0.0.1', migrate })).toThrow(
+        'Snapshot migration from version 0.0.2 to 0.0.1 must target a newer machine version',
+      );
+      registry.addMigrations({ from: '0.0.1', to: '0.0.2', migrate });
+      expect(() => registry.addMigrations({ from: '0.0.1', to: '0.0.2', migrate })).toThrow(
+        'conflicts with an existing migration from version 0.0.1',
+      );
+    });
+  });
+
+  describe('routing', () => {
+    const routingContract = createArvoOrchestratorContract({
+      uri: '#/test/machine/routing',
+      name: 'routing',
+      versions: {
+        '0.0.1': {
+          init: z.object({ delta: z.number() }),
+          complete: z.object({}),
+        },
+        '0.0.2': {
+          init: z.object({ delta: z.number() }),
+          complete: z.object({}),
+        },
+      },
+    });
+
+    const otherRoutingContract = createArvoOrchestratorContract({
+      uri: '#/test/machine/routing/other',
+      name: 'routing.other',
+      versions: {
+        '0.0.3': {
+          init: z.object({}),
+          complete: z.object({}),
+        },
+      },
+    });
+
+    const createRoutingMachine = (version: '0.0.1' | '0.0.2') =>
+      setupArvoMachine({
+        contracts: {
+          self: routingContract.version(version),
+          services: {},
+        },
+      }).createMachine({
+        id: 'routing',
+        initial: 'route',
+        states: {
+          route: { type: 'final' },
+        },
+      });
+
+    const routingMachine1 = createRoutingMachine('0.0.1');
+    const routingMachine2 = createRoutingMachine('0.0.2');
+    const otherRoutingMachine = setupArvoMachine({
+      contracts: {
+        self: otherRoutingContract.version('0.0.3'),
+        services: {},
+      },
+    }).createMachine({
+      id: 'routing',
+      initial: 'route',
+      states: {
+        route: { type: 'final' },
+      },
+    });
+
+    const createInit = (accesscontrol?: string) =>
+      createArvoOrchestratorEventFactory(routingContract.version('0.0.1')).init({
+        source: 'com.test.test',
+        accesscontrol,
+        data: { parentSubject$$: null, delta: 1 },
+      });
+
+    const route = (registry: MachineRegistry, event: ArvoEvent) => {
+      const machine = registry.resolve(event);
+      return machine ? registry.route(event, machine) : null;
+    };
+
+    it('should route init events to the latest version', () => {
+      const registry = new MachineRegistry(routingMachine1, routingMachine2, otherRoutingMachine).useRouting(
+        pinLatestVersion(),
+      );
+      expect(route(registry, createInit())?.version).toBe('0.0.2');
+    });
+
+    it('should split init events by weight, consistently per subject', () => {
+      const canary = new MachineRegistry(routingMachine1, routingMachine2).useRouting(
+        weightedVersionSplit({ '0.0.1': 0, '0.0.2': 1 }),
+      );
+      expect(route(canary, createInit())?.version).toBe('0.0.2');
+
+      const registry = new MachineRegistry(routingMachine1, routingMachine2).useRouting(
+        weightedVersionSplit({ '0.0.1': 50, '0.0.2': 50 }),
+      );
+      const event = createInit();
+      const version = route(registry, event)?.version;
+      expect(route(registry, event)?.version).toBe(version);
+      const versions = new Set(Array.from({ length: 20 }, () => route(registry, createInit())?.version));
+      expect(versions).toEqual(new Set(['0.0.1', '0.0.2']));
+
+      expect(() => weightedVersionSplit({ '0.0.1': 0 })).toThrow(
+        'Weighted version split requires at least one positive weight',
+      );
+      expect(() => weightedVersionSplit({ '0.0.1': -1, '0.0.2': 2 })).toThrow(
+        'Weighted version split requires finite, non-negative weights',
+      );
+    });
+
+    it('should pin the init events of a tenant', () => {
+      const registry = new MachineRegistry(routingMachine1, routingMachine2).useRouting(
+        tenantVersionPinning({ tenants: { 'tenant-beta': '0.0.2' } }),
+      );
+      expect(route(registry, createInit('tenant-beta'))?.version).toBe('0.0.2');
+      expect(route(registry, createInit('tenant-alpha'))?.version).toBe('0.0.1');
+      expect(route(registry, createInit())?.version).toBe('0.0.1');
+    });
+
+    it('should keep the requested version for unregistered routed versions', () => {
+      const registry = new MachineRegistry(routingMachine1, routingMachine2).useRouting(() => '9.9.9');
+      expect(route(registry, createInit())?.version).toBe('0.0.1');
+    });
+
+    it('should only resolve the requested version without routing', () => {
+      const registry = new MachineRegistry(routingMachine1, routingMachine2).useRouting(pinLatestVersion());
+      expect(registry.resolve(createInit())?.version).toBe('0.0.1');
+      expect(new MachineRegistry(routingMachine1, routingMachine2).route(createInit(), routingMachine1).version).toBe(
+        '0.0.1',
+      );
+    });
+  });
 });
@@ -0,0 +1,128 @@
+import {
+  type ArvoResumableState,
+  type MachineMemoryRecord,
+  type OrchestrationHistoryRecord,
+  SimpleMachineMemory,
+  SimpleOrchestrationHistoryStore,
+  createArvoOrchestrator,
+  createArvoResumable,
+} from '../../src';
+import { stableHash } from '../../src/utils/object';
+import { checkoutContract, paymentContract } from '../checkout/contracts';
+import { createCheckoutInitEvent, createPaymentSuccessEvent } from '../checkout/events';
+import { checkoutMachine } from '../checkout/machines';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('OrchestrationHistory', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  describe('SimpleOrchestrationHistoryStore', () => {
+    const record = (subject: string): OrchestrationHistoryRecord => ({
+      subject,
+      handler: { source: checkoutContract.type, type: 'orchestrator' },
+      consumed: createCheckoutInitEvent().toJSON(),
+      produced: [],
+      executionStatus: 'normal',
+      status: 'active',
+      value: 'awaiting_payment',
+      snapshotHash: stableHash(null),
+      error: null,
+      recordedAt: new Date().toISOString(),
+    });
+
+    it('should number the steps per subject in append order', async () => {
+      const store = new SimpleOrchestrationHistoryStore();
+      await store.append(record('first'));
+      await store.append(record('second'));
+      await store.append(record('first'));
+
+      expect((await store.read('first')).map((item) => item.sequence)).toEqual([0, 1]);
+      expect((await store.read('second')).map((item) => item.sequence)).toEqual([0]);
+      expect(await store.read('unknown')).toEqual([]);
+
+      store.clear('first');
+      expect(await store.read('first')).toEqual([]);
+      expect((await store.read('second')).length).toBe(1);
+    });
+
+    it('should throw on empty subjects', async () => {
+      const store = new SimpleOrchestrationHistoryStore();
+      await expect(store.append(record(''))).rejects.toThrow('Subject is required for append operation');
+      await expect(store.read('')).rejects.toThrow('Subject is required for read operation');
+    });
+  });
+
+  it('should record every execution of an orchestrator', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const history = new SimpleOrchestrationHistoryStore();
+    const orchestrator = createArvoOrchestrator({ memory, executionunits: 0, machines: [checkoutMachine], history });
+    const init = createCheckoutInitEvent();
+
+    const [paymentRequest] = (await orchestrator.execute(init, { inheritFrom: 'EVENT' })).events;
+    const afterInit = await memory.read(init.subject);
+    const paymentSuccess = createPaymentSuccessEvent({ subject: paymentRequest.subject, to: paymentRequest.source });
+    const [completion] = (await orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' })).events;
+
+    const steps = await history.read(init.subject);
+    expect(
+      steps.map((item) => [
+        item.sequence,
+        item.consumed.id,
+        item.produced.map((evt) => evt.id),
+        item.status,
+        item.value,
+      ]),
+    ).toEqual([
+      [0, init.id, [paymentRequest.id], 'active', 'awaiting_payment'],
+      [1, paymentSuccess.id, [completion.id], 'done', 'done'],
+    ]);
+    expect(steps[0].snapshotHash).toBe(stableHash(afterInit?.state));
+    expect(steps[1].snapshotHash).toBe(stableHash((await memory.read(init.subject))?.state));
+    expect(steps[0].handler).toEqual({ source: checkoutContract.type, type: 'orchestrator' });
+  });
+
+  it('should record the failure of a resumable', async () => {
+    const history = new SimpleOrchestrationHistoryStore();
+    const resumable = createArvoResumable({
+      contracts: {
+        self: checkoutContract,
+        services: {
+          payment: paymentContract.version('1.0.0'),
+        },
+      },
+      memory: new SimpleMachineMemory<ArvoResumableState<Record<string, any>>>(),
+      history,
+      handler: {
+        '1.0.0': async () => {
+          throw new Error('Payment gateway misconfigured');
+        },
+      },
+    });
+    const init = createCheckoutInitEvent();
+
+    const { events } = await resumable.execute(init, { inheritFrom: 'EVENT' });
+    const [step] = await history.read(init.subject);
+    expect(step.executionStatus).toBe('failure');
+    expect(step.error).toBe('Payment gateway misconfigured');
+    expect(step.produced.map((item) => item.id)).toEqual(events.map((item) => item.id));
+  });
+
+  it('should not fail the execution when the history store fails', async () => {
+    const history = new SimpleOrchestrationHistoryStore();
+    jest.spyOn(history, 'append').mockRejectedValue(new Error('History unavailable'));
+    const orchestrator = createArvoOrchestrator({
+      memory: new SimpleMachineMemory(),
+      executionunits: 0,
+      machines: [checkoutMachine],
+      history,
+    });
+    const { events } = await orchestrator.execute(createCheckoutInitEvent(), { inheritFrom: 'EVENT' });
+    expect(events.length).toBe(1);
+  });
+});
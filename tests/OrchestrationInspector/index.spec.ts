@@ -0,0 +1,87 @@
+import {
+  type MachineMemoryRecord,
+  OrchestrationInspector,
+  SimpleMachineMemory,
+  createArvoOrchestrator,
+} from '../../src';
+import { createCheckoutInitEvent } from '../checkout/events';
+import { checkoutMachine } from '../checkout/machines';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('OrchestrationInspector', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  it('should decode the state of an orchestration', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const orchestrator = createArvoOrchestrator({ memory, executionunits: 0, machines: [checkoutMachine] });
+    const initEvent = createCheckoutInitEvent();
+    const { events } = await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+
+    const inspector = new OrchestrationInspector({ memory });
+    const view = await inspector.inspect(initEvent.subject);
+    expect(view).toMatchObject({
+      subject: initEvent.subject,
+      executionStatus: 'normal',
+      status: 'active',
+      value: 'awaiting_payment',
+      context: { amount: 10 },
+      parentSubject: null,
+      initEventId: initEvent.id,
+      activeTimers: [],
+      pendingOutboxEvents: 0,
+      error: null,
+      updatedAt: null,
+    });
+    expect(view?.lastConsumedEvent?.id).toBe(initEvent.id);
+    expect(view?.lastProducedEvents.map((item) => item.id)).toEqual(events.map((item) => item.id));
+    expect(await inspector.inspect('unknown.subject')).toBeNull();
+  });
+
+  it('should list the orchestrations in a state and the failed orchestrations', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const orchestrator = createArvoOrchestrator({ memory, executionunits: 0, machines: [checkoutMachine] });
+    const initEvent = createCheckoutInitEvent();
+    await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+    await memory.write('failed.subject', {
+      executionStatus: 'failure',
+      subject: 'failed.subject',
+      error: { name: 'Error', message: 'Payment provider crashed', stack: null },
+    });
+
+    const inspector = new OrchestrationInspector({ memory });
+    const waiting = await inspector.list({ value: 'awaiting_payment' });
+    expect(waiting.items.map((item) => item.subject)).toEqual([initEvent.subject]);
+    expect(typeof waiting.items[0].updatedAt).toBe('number');
+
+    const failed = await inspector.list({ executionStatus: 'failure' });
+    expect(failed.items.length).toBe(1);
+    expect(failed.items[0]).toMatchObject({
+      subject: 'failed.subject',
+      executionStatus: 'failure',
+      status: null,
+      value: null,
+      error: { name: 'Error', message: 'Payment provider crashed' },
+    });
+  });
+
+  it('should reject listing on memories which cannot be queried', async () => {
+    const memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    const inspector = new OrchestrationInspector({
+      memory: {
+        read: (id) => memory.read(id),
+        write: (id, data) => memory.write(id, data as MachineMemoryRecord),
+        lock: (id) => memory.lock(id),
+        unlock: (id) => memory.unlock(id),
+      },
+    });
+    await expect(inspector.list()).rejects.toThrow(
+      'Orchestration listing requires a machine memory implementing IQueryableMachineMemory',
+    );
+  });
+});
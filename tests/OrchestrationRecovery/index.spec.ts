@@ -0,0 +1,194 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  FileSystemMachineMemory,
+  type IMachineMemory,
+  type MachineMemoryRecord,
+  OrchestrationInspector,
+  OrchestrationRecovery,
+  SimpleMachineMemory,
+  createArvoOrchestrator,
+  setupArvoMachine,
+} from '../../src';
+import { checkoutContract, paymentContract } from '../checkout/contracts';
+import { createCheckoutInitEvent, createPaymentSuccessEvent } from '../checkout/events';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('OrchestrationRecovery', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const createCheckout = (memory: IMachineMemory<MachineMemoryRecord> = new SimpleMachineMemory()) => {
+    const ledger = { available: false };
+    const machine = setupArvoMachine({
+      contracts: {
+        self: checkoutContract.version('1.0.0'),
+        services: {
+          payment: paymentContract.version('1.0.0'),
+        },
+      },
+      types: {
+        context: {} as { amount: number },
+      },
+      actions: {
+        recordPayment: () => {
+          if (!ledger.available) throw new Error('Ledger unavailable');
+        },
+      },
+    }).createMachine({
+      id: 'checkout',
+      context: ({ input }) => ({ amount: input.data.amount }),
+      output: () => ({ paid: true }),
+      initial: 'awaiting_payment',
+      states: {
+        awaiting_payment: {
+          entry: {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({
+              type: 'com.test.checkout.payment',
+              data: { amount: context.amount },
+            }),
+          },
+          on: {
+            'evt.test.checkout.payment.success': { actions: 'recordPayment', target: 'done' },
+          },
+        },
+        done: { type: 'final' },
+      },
+    });
+    const orchestrator = createArvoOrchestrator({ memory, executionunits: 0, machines: [machine] });
+    const recovery = new OrchestrationRecovery({ handler: orchestrator });
+    const initEvent = createCheckoutInitEvent();
+    const createPaymentSuccess = () =>
+      createPaymentSuccessEvent({ subject: initEvent.subject, to: checkoutContract.type });
+    const fail = async () => {
+      await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+      const paymentSuccess = createPaymentSuccess();
+      const { events } = await orchestrator.execute(paymentSuccess, { inheritFrom: 'EVENT' });
+      expect(events[0].type).toBe(checkoutContract.systemError.type);
+      return paymentSuccess;
+    };
+    return { ledger, memory, orchestrator, recovery, initEvent, createPaymentSuccess, fail };
+  };
+
+  it('should keep the last good state and the failed event in the failure state', async () => {
+    const { memory, initEvent, fail } = createCheckout();
+    const paymentSuccess = await fail();
+
+    const state = await memory.read(initEvent.subject);
+    expect(state?.executionStatus).toBe('failure');
+    expect(state?.executionStatus === 'failure' ? state.failedEvent?.id : undefined).toBe(paymentSuccess.id);
+    expect(state?.value).toBe('awaiting_payment');
+    expect(state?.events?.consumed?.id).toBe(initEvent.id);
+  });
+
+  it('should retry the failed event against the last good state', async () => {
+    const { ledger, memory, recovery, initEvent, fail } = createCheckout();
+    const paymentSuccess = await fail();
+
+    ledger.available = true;
+    const { events } = await recovery.retry(initEvent.subject, { operator: 'ops', reason: 'Ledger restored' });
+    expect(events.length).toBe(1);
+    expect(events[0].type).toBe(checkoutContract.version('1.0.0').metadata.completeEventType);
+
+    const state = await memory.read(initEvent.subject);
+    expect(state?.executionStatus).toBe('normal');
+    expect(state?.status).toBe('done');
+    expect(state?.recoveries).toEqual([
+      {
+        action: 'retry',
+        at: expect.any(String),
+        operator: 'ops',
+        reason: 'Ledger restored',
+        executionStatus: 'failure',
+        error: 'Ledger unavailable',
+        eventId: paymentSuccess.id,
+      },
+    ]);
+    await expect(recovery.retry(initEvent.subject)).rejects.toThrow('has no failed event to retry');
+  });
+
+  it('should keep the error of the failure state through a JSON serializing memory', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'arvo-recovery-'));
+    try {
+      const memory = new FileSystemMachineMemory<MachineMemoryRecord>({ directory });
+      const { ledger, recovery, initEvent, fail } = createCheckout(memory);
+      await fail();
+
+      const state = await memory.read(initEvent.subject);
+      expect(state?.executionStatus === 'failure' ? state.error : null).toEqual({
+        name: 'Error',
+        message: 'Ledger unavailable',
+        stack: expect.any(String),
+      });
+      expect((await new OrchestrationInspector({ memory }).inspect(initEvent.subject))?.error?.message).toBe(
+        'Ledger unavailable',
+      );
+
+      ledger.available = true;
+      await recovery.retry(initEvent.subject, { operator: 'ops' });
+      expect((await memory.read(initEvent.subject))?.recoveries?.[0]?.error).toBe('Ledger unavailable');
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should force the orchestration into a named state', async () => {
+    const { ledger, memory, orchestrator, recovery, initEvent, createPaymentSuccess, fail } = createCheckout();
+    await fail();
+
+    await expect(recovery.forceTransition(initEvent.subject, 'unknown')).rejects.toThrow();
+    const newState = await recovery.forceTransition(initEvent.subject, 'awaiting_payment', { operator: 'ops' });
+    expect(newState.executionStatus).toBe('normal');
+    expect(newState.value).toBe('awaiting_payment');
+    expect(newState.recoveries?.[0]).toMatchObject({ action: 'forceTransition', value: 'awaiting_payment' });
+    expect(await memory.read(initEvent.subject)).toEqual(newState);
+
+    ledger.available = true;
+    const { events } = await orchestrator.execute(createPaymentSuccess(), { inheritFrom: 'EVENT' });
+    expect(events[0].data).toEqual({ paid: true });
+    expect((await memory.read(initEvent.subject))?.recoveries?.length).toBe(1);
+  });
+
+  it('should cancel the orchestration and notify the initiator', async () => {
+    const { memory, orchestrator, recovery, initEvent } = createCheckout();
+    await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' });
+
+    const { events } = await recovery.cancel(initEvent.subject, { reason: 'Customer request' });
+    expect(events.length).toBe(1);
+    expect(events[0].type).toBe(checkoutContract.systemError.type);
+    expect(events[0].to).toBe('com.test.client');
+    expect(events[0].data.errorMessage).toBe('Orchestration cancelled by operator - Customer request');
+
+    const state = await memory.read(initEvent.subject);
+    expect(state?.executionStatus).toBe('failure');
+    expect(state?.recoveries?.[0]).toMatchObject({
+      action: 'cancel',
+      executionStatus: 'normal',
+      eventId: initEvent.id,
+    });
+  });
+
+  it('should cancel the orchestration with a synthesized completion', async () => {
+    const { recovery, initEvent, fail } = createCheckout();
+    await fail();
+
+    const { events } = await recovery.cancel(initEvent.subject, { output: { paid: false } });
+    expect(events.length).toBe(1);
+    expect(events[0].type).toBe(checkoutContract.version('1.0.0').metadata.completeEventType);
+    expect(events[0].data.paid).toBe(false);
+  });
+
+  it('should not recover orchestrations locked by another process', async () => {
+    const { memory, recovery, initEvent, fail } = createCheckout();
+    await fail();
+    await memory.lock(initEvent.subject, 'parallel-execution');
+    await expect(recovery.retry(initEvent.subject)).rejects.toThrow('is locked by another process');
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  type ArvoResumableState,
+  type MachineMemoryRecord,
+  SimpleMachineMemory,
+  SimpleOrchestrationHistoryStore,
+  createArvoOrchestrator,
+  createArvoResumable,
+  replayOrchestration,
+  setupArvoMachine,
+} from '../../src';
+import { checkoutContract, paymentContract } from '../checkout/contracts';
+import { createCheckoutInitEvent, createPaymentSuccessEvent } from '../checkout/events';
+import { telemetrySdkStart, telemetrySdkStop } from '../utils';
+
+describe('replayOrchestration', () => {
+  beforeAll(() => {
+    telemetrySdkStart();
+  });
+
+  afterAll(() => {
+    telemetrySdkStop();
+  });
+
+  const createMachine = (fee: number) =>
+    setupArvoMachine({
+      contracts: {
+        self: checkoutContract.version('1.0.0'),
+        services: {
+          payment: paymentContract.version('1.0.0'),
+        },
+      },
+      types: {
+        context: {} as { amount: number },
+      },
+    }).createMachine({
+      id: 'checkout',
+      context: ({ input }) => ({ amount: input.data.amount + fee }),
+      output: () => ({ paid: true }),
+      initial: 'paying',
+      states: {
+        paying: {
+          entry: {
+            type: 'enqueueArvoEvent',
+            params: ({ context }) => ({ type: 'com.test.checkout.payment', data: { amount: context.amount } }),
+          },
+          on: {
+            'evt.test.checkout.payment.success': { target: 'done' },
+          },
+        },
+        done: {
+          type: 'final',
+        },
+      },
+    });
+
+  const recordMachineHistory = async () => {
+    const history = new SimpleOrchestrationHistoryStore();
+    const orchestrator = createArvoOrchestrator({
+      memory: new SimpleMachineMemory<MachineMemoryRecord>(),
+      executionunits: 0,
+      machines: [createMachine(0)],
+      history,
+    });
+    const initEvent = createCheckoutInitEvent();
+    const [paymentRequest] = (await orchestrator.execute(initEvent, { inheritFrom: 'EVENT' })).events;
+    await orchestrator.execute(
+      createPaymentSuccessEvent({ subject: paymentRequest.subject, to: paymentRequest.source }),
+      { inheritFrom: 'EVENT' },
+    );
+    return history.read(initEvent.subject);
+  };
+
+  it('should reproduce the recorded history of a machine', async () => {
+    const history = await recordMachineHistory();
+    const result = await replayOrchestration({ handler: createMachine(0), history });
+
+    expect(result.subject).toBe(history[0].subject);
+    expect(result.deterministic).toBe(true);
+    expect(result.divergedAt).toBeNull();
+    expect(result.steps.map((item) => item.matches)).toEqual([true, true]);
+    expect(result.steps.map((item) => item.snapshotHash)).toEqual(history.map((item) => item.snapshotHash));
+    expect(result.steps[1].produced.map((item) => item.type)).toEqual([
+      checkoutContract.version('1.0.0').metadata.completeEventType,
+    ]);
+  });
+
+  it('should report the steps diverging after a code change', async () => {
+    const history = await recordMachineHistory();
+    const result = await replayOrchestration({ handler: createMachine(5), history });
+
+    expect(result.deterministic).toBe(false);
+    expect(result.divergedAt).toBe(0);
+    expect(result.steps[0].differences.map((item) => item.field)).toEqual(['produced', 'snapshotHash']);
+    expect((result.steps[0].differences[0].actual as any[])[0].data.amount).toBe(15);
+    expect((result.steps[0].differences[0].expected as any[])[0].data.amount).toBe(10);
+    expect(result.steps[1].differences.map((item) => item.field)).toEqual(['snapshotHash']);
+  });
+
+  it('should reproduce the recorded history of a resumable', async () => {
+    const createCheckout = (history?: SimpleOrchestrationHistoryStore) =>
+      createArvoResumable({
+        contracts: {
+          self: checkoutContract,
+          services: {
+            payment: paymentContract.version('1.0.0'),
+          },
+        },
+        memory: new SimpleMachineMemory<ArvoResumableState<{ amount: number }>>(),
+        history,
+        handler: {
+          '1.0.0': async ({ input, service }) => {
+            if (input) {
+              return {
+                context: { amount: input.data.amount },
+                services: [{ type: 'com.test.checkout.payment' as const, data: { amount: input.data.amount } }],
+              };
+            }
+            if (service?.type === 'evt.test.checkout.payment.success') {
+              return { output: { paid: service.data.paid } };
+            }
+          },
+        },
+      });
+    const history = new SimpleOrchestrationHistoryStore();
+    const resumable = createCheckout(history);
+    const initEvent = createCheckoutInitEvent();
+    await resumable.execute(initEvent, { inheritFrom: 'EVENT' });
+
+    const result = await replayOrchestration({
+      handler: createCheckout(),
+      history: await history.read(initEvent.subject),
+    });
+    expect(result.deterministic).toBe(true);
+    expect(result.steps[0].produced.map((item) => item.type)).toEqual(['com.test.checkout.payment']);
+  });
+
+  it('should reject empty and multi-subject histories', async () => {
+    const history = await recordMachineHistory();
+    await expect(replayOrchestration({ handler: createMachine(0), history: [] })).rejects.toThrow(
+      'At least one history record must be provided for the replay',
+    );
+    await expect(
+      replayOrchestration({
+        handler: createMachine(0),
+        history: [history[0], { ...history[1], subject: 'another.subject' }],
+      }),
+    ).rejects.toThrow('All the history records of a replay must belong to the subject');
+  });
+});
@@ -0,0 +1,123 @@
+import { type ArvoEvent, createArvoEvent } from 'arvo-core';
+import { type MachineMemoryRecord, OutboxRelay, SimpleMachineMemory } from '../../src';
+
+describe('OutboxRelay', () => {
+  const subject = 'test.outbox.subject';
+  let memory: SimpleMachineMemory<MachineMemoryRecord>;
+
+  const createPendingEvent = (index: number) =>
+    createArvoEvent({
+      source: 'com.test.orchestrator',
+      subject,
+      type: 'com.test.service',
+      data: { index },
+    });
+
+  beforeEach(async () => {
+    memory = new SimpleMachineMemory<MachineMemoryRecord>();
+    await memory.write(subject, {
+      executionStatus: 'normal',
+      initEventId: '',
+      subject,
+      state: {} as any,
+      parentSubject: null,
+      status: 'active',
+      value: '',
+      machineDefinition: null,
+      events: {
+        consumed: null,
+        produced: [],
+      },
+      outbox: [createPendingEvent(1).toJSON(), createPendingEvent(2).toJSON(), createPendingEvent(3).toJSON()],
+    });
+  });
+
+  it('should publish the pending events in order and remove them from the outbox', async () => {
+    const published: ArvoEvent[] = [];
+    const relay = new OutboxRelay({ memory, publisher: async (event) => void published.push(event) });
+
+    const result = await relay.drain(subject);
+    expect(result.status).toBe('DRAINED');
+    expect(result.events.map((item) => item.data.index)).toEqual([1, 2, 3]);
+    expect(published.map((item) => item.data.index)).toEqual([1, 2, 3]);
+    expect((await memory.read(subject))?.outbox).toEqual([]);
+  });
+
+  it('should persist the delivery progress and rethrow when the publisher fails', async () => {
+    const published: ArvoEvent[] = [];
+    const relay = new OutboxRelay({
+      memory,
+      publisher: async (event) => {
+        if (event.data.index === 2) throw new Error('Broker unavailable');
+        published.push(event);
+      },
+    });
+
+    await expect(relay.drain(subject)).rejects.toThrow('Broker unavailable');
+    expect(published.map((item) => item.data.index)).toEqual([1]);
+    expect((await memory.read(subject))?.outbox?.map((item) => item.data.index)).toEqual([2, 3]);
+    expect(await memory.lock(subject)).toBe(true);
+  });
+
+  it('should rethrow the publisher error when persisting the progress fails', async () => {
+    const relay = new OutboxRelay({
+      memory,
+      publisher: async (event) => {
+        if (event.data.index === 2) throw new Error('Broker unavailable');
+      },
+    });
+    jest.spyOn(memory, 'write').mockRejectedValueOnce(new Error('Memory unavailable'));
+
+    await expect(relay.drain(subject)).rejects.toThrow('Broker unavailable');
+    expect((await memory.read(subject))?.outbox?.length).toBe(3);
+    expect(await memory.lock(subject)).toBe(true);
+  });
+
+  it('should drain the outboxes of all the subjects with pending events', async () => {
+    const otherSubject = 'test.outbox.other';
+    const record = await memory.read(subject);
+    if (!record) throw new Error('Missing record');
+    await memory.write(otherSubject, { ...record, subject: otherSubject, outbox: [createPendingEvent(4).toJSON()] });
+    await memory.write('test.outbox.delivered', { ...record, outbox: [] });
+    const published: ArvoEvent[] = [];
+    const relay = new OutboxRelay({ memory, publisher: async (event) => void published.push(event) });
+
+    const results = await relay.drainPending();
+    expect(Object.keys(results).sort()).toEqual([otherSubject, subject].sort());
+    expect(results[subject].events.map((item) => item.data.index)).toEqual([1, 2, 3]);
+    expect(results[otherSubject].events.map((item) => item.data.index)).toEqual([4]);
+    expect(published.length).toBe(4);
+    expect(await relay.drainPending()).toEqual({});
+  });
+
+  it('should require a queryable memory to discover the pending outboxes', async () => {
+    const relay = new OutboxRelay({
+      memory: {
+        read: (id) => memory.read(id),
+        write: (id, data) => memory.write(id, data as MachineMemoryRecord),
+        lock: (id, owner) => memory.lock(id, owner),
+        unlock: (id, owner) => memory.unlock(id, owner),
+      },
+      publisher: async () => {},
+    });
+    await expect(relay.drainPending()).rejects.toThrow(
+      'Discovering the pending outboxes requires a machine memory implementing IQueryableMachineMemory',
+    );
+  });
+
+  it('should not publish when the subject is locked by another process', async () => {
+    const publisher = jest.fn(async () => {});
+    const relay = new OutboxRelay({ memory, publisher });
+
+    await memory.lock(subject, 'execution-token');
+    const result = await relay.drain(subject);
+    expect(result).toEqual({ status: 'LOCKED', events: [] });
+    expect(publisher).not.toHaveBeenCalled();
+    expect((await memory.read(subject))?.outbox?.length).toBe(3);
+  });
+
+  it('should report an empty outbox for unknown subjects', async () => {
+    const relay = new OutboxRelay({ memory, publisher: async () => {} });
+    expect(await relay.drain('unknown.subject')).toEqual({ status: 'EMPTY', events: [] });
+  });
+});
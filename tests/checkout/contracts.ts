@@ -0,0 +1,24 @@
+import { createArvoOrchestratorContract, createSimpleArvoContract } from 'arvo-core';
+import { z } from 'zod';
+
+export const paymentContract = createSimpleArvoContract({
+  uri: '#/test/checkout/payment',
+  type: 'test.checkout.payment',
+  versions: {
+    '1.0.0': {
+      accepts: z.object({ amount: z.number() }),
+      emits: z.object({ paid: z.boolean() }),
+    },
+  },
+});
+
+export const checkoutContract = createArvoOrchestratorContract({
+  uri: '#/test/checkout',
+  name: 'test.checkout',
+  versions: {
+    '1.0.0': {
+      init: z.object({ amount: z.number() }),
+      complete: z.object({ paid: z.boolean() }),
+    },
+  },
+});
@@ -0,0 +1,17 @@
+import { createArvoEventFactory, createArvoOrchestratorEventFactory } from 'arvo-core';
+import { checkoutContract, paymentContract } from './contracts';
+
+export const createCheckoutInitEvent = (amount = 10) =>
+  createArvoOrchestratorEventFactory(checkoutContract.version('1.0.0')).init({
+    source: 'com.test.client',
+    data: { parentSubject$$: null, amount },
+  });
+
+export const createPaymentSuccessEvent = ({ subject, to }: { subject: string; to: string }) =>
+  createArvoEventFactory(paymentContract.version('1.0.0')).emits({
+    type: 'evt.test.checkout.payment.success',
+    source: paymentContract.type,
+    subject,
+    to,
+    data: { paid: true },
+  });
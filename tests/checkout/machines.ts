@@ -0,0 +1,34 @@
+import { setupArvoMachine } from '../../src';
+import { checkoutContract, paymentContract } from './contracts';
+
+export const checkoutMachine = setupArvoMachine({
+  contracts: {
+    self: checkoutContract.version('1.0.0'),
+    services: {
+      payment: paymentContract.version('1.0.0'),
+    },
+  },
+  types: {
+    context: {} as { amount: number },
+  },
+}).createMachine({
+  id: 'checkout',
+  context: ({ input }) => ({ amount: input.data.amount }),
+  output: () => ({ paid: true }),
+  initial: 'awaiting_payment',
+  states: {
+    awaiting_payment: {
+      entry: {
+        type: 'enqueueArvoEvent',
+        params: ({ context }) => ({
+          type: 'com.test.checkout.payment',
+          data: { amount: context.amount },
+        }),
+      },
+      on: {
+        'evt.test.checkout.payment.success': { target: 'done' },
+      },
+    },
+    done: { type: 'final' },
+  },
+});
@@ -1,4 +1,4 @@
-import { type PathValue, getAllPaths, pathValueToString } from '../../../src/utils/object';
+import { type PathValue, getAllPaths, pathValueToString, stableHash, stableStringify } from '../../../src/utils/object';
 
 describe('getAllPaths', () => {
   it('should return correct paths for a simple object', () => {
@@ -73,3 +73,23 @@ describe('pathValueToString', () => {
     expect(result).toBe('#a.#b.undefined');
   });
 });
+
+describe('stableStringify', () => {
+  it('should sort the object keys at every level', () => {
+    expect(stableStringify({ b: 1, a: { d: [{ f: 1, e: 2 }], c: 3 } })).toBe('{"a":{"c":3,"d":[{"e":2,"f":1}]},"b":1}');
+  });
+
+  it('should follow the JSON serialization of undefined values and dates', () => {
+    const date = new Date(0);
+    expect(stableStringify({ a: undefined, b: [undefined], c: date })).toBe(`{"b":[null],"c":"${date.toISOString()}"}`);
+    expect(stableStringify(undefined)).toBe('null');
+  });
+});
+
+describe('stableHash', () => {
+  it('should hash equal values to the same hash regardless of key order', () => {
+    expect(stableHash({ a: 1, b: { c: 2, d: 3 } })).toBe(stableHash({ b: { d: 3, c: 2 }, a: 1 }));
+    expect(stableHash({ a: 1 })).not.toBe(stableHash({ a: 2 }));
+    expect(stableHash({ a: 1 })).toMatch(/^[0-9a-f]{64}$/);
+  });
+});